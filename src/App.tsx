@@ -1,5 +1,7 @@
 import { RouterProvider } from 'react-router-dom';
 import { ThemeProvider } from './context/ThemeContext';
+import { StrictModeProvider } from './context/StrictModeContext';
+import { ProgressProvider } from './context/ProgressContext';
 import { router } from './router';
 
 /**
@@ -8,7 +10,11 @@ import { router } from './router';
 function App(): JSX.Element {
   return (
     <ThemeProvider>
-      <RouterProvider router={router} />
+      <StrictModeProvider>
+        <ProgressProvider>
+          <RouterProvider router={router} />
+        </ProgressProvider>
+      </StrictModeProvider>
     </ThemeProvider>
   );
 }
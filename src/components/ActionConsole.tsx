@@ -0,0 +1,245 @@
+import { useRef, useState } from 'react';
+import { parseAction, parseActionLogFile, serializeActionLogs } from '../utils/actionSchema';
+import { downloadFile } from '../utils/downloadFile';
+import type { ActionConsoleProps, ActionConsoleTarget, ActionSchema } from '../types';
+
+// Console output is trimmed to the newest lines
+const MAX_LINES = 20;
+
+interface ConsoleLine {
+  id: number;
+  input?: string;
+  kind: 'ok' | 'warning' | 'error';
+  message: string;
+}
+
+interface PendingUnknownAction {
+  targetId: string;
+  action: { type: string; payload?: unknown };
+}
+
+const lineStyles: Record<ConsoleLine['kind'], string> = {
+  ok: 'text-green-400',
+  warning: 'text-amber-400',
+  error: 'text-red-400',
+};
+
+const examplePayloads = { number: 1, string: 'Learn reducers' };
+
+/**
+ * One example action per type, so the schema doubles as documentation
+ */
+function getExamples(schema: ActionSchema): string[] {
+  return Object.entries(schema).map(([type, payload]) =>
+    JSON.stringify(payload === 'none' ? { type } : { type, payload: examplePayloads[payload] })
+  );
+}
+
+/**
+ * Console for dispatching hand-written JSON actions to reducers.
+ * Actions are validated against each reducer's schema, and the logs can be
+ * exported and imported as JSON to share reproductions.
+ */
+export function ActionConsole({ targets }: ActionConsoleProps): JSX.Element {
+  const [targetId, setTargetId] = useState(targets[0]?.id);
+  const [input, setInput] = useState('');
+  const [lines, setLines] = useState<ConsoleLine[]>([]);
+  const [pendingUnknown, setPendingUnknown] = useState<PendingUnknownAction | null>(null);
+  const nextLineIdRef = useRef(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const target = targets.find((t) => t.id === targetId) ?? targets[0];
+
+  const print = (line: Omit<ConsoleLine, 'id'>): void => {
+    const id = nextLineIdRef.current++;
+    setLines((prev) => [...prev.slice(-(MAX_LINES - 1)), { ...line, id }]);
+  };
+
+  const findTarget = (id: string): ActionConsoleTarget | undefined => targets.find((t) => t.id === id);
+
+  const handleDispatch = (): void => {
+    if (!target || !input.trim()) return;
+    const result = parseAction(input, target.schema);
+    setPendingUnknown(null);
+
+    switch (result.status) {
+      case 'valid':
+        target.dispatch(result.action);
+        print({ input, kind: 'ok', message: `Dispatched to ${target.label}` });
+        setInput('');
+        break;
+      case 'unknown-type':
+        setPendingUnknown({ targetId: target.id, action: result.action });
+        print({
+          input,
+          kind: 'warning',
+          message:
+            `"${result.action.type}" is not one of ${result.knownTypes.join(', ')}. ` +
+            `TypeScript rejects it at compile time, but at runtime the switch falls through to ` +
+            `default, which returns the same state object.`,
+        });
+        break;
+      case 'invalid':
+        print({ input, kind: 'error', message: result.message });
+        break;
+    }
+  };
+
+  const dispatchUnknown = (): void => {
+    if (!pendingUnknown) return;
+    const pendingTarget = findTarget(pendingUnknown.targetId);
+    pendingTarget?.dispatch(pendingUnknown.action);
+    print({
+      kind: 'warning',
+      message:
+        `Dispatched "${pendingUnknown.action.type}" anyway: the reducer returned the same state ` +
+        `object, so a plain useReducer would bail out without re-rendering.`,
+    });
+    setPendingUnknown(null);
+    setInput('');
+  };
+
+  const handleExport = (): void => {
+    const logs = Object.fromEntries(targets.map((t) => [t.id, t.actions]));
+    downloadFile('action-log.json', serializeActionLogs(logs));
+    const count = targets.reduce((sum, t) => sum + t.actions.length, 0);
+    print({ kind: 'ok', message: `Exported ${count} action(s)` });
+  };
+
+  const handleImport = async (file: File): Promise<void> => {
+    try {
+      const schemas = Object.fromEntries(targets.map((t) => [t.id, t.schema]));
+      const logs = parseActionLogFile(await file.text(), schemas);
+      let count = 0;
+      Object.entries(logs).forEach(([id, actions]) => {
+        const importTarget = findTarget(id);
+        if (!importTarget) return;
+        importTarget.reset();
+        actions.forEach((action) => importTarget.dispatch(action));
+        count += actions.length;
+      });
+      print({ kind: 'ok', message: `Imported ${count} action(s) from ${file.name}` });
+    } catch (error) {
+      print({
+        kind: 'error',
+        message: `Import failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+          ⌨️ Action Console
+        </h3>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            onClick={handleExport}
+            className="px-2.5 py-1 rounded-md bg-gray-100 dark:bg-dark-bg text-gray-700 dark:text-dark-text hover:bg-gray-200 dark:hover:bg-dark-border transition-colors"
+          >
+            Export log
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2.5 py-1 rounded-md bg-gray-100 dark:bg-dark-bg text-gray-700 dark:text-dark-text hover:bg-gray-200 dark:hover:bg-dark-border transition-colors"
+          >
+            Import log
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                void handleImport(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {targets.map((t) => (
+          <button
+            key={t.id}
+            type="button"
+            onClick={() => {
+              setTargetId(t.id);
+              setPendingUnknown(null);
+            }}
+            className={`px-3 py-1 rounded-full text-xs font-mono transition-colors ${
+              t.id === target?.id
+                ? 'bg-primary-500 text-white'
+                : 'bg-gray-100 dark:bg-dark-bg text-gray-600 dark:text-dark-muted hover:bg-gray-200 dark:hover:bg-dark-border'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleDispatch()}
+          placeholder='{"type":"SET","payload":42}'
+          spellCheck={false}
+          className="flex-1 px-4 py-2 font-mono text-sm border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button
+          type="button"
+          onClick={handleDispatch}
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+        >
+          Dispatch
+        </button>
+      </div>
+
+      {target && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {getExamples(target.schema).map((example) => (
+            <button
+              key={example}
+              type="button"
+              onClick={() => setInput(example)}
+              className="px-2 py-0.5 rounded text-xs font-mono text-gray-500 dark:text-dark-muted bg-gray-50 dark:bg-dark-bg hover:text-primary-600 dark:hover:text-primary-400"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-gray-900 rounded-lg p-3 font-mono text-xs min-h-[80px] max-h-60 overflow-y-auto space-y-2">
+        {lines.length > 0 ? (
+          lines.map((line) => (
+            <div key={line.id}>
+              {line.input && <p className="text-gray-400">&gt; {line.input}</p>}
+              <p className={lineStyles[line.kind]}>{line.message}</p>
+            </div>
+          ))
+        ) : (
+          <p className="text-gray-500">Type an action as JSON and press Enter...</p>
+        )}
+      </div>
+
+      {pendingUnknown && (
+        <button
+          type="button"
+          onClick={dispatchUnknown}
+          className="mt-3 px-3 py-1.5 text-sm bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+        >
+          Dispatch anyway and see what the reducer does
+        </button>
+      )}
+    </div>
+  );
+}
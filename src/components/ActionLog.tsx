@@ -0,0 +1,135 @@
+import { StateDiff } from './StateDiff';
+import type { ActionLogProps } from '../types';
+
+const controlClassName =
+  'px-2.5 py-1 text-xs rounded-md bg-gray-100 dark:bg-dark-bg text-gray-700 dark:text-dark-text hover:bg-gray-200 dark:hover:bg-dark-border disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Time-travel panel for a reducer wrapped with useTimeTravelReducer.
+ * Click an entry to show the state after it; entries after the cursor are the "future".
+ */
+export function ActionLog<S, A>({ title, timeTravel, describeState }: ActionLogProps<S, A>): JSX.Element {
+  const { entries, cursor, isReplaying, jumpTo, stepBack, stepForward, replayFrom, clear } = timeTravel;
+  const isAtPresent = cursor === entries.length - 1;
+  const initialState = entries.length > 0 ? entries[0].prevState : timeTravel.state;
+  const current = cursor >= 0 ? entries[cursor] : null;
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+          ⏪ {title}
+        </h3>
+        <div className="flex items-center gap-1.5">
+          <button type="button" onClick={stepBack} disabled={cursor < 0} className={controlClassName}>
+            ◀ Back
+          </button>
+          <button type="button" onClick={stepForward} disabled={isAtPresent} className={controlClassName}>
+            Forward ▶
+          </button>
+          <button
+            type="button"
+            onClick={() => jumpTo(entries.length - 1)}
+            disabled={isAtPresent}
+            className={controlClassName}
+          >
+            Present
+          </button>
+          <button type="button" onClick={clear} disabled={entries.length === 0} className={controlClassName}>
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {isReplaying ? (
+        <p className="mb-3 text-xs text-purple-600 dark:text-purple-400">
+          Replaying: the reducer runs again for each logged action...
+        </p>
+      ) : (
+        !isAtPresent && (
+          <p className="mb-3 text-xs text-amber-600 dark:text-amber-400">
+            Viewing the past. Dispatching now discards the {entries.length - 1 - cursor} later action(s).
+          </p>
+        )
+      )}
+
+      <ol className="space-y-1 max-h-72 overflow-y-auto font-mono text-xs">
+        <li>
+          <button
+            type="button"
+            onClick={() => jumpTo(-1)}
+            className={`w-full text-left px-3 py-2 rounded-md transition-colors ${
+              cursor === -1
+                ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300'
+                : 'text-gray-600 dark:text-dark-muted hover:bg-gray-50 dark:hover:bg-dark-bg'
+            }`}
+          >
+            Initial state: {describeState(initialState)}
+          </button>
+        </li>
+        {entries.map((entry, index) => (
+          <li
+            key={entry.id}
+            className={`flex items-center gap-2 rounded-md transition-colors ${
+              index === cursor
+                ? 'bg-primary-100 dark:bg-primary-900/30'
+                : 'hover:bg-gray-50 dark:hover:bg-dark-bg'
+            } ${index > cursor ? 'opacity-50' : ''}`}
+          >
+            <button
+              type="button"
+              onClick={() => jumpTo(index)}
+              className="flex-1 min-w-0 text-left px-3 py-2 text-gray-700 dark:text-dark-text"
+            >
+              <span className="text-gray-400 dark:text-dark-muted">#{entry.id}</span>{' '}
+              <span className="text-primary-600 dark:text-primary-400">{JSON.stringify(entry.action)}</span>
+              <span className="block truncate text-gray-500 dark:text-dark-muted">
+                {describeState(entry.prevState)} → {describeState(entry.nextState)}
+              </span>
+            </button>
+            {entry.replay && (
+              <span
+                className={`flex-shrink-0 px-1.5 py-0.5 rounded ${
+                  entry.replay.matchesRecording
+                    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                    : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                }`}
+                title={
+                  entry.replay.matchesRecording
+                    ? 'Replay produced the same state as the recording'
+                    : 'Replay produced a different state: the reducer is not pure'
+                }
+              >
+                {entry.replay.matchesRecording ? '✓ same' : '✗ differs'}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => replayFrom(index)}
+              disabled={isReplaying}
+              className="flex-shrink-0 mr-2 px-2 py-1 rounded text-gray-500 dark:text-dark-muted hover:text-primary-600 dark:hover:text-primary-400 disabled:opacity-40"
+              title="Replay the actions from here"
+            >
+              ↻ Replay
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {entries.length === 0 && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-dark-muted">
+          Dispatch an action to start recording.
+        </p>
+      )}
+
+      {current && (
+        <div className="mt-4">
+          <p className="text-xs font-semibold text-gray-500 dark:text-dark-muted mb-2">
+            What #{current.id} changed
+          </p>
+          <StateDiff before={current.prevState} after={current.nextState} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Component, type ReactNode } from 'react';
+import { retryFailedLoads } from '../utils/lazyWithRetry';
+
+interface ChunkErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface ChunkErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Catches a lazily loaded region that failed to load (offline, or a chunk gone
+ * after a deploy) and offers to load it again
+ */
+export class ChunkErrorBoundary extends Component<ChunkErrorBoundaryProps, ChunkErrorBoundaryState> {
+  state: ChunkErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ChunkErrorBoundaryState {
+    return { error };
+  }
+
+  private retry = (): void => {
+    retryFailedLoads();
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    if (this.state.error) {
+      return (
+        <div
+          role="alert"
+          className="p-6 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-center"
+        >
+          <p className="text-sm font-semibold text-red-700 dark:text-red-300 mb-1">This section failed to load</p>
+          <p className="text-xs text-red-600 dark:text-red-400 font-mono mb-4">{this.state.error.message}</p>
+          <button type="button" onClick={this.retry} className="btn-secondary">
+            Try again
+          </button>
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
@@ -0,0 +1,43 @@
+import { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from '../context/ThemeContext';
+import '../sandbox/monacoSetup';
+import type { CodeDiffViewProps } from '../types';
+
+/**
+ * Side-by-side Monaco diff of the shipped example against the current draft
+ */
+export function CodeDiffView({
+  original,
+  modified,
+  language = 'typescript',
+  height = '400px',
+}: CodeDiffViewProps): JSX.Element {
+  const { theme } = useTheme();
+
+  return (
+    <div className="rounded-xl overflow-hidden border border-slate-200 dark:border-dark-border shadow-inner">
+      <div className="grid grid-cols-2 text-xs font-bold text-slate-400 dark:text-dark-muted uppercase tracking-widest bg-slate-50 dark:bg-dark-bg border-b border-slate-200 dark:border-dark-border">
+        <span className="px-4 py-2">Original example</span>
+        <span className="px-4 py-2">Your draft</span>
+      </div>
+      <DiffEditor
+        height={height}
+        language={language}
+        original={original}
+        modified={modified}
+        theme={theme === 'dark' ? 'vs-dark' : 'light'}
+        options={{
+          readOnly: true,
+          originalEditable: false,
+          renderSideBySide: true,
+          minimap: { enabled: false },
+          fontSize: 14,
+          fontFamily: "'Fira Code', 'JetBrains Mono', monospace",
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+          wordWrap: 'on',
+        }}
+      />
+    </div>
+  );
+}
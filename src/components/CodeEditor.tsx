@@ -1,6 +1,41 @@
-import Editor from '@monaco-editor/react';
+import { useRef, useState } from 'react';
+import Editor, { type BeforeMount, type Monaco, type OnMount, type OnValidate } from '@monaco-editor/react';
+import { ProblemsPanel } from './ProblemsPanel';
 import { useTheme } from '../context/ThemeContext';
-import type { CodeEditorProps } from '../types';
+import '../sandbox/monacoSetup';
+import { configureMonacoTypeScript } from '../sandbox/monacoTypeScript';
+import type { CodeEditorProps, EditorProblem } from '../types';
+
+type StandaloneEditor = Parameters<OnMount>[0];
+type EditorMarker = Parameters<OnValidate>[0][number];
+
+/**
+ * Convert a Monaco marker into a problem entry, dropping hints (e.g. unused variables)
+ */
+function toProblem(marker: EditorMarker, monaco: Monaco): EditorProblem | null {
+  let severity: EditorProblem['severity'];
+  switch (marker.severity) {
+    case monaco.MarkerSeverity.Error:
+      severity = 'error';
+      break;
+    case monaco.MarkerSeverity.Warning:
+      severity = 'warning';
+      break;
+    case monaco.MarkerSeverity.Info:
+      severity = 'info';
+      break;
+    default:
+      return null;
+  }
+
+  return {
+    severity,
+    message: marker.message,
+    line: marker.startLineNumber,
+    column: marker.startColumn,
+    code: typeof marker.code === 'object' ? marker.code.value : marker.code,
+  };
+}
 
 /**
  * Monaco code editor component with TypeScript support
@@ -11,8 +46,12 @@ export function CodeEditor({
   language = 'typescript',
   readOnly = false,
   height = '300px',
+  path = 'file:///playground.tsx',
 }: CodeEditorProps): JSX.Element {
   const { theme } = useTheme();
+  const editorRef = useRef<StandaloneEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const [problems, setProblems] = useState<EditorProblem[]>([]);
 
   const handleEditorChange = (newValue: string | undefined): void => {
     if (onChange && newValue !== undefined) {
@@ -20,13 +59,46 @@ export function CodeEditor({
     }
   };
 
+  const handleBeforeMount: BeforeMount = (monaco) => {
+    monacoRef.current = monaco;
+    configureMonacoTypeScript(monaco);
+  };
+
+  const handleMount: OnMount = (editor) => {
+    editorRef.current = editor;
+  };
+
+  const handleValidate: OnValidate = (markers) => {
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+    setProblems(
+      markers
+        .map((marker) => toProblem(marker, monaco))
+        .filter((problem): problem is EditorProblem => problem !== null)
+    );
+  };
+
+  const revealProblem = (problem: EditorProblem): void => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.setPosition({ lineNumber: problem.line, column: problem.column });
+    editor.revealLineInCenter(problem.line);
+    editor.focus();
+  };
+
+  const isTypeScript = language === 'typescript';
+
   return (
     <div className="rounded-xl overflow-hidden border border-slate-200 dark:border-dark-border shadow-inner">
       <Editor
         height={height}
         language={language}
+        path={path}
         value={value}
         onChange={handleEditorChange}
+        beforeMount={handleBeforeMount}
+        onMount={handleMount}
+        onValidate={handleValidate}
         theme={theme === 'dark' ? 'vs-dark' : 'light'}
         options={{
           readOnly,
@@ -46,6 +118,7 @@ export function CodeEditor({
           },
         }}
       />
+      {isTypeScript && <ProblemsPanel problems={problems} onSelect={revealProblem} />}
     </div>
   );
 }
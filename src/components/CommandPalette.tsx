@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { HighlightedText } from './HighlightedText';
+import { useStrictMode } from '../context/StrictModeContext';
+import { useTheme } from '../context/ThemeContext';
+import { contentCommands } from '../data/commandItems';
+import { hooksList } from '../data/hooksList';
+import { fuzzyMatch } from '../utils/fuzzyMatch';
+import type { CommandItem, CommandKind, TextRange } from '../types';
+
+const MAX_RESULTS = 50;
+
+const kindLabels: Record<CommandKind, string> = {
+  action: 'Action',
+  hook: 'Hook',
+  mistake: 'Common mistake',
+  consideration: 'Performance',
+};
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+interface RankedCommand {
+  item: CommandItem;
+  titleRanges: TextRange[];
+  subtitleRanges: TextRange[];
+}
+
+/**
+ * Ctrl/Cmd+K dialog that fuzzy-searches hooks, their mistakes and
+ * performance notes, and app actions. Mounted only while open, so every
+ * opening starts with an empty query.
+ */
+export function CommandPalette({ onClose }: CommandPaletteProps): JSX.Element {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { theme, toggleTheme } = useTheme();
+  const { isStrictMode, toggleStrictMode } = useStrictMode();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const currentHook = hooksList.find((hook) => hook.path === location.pathname);
+
+  const actions = useMemo((): CommandItem[] => {
+    const items: CommandItem[] = [
+      {
+        id: 'action-theme',
+        kind: 'action',
+        icon: theme === 'light' ? '🌙' : '☀️',
+        title: 'Toggle theme',
+        subtitle: `Switch to ${theme === 'light' ? 'dark' : 'light'} mode`,
+        perform: toggleTheme,
+      },
+      {
+        id: 'action-strict-mode',
+        kind: 'action',
+        icon: '🛡️',
+        title: 'Toggle Strict Mode',
+        subtitle: `Turn ${isStrictMode ? 'off' : 'on'} double-invoked renders and effects in previews`,
+        perform: toggleStrictMode,
+      },
+      { id: 'action-home', kind: 'action', icon: '🏠', title: 'Go to home', subtitle: 'All hooks', to: '/' },
+    ];
+    if (currentHook) {
+      items.unshift({
+        id: 'action-code-tab',
+        kind: 'action',
+        icon: '⌨️',
+        title: 'Open Code tab',
+        subtitle: `Edit and run the ${currentHook.name} example`,
+        to: `${currentHook.path}?tab=code`,
+      },
+      {
+        id: 'action-exercises-tab',
+        kind: 'action',
+        icon: '🎯',
+        title: 'Open Exercises',
+        subtitle: `Fix broken ${currentHook.name} code and check it against tests`,
+        to: `${currentHook.path}?tab=exercises`,
+      });
+    }
+    return items;
+  }, [theme, toggleTheme, isStrictMode, toggleStrictMode, currentHook]);
+
+  const results = useMemo((): RankedCommand[] => {
+    if (!query.trim()) {
+      // Without a query, list actions and hooks but not every mistake
+      return [...actions, ...contentCommands.filter((item) => item.kind === 'hook')].map((item) => ({
+        item,
+        titleRanges: [],
+        subtitleRanges: [],
+      }));
+    }
+
+    const ranked = [...actions, ...contentCommands]
+      .map((item) => ({ item, match: fuzzyMatch(query, [item.title, item.subtitle]) }))
+      .filter((entry) => entry.match !== null)
+      .sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0))
+      .slice(0, MAX_RESULTS)
+      .map(({ item, match }) => ({
+        item,
+        titleRanges: match?.ranges[0] ?? [],
+        subtitleRanges: match?.ranges[1] ?? [],
+      }));
+
+    // Always offer the full-text search, which also covers descriptions and code
+    const searchItem: CommandItem = {
+      id: 'action-search',
+      kind: 'action',
+      icon: '🔎',
+      title: `Search all content for “${query.trim()}”`,
+      subtitle: 'Descriptions, mistakes, performance tips and code examples',
+      to: `/search?q=${encodeURIComponent(query.trim())}`,
+    };
+    return [...ranked, { item: searchItem, titleRanges: [], subtitleRanges: [] }];
+  }, [query, actions]);
+
+  // Keep the highlighted option visible while moving with the arrow keys
+  useEffect(() => {
+    document.getElementById(`command-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (item: CommandItem): void => {
+    onClose();
+    if ('to' in item) {
+      navigate(item.to);
+    } else {
+      item.perform();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>): void => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % results.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((prev) => (prev - 1 + results.length) % results.length);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (results[activeIndex]) select(results[activeIndex].item);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center px-4 pt-[12vh]">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} aria-hidden="true" />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="relative w-full max-w-2xl bg-white dark:bg-dark-card rounded-2xl shadow-2xl border border-slate-200 dark:border-dark-border overflow-hidden animate-fade-in"
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search hooks, mistakes, performance tips and actions..."
+          autoFocus
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={`command-${activeIndex}`}
+          className="w-full px-5 py-4 bg-transparent border-b border-slate-200 dark:border-dark-border text-slate-900 dark:text-dark-text placeholder-slate-400 focus:outline-none"
+        />
+
+        <ul id="command-palette-results" role="listbox" className="max-h-[50vh] overflow-y-auto p-2">
+          {results.map(({ item, titleRanges, subtitleRanges }, index) => (
+            <li
+              key={item.id}
+              id={`command-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => select(item)}
+              className={`flex items-start gap-3 px-3 py-2.5 rounded-xl cursor-pointer ${
+                index === activeIndex ? 'bg-violet-50 dark:bg-violet-900/20' : ''
+              }`}
+            >
+              <span className="text-lg w-8 h-8 flex-shrink-0 flex items-center justify-center rounded-lg bg-slate-100 dark:bg-dark-border">
+                {item.icon}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-800 dark:text-dark-text line-clamp-2">
+                  <HighlightedText text={item.title} ranges={titleRanges} />
+                </p>
+                <p className="text-xs text-slate-500 dark:text-dark-muted truncate">
+                  <HighlightedText text={item.subtitle} ranges={subtitleRanges} />
+                </p>
+              </div>
+              <span className="flex-shrink-0 mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400 dark:text-dark-muted">
+                {kindLabels[item.kind]}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-4 px-5 py-2.5 border-t border-slate-200 dark:border-dark-border text-[11px] text-slate-400 dark:text-dark-muted">
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          <span>esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+}
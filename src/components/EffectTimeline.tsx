@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { EffectEvent, EffectTimelineProps } from '../types';
+
+const eventStyles: Record<EffectEvent['type'], { icon: string; className: string; label: string }> = {
+  setup: {
+    icon: '▶',
+    label: 'Setup',
+    className: 'bg-green-500 text-white',
+  },
+  cleanup: {
+    icon: '■',
+    label: 'Cleanup',
+    className: 'bg-red-500 text-white',
+  },
+  skip: {
+    icon: '·',
+    label: 'Skipped',
+    className: 'bg-gray-200 dark:bg-dark-border text-gray-500 dark:text-dark-muted',
+  },
+};
+
+const reasonLabels: Record<EffectEvent['reason'], string> = {
+  mount: 'component mounted',
+  'deps-changed': 'dependencies changed',
+  'deps-unchanged': 'dependencies unchanged, effect skipped',
+  'every-render': 'no dependency array, runs after every render',
+  'before-rerun': 'runs before the next setup',
+  unmount: 'component unmounted',
+};
+
+/**
+ * Swimlane view of effect lifecycle events, one lane per effect.
+ * Events share a single time axis so cleanup-before-setup ordering is visible.
+ */
+export function EffectTimeline({ events, effects, onClear }: EffectTimelineProps): JSX.Element {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const selected = events.find((event) => event.id === selectedId) ?? events[events.length - 1];
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+          📜 Effect Lifecycle Timeline
+        </h3>
+        <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-dark-muted">
+          {Object.values(eventStyles).map((style) => (
+            <span key={style.label} className="flex items-center gap-1">
+              <span className={`w-4 h-4 rounded flex items-center justify-center text-[10px] ${style.className}`}>
+                {style.icon}
+              </span>
+              {style.label}
+            </span>
+          ))}
+          {onClear && (
+            <button
+              type="button"
+              onClick={onClear}
+              className="hover:text-gray-700 dark:hover:text-dark-text"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {events.length > 0 ? (
+        <div className="overflow-x-auto">
+          <div className="inline-block min-w-full space-y-2">
+            {effects.map((effect) => (
+              <div key={effect} className="flex items-center gap-2">
+                <span className="w-32 flex-shrink-0 font-mono text-xs text-gray-600 dark:text-dark-muted truncate">
+                  {effect}
+                </span>
+                <div className="flex gap-1">
+                  {events.map((event) =>
+                    event.effect === effect ? (
+                      <button
+                        key={event.id}
+                        type="button"
+                        onClick={() => setSelectedId(event.id)}
+                        title={`${eventStyles[event.type].label}: ${reasonLabels[event.reason]}`}
+                        className={`w-5 h-5 flex-shrink-0 rounded flex items-center justify-center text-[10px] ${
+                          eventStyles[event.type].className
+                        } ${selected?.id === event.id ? 'ring-2 ring-primary-500 ring-offset-1 dark:ring-offset-dark-card' : ''}`}
+                      >
+                        {eventStyles[event.type].icon}
+                      </button>
+                    ) : (
+                      <span key={event.id} className="w-5 h-5 flex-shrink-0" />
+                    )
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-dark-muted">No effects recorded yet...</p>
+      )}
+
+      {selected && (
+        <div className="mt-4 bg-gray-900 rounded-lg p-3 font-mono text-sm">
+          <p className="text-green-400">
+            [{new Date(selected.timestamp).toLocaleTimeString()}] {selected.effect}:{' '}
+            {eventStyles[selected.type].label.toLowerCase()} ({reasonLabels[selected.reason]})
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {selected.dependencies.map((dep) => (
+              <span
+                key={dep.name}
+                className={`px-2 py-1 rounded border ${
+                  selected.type !== 'cleanup' && dep.hasChanged
+                    ? 'border-green-500 text-green-300'
+                    : 'border-gray-700 text-gray-400'
+                }`}
+              >
+                {dep.name}:{' '}
+                {selected.type !== 'cleanup' && dep.previousValue !== undefined
+                  ? `${dep.previousValue} → ${dep.value}`
+                  : dep.value}
+              </span>
+            ))}
+          </div>
+          {selected.type === 'cleanup' && (
+            <p className="mt-2 text-xs text-gray-400">
+              Cleanup sees the dependency values captured by its own setup.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
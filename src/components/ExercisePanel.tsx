@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CodeEditor } from './CodeEditor';
+import { Preview } from './Preview';
+import { SnippetPreview } from './SnippetPreview';
+import { useProgress } from '../context/ProgressContext';
+import { hookRegistry } from '../data/hookRegistry';
+import { compileSnippet } from '../sandbox/compileSnippet';
+import { runExercise } from '../sandbox/exerciseRunner';
+import { clearDraft, loadDraft, saveDraft } from '../utils/draftStorage';
+import type { Exercise, ExercisePanelProps, ExerciseRunResult, HookId, SnippetResult } from '../types';
+
+interface ExerciseWorkspaceProps {
+  hookId: HookId;
+  exercise: Exercise;
+}
+
+function getDraftKey(hookId: HookId, exercise: Exercise): string {
+  return `${hookId}-exercise-${exercise.id}`;
+}
+
+function CheckResults({ result }: { result: ExerciseRunResult }): JSX.Element {
+  if (result.status === 'error') {
+    return (
+      <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+        <p className="text-sm font-semibold text-red-700 dark:text-red-300 mb-1">
+          {result.phase === 'compile' ? 'Compile error' : 'Runtime error'}
+        </p>
+        <pre className="text-xs text-red-700 dark:text-red-300 whitespace-pre-wrap font-mono">{result.message}</pre>
+      </div>
+    );
+  }
+
+  const passedCount = result.results.filter((test) => test.status === 'passed').length;
+  const allPassed = passedCount === result.results.length;
+
+  return (
+    <div className="space-y-3">
+      <p
+        className={`text-sm font-semibold ${
+          allPassed ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-700 dark:text-dark-text'
+        }`}
+      >
+        {allPassed ? '🎉 All tests pass - exercise complete!' : `${passedCount} of ${result.results.length} tests pass`}
+      </p>
+      <ul className="space-y-2">
+        {result.results.map((test) => (
+          <li key={test.name} className="flex items-start gap-3 text-sm">
+            <span
+              className={`w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0 mt-0.5 ${
+                test.status === 'passed'
+                  ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600'
+                  : 'bg-red-100 dark:bg-red-900/30 text-red-600'
+              }`}
+            >
+              {test.status === 'passed' ? '✓' : '✗'}
+            </span>
+            <div className="min-w-0">
+              <p className="text-slate-700 dark:text-dark-text">{test.name}</p>
+              {test.status === 'failed' && (
+                <p className="text-xs text-red-600 dark:text-red-400 break-words">{test.message}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Editor, hidden-test results and output for one exercise. Keyed by
+ * exercise, so switching exercises starts from that exercise's draft.
+ */
+function ExerciseWorkspace({ hookId, exercise }: ExerciseWorkspaceProps): JSX.Element {
+  const draftKey = getDraftKey(hookId, exercise);
+  const [code, setCode] = useState(() => loadDraft(draftKey) ?? exercise.starterCode);
+  const [checkResult, setCheckResult] = useState<ExerciseRunResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [snippetResult, setSnippetResult] = useState<SnippetResult | null>(null);
+  const [runId, setRunId] = useState(0);
+  const { completeExercise } = useProgress();
+  const { path } = hookRegistry[hookId].info;
+
+  const handleCodeChange = (value: string): void => {
+    setCode(value);
+    if (value === exercise.starterCode) {
+      clearDraft(draftKey);
+    } else {
+      saveDraft(draftKey, value);
+    }
+  };
+
+  const resetToStarter = (): void => {
+    setCode(exercise.starterCode);
+    clearDraft(draftKey);
+    setCheckResult(null);
+  };
+
+  const check = async (): Promise<void> => {
+    setIsChecking(true);
+    // Unmount the output while tests run, so it can't react to their events
+    setSnippetResult(null);
+    const result = await runExercise(code, exercise.tests);
+    setCheckResult(result);
+    setIsChecking(false);
+    setSnippetResult(compileSnippet(code));
+    setRunId((prev) => prev + 1);
+
+    if (result.status === 'done' && result.results.every((test) => test.status === 'passed')) {
+      completeExercise(hookId, exercise.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-sm text-blue-800 dark:text-blue-300">
+        <p className="leading-relaxed">{exercise.instructions}</p>
+        <Link
+          to={`${path}#mistake-${exercise.mistake}`}
+          className="inline-block mt-2 text-xs font-semibold underline underline-offset-2"
+        >
+          Common mistake #{exercise.mistake}
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-sm text-slate-500 dark:text-dark-muted">
+          Fix the code, then check it against {exercise.tests.length} hidden tests.
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={resetToStarter}
+            disabled={code === exercise.starterCode}
+            className="btn-ghost text-sm disabled:opacity-40 disabled:pointer-events-none"
+          >
+            Reset starter code
+          </button>
+          <button
+            type="button"
+            onClick={check}
+            disabled={isChecking}
+            className="btn-primary text-sm disabled:opacity-60"
+          >
+            {isChecking ? 'Checking...' : '▶ Check'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <CodeEditor
+          value={code}
+          onChange={handleCodeChange}
+          language="typescript"
+          height="460px"
+          path={`file:///${hookId}-${exercise.id}.tsx`}
+        />
+        <div className="space-y-6">
+          <div>
+            <h3 className="mb-4 text-xs font-bold text-slate-400 dark:text-dark-muted uppercase tracking-widest">Tests</h3>
+            {checkResult ? (
+              <CheckResults result={checkResult} />
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-dark-muted">
+                {isChecking ? 'Running tests...' : 'Press Check to run the tests.'}
+              </p>
+            )}
+          </div>
+          <Preview title="Output">
+            <SnippetPreview result={snippetResult} runId={runId} />
+          </Preview>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Loads a hook's exercises. A failed load is rethrown while rendering, so the
+ * surrounding error boundary can offer a retry.
+ */
+function useExercises(hookId: HookId): Exercise[] | null {
+  const [loaded, setLoaded] = useState<{ hookId: HookId; exercises: Exercise[] } | null>(null);
+  const [loadError, setLoadError] = useState<unknown>(null);
+
+  useEffect(() => {
+    let ignore = false;
+    hookRegistry[hookId].loadExercises().then(
+      (exercises) => {
+        if (!ignore) setLoaded({ hookId, exercises });
+      },
+      (error: unknown) => {
+        if (!ignore) setLoadError(error);
+      }
+    );
+    return () => {
+      ignore = true;
+    };
+  }, [hookId]);
+
+  if (loadError) throw loadError;
+  return loaded?.hookId === hookId ? loaded.exercises : null;
+}
+
+/**
+ * Exercises built from a hook's common mistakes: broken starter code in
+ * the editor and hidden tests that check the fix in the sandbox
+ */
+export function ExercisePanel({ hookId }: ExercisePanelProps): JSX.Element {
+  const exercises = useExercises(hookId);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { getHookProgress } = useProgress();
+  const { completedExercises } = getHookProgress(hookId);
+
+  if (!exercises) {
+    return (
+      <div
+        role="status"
+        className="h-[460px] flex items-center justify-center rounded-xl border border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg text-sm text-slate-500 dark:text-dark-muted animate-pulse"
+      >
+        Loading exercises...
+      </div>
+    );
+  }
+
+  const exercise = exercises[activeIndex];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {exercises.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setActiveIndex(index)}
+            aria-pressed={index === activeIndex}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              index === activeIndex
+                ? 'bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300'
+                : 'text-slate-500 dark:text-dark-muted hover:text-slate-900 dark:hover:text-dark-text'
+            }`}
+          >
+            {completedExercises.includes(item.id) ? '✓ ' : ''}
+            {item.title}
+          </button>
+        ))}
+      </div>
+      <ExerciseWorkspace key={exercise.id} hookId={hookId} exercise={exercise} />
+    </div>
+  );
+}
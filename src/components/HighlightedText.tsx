@@ -0,0 +1,29 @@
+import type { HighlightedTextProps } from '../types';
+
+/**
+ * Text with the given ranges wrapped in <mark>
+ */
+export function HighlightedText({ text, ranges }: HighlightedTextProps): JSX.Element {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      parts.push(<span key={`text-${index}`}>{text.slice(position, range.start)}</span>);
+    }
+    parts.push(
+      <mark
+        key={`mark-${index}`}
+        className="bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300 rounded-sm"
+      >
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    position = range.end;
+  });
+  if (position < text.length) {
+    parts.push(<span key="text-end">{text.slice(position)}</span>);
+  }
+
+  return <>{parts}</>;
+}
@@ -1,22 +1,190 @@
-import { useState } from 'react';
-import { CodeEditor } from './CodeEditor';
+import { Suspense, useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ChunkErrorBoundary } from './ChunkErrorBoundary';
 import { Preview } from './Preview';
-import type { HookCardProps } from '../types';
+import { RenderTimeline } from './RenderTimeline';
+import { SnippetPreview } from './SnippetPreview';
+import { useProgress } from '../context/ProgressContext';
+import { hookRegistry } from '../data/hookRegistry';
+import { clearDraft, loadDraft, saveDraft } from '../utils/draftStorage';
+import { lazyWithRetry } from '../utils/lazyWithRetry';
+import { createCodeHash, decodeCode, encodeCode, getCodeFromHash } from '../utils/permalink';
+import { prefetchChunk } from '../utils/prefetch';
+import type { HookCardProps, SnippetResult } from '../types';
+
+// Monaco and the snippet compiler are only downloaded once the Code tab is used
+const loadCodeEditor = () => import('./CodeEditor');
+const loadCodeDiffView = () => import('./CodeDiffView');
+const CodeEditor = lazyWithRetry(() => loadCodeEditor().then((module) => ({ default: module.CodeEditor })));
+const CodeDiffView = lazyWithRetry(() => loadCodeDiffView().then((module) => ({ default: module.CodeDiffView })));
+const loadExercisePanel = () => import('./ExercisePanel');
+const ExercisePanel = lazyWithRetry(() => loadExercisePanel().then((module) => ({ default: module.ExercisePanel })));
+
+type HookCardTab = 'preview' | 'code' | 'exercises';
 
 /**
- * Card component for displaying hook information and interactive examples
+ * Placeholder with the editor's footprint while Monaco loads
  */
-export function HookCard({
-  title,
-  description,
-  whatItDoes,
-  commonMistakes,
-  performanceConsiderations,
-  children,
-  codeExample,
-}: HookCardProps): JSX.Element {
-  const [activeTab, setActiveTab] = useState<'preview' | 'code'>('preview');
-  const [code, setCode] = useState(codeExample);
+function EditorLoading({ height }: { height: string }): JSX.Element {
+  return (
+    <div
+      style={{ height }}
+      className="flex items-center justify-center rounded-xl border border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg text-sm text-slate-500 dark:text-dark-muted animate-pulse"
+    >
+      Loading editor...
+    </div>
+  );
+}
+
+/**
+ * Card component for displaying hook information and interactive examples.
+ * Text and the code example come from the hook's registry entry.
+ */
+export function HookCard({ hookId, children }: HookCardProps): JSX.Element {
+  const { title, description, whatItDoes, commonMistakes, performanceConsiderations, codeExample } =
+    hookRegistry[hookId].content;
+  const { exerciseCount, loadExercises } = hookRegistry[hookId];
+  const [activeTab, setActiveTab] = useState<HookCardTab>('preview');
+  const [code, setCode] = useState(() => loadDraft(hookId) ?? codeExample);
+  // Whether the editor shows the saved draft; shared code from a permalink isn't saved until edited
+  const [hasDraft, setHasDraft] = useState(() => loadDraft(hookId) !== null);
+  const [codeView, setCodeView] = useState<'editor' | 'diff'>('editor');
+  const [snippetResult, setSnippetResult] = useState<SnippetResult | null>(null);
+  const [runId, setRunId] = useState(0);
+
+  const [permalinkStatus, setPermalinkStatus] = useState<'none' | 'loaded' | 'invalid'>('none');
+  // Shared code runs with this page's access (drafts, progress), so Run waits until it has been reviewed
+  const [sharedCodeAllowed, setSharedCodeAllowed] = useState(false);
+  const needsReview = permalinkStatus === 'loaded' && !sharedCodeAllowed;
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { getHookProgress, markVisited, markCodeOpened, setUnderstood } = useProgress();
+  const { understood } = getHookProgress(hookId);
+
+  useEffect(() => {
+    markVisited(hookId);
+  }, [hookId, markVisited]);
+
+  useEffect(() => {
+    if (activeTab === 'code') markCodeOpened(hookId);
+  }, [activeTab, hookId, markCodeOpened]);
+
+  // Open shared code from a "#code=..." permalink
+  useEffect(() => {
+    const encoded = getCodeFromHash(location.hash);
+    if (encoded === null) return;
+
+    let cancelled = false;
+    decodeCode(encoded)
+      .then((sharedCode) => {
+        if (cancelled) return;
+        setCode(sharedCode);
+        setHasDraft(false);
+        setActiveTab('code');
+        setPermalinkStatus('loaded');
+        setSharedCodeAllowed(false);
+      })
+      .catch(() => {
+        if (!cancelled) setPermalinkStatus('invalid');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [location.hash]);
+
+  // "?tab=code" or "?tab=exercises" (e.g. from the command palette) opens that tab
+  useEffect(() => {
+    const tab = new URLSearchParams(location.search).get('tab');
+    if (tab === 'code' || tab === 'exercises') {
+      setActiveTab(tab);
+    }
+  }, [location]);
+
+  // "#what-it-does", "#mistake-2" or "#consideration-1" scroll to that section
+  useEffect(() => {
+    const targetId = location.hash.slice(1);
+    if (!/^(what-it-does|(mistake|consideration)-\d+)$/.test(targetId)) return;
+    document.getElementById(targetId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [location]);
+
+  // Reset the "Link copied" feedback after a moment
+  useEffect(() => {
+    if (shareStatus === 'idle') return;
+    const timeout = setTimeout(() => setShareStatus('idle'), 2000);
+    return () => clearTimeout(timeout);
+  }, [shareStatus]);
+
+  // Only persist edits made in the editor, so opening a permalink never overwrites a draft
+  const handleCodeChange = (value: string): void => {
+    setCode(value);
+    if (value === codeExample) {
+      clearDraft(hookId);
+    } else {
+      saveDraft(hookId, value);
+    }
+    setHasDraft(value !== codeExample);
+  };
+
+  const dismissPermalink = (): void => {
+    setPermalinkStatus('none');
+    navigate(location.pathname, { replace: true });
+  };
+
+  // Also drops a shared link, so reloading doesn't bring the shared code back
+  const resetToExample = (): void => {
+    setCode(codeExample);
+    clearDraft(hookId);
+    setHasDraft(false);
+    setCodeView('editor');
+    if (permalinkStatus !== 'none') {
+      dismissPermalink();
+    }
+  };
+
+  const runCode = async (): Promise<void> => {
+    try {
+      const { compileSnippet } = await import('../sandbox/compileSnippet');
+      setSnippetResult(compileSnippet(code));
+    } catch (error) {
+      // The compiler chunk failed to download (offline, or replaced by a newer deploy)
+      setSnippetResult({
+        status: 'error',
+        phase: 'runtime',
+        message: `Could not load the snippet compiler: ${error instanceof Error ? error.message : String(error)}. Check your connection and press Run again.`,
+      });
+    }
+    setRunId((prev) => prev + 1);
+  };
+
+  const shareCode = async (): Promise<void> => {
+    try {
+      const hash = createCodeHash(await encodeCode(code));
+      await navigator.clipboard.writeText(`${window.location.origin}${location.pathname}${hash}`);
+      setShareStatus('copied');
+    } catch {
+      setShareStatus('failed');
+    }
+  };
+
+  const revertToExample = (): void => {
+    setCode(codeExample);
+    dismissPermalink();
+  };
+
+  const tabs: { id: HookCardTab; label: string; prefetch?: () => void }[] = [
+    { id: 'preview', label: 'Preview' },
+    { id: 'code', label: 'Code', prefetch: () => prefetchChunk(loadCodeEditor) },
+    {
+      id: 'exercises',
+      label: `Exercises (${exerciseCount})`,
+      prefetch: () => {
+        prefetchChunk(loadExercisePanel);
+        prefetchChunk(loadExercises);
+      },
+    },
+  ];
 
   return (
     <div className="space-y-8 animate-fade-in">
@@ -29,11 +197,19 @@ export function HookCard({
             </h1>
             <p className="text-lg text-slate-600 dark:text-dark-muted leading-relaxed">{description}</p>
           </div>
+          <button
+            type="button"
+            onClick={() => setUnderstood(hookId, !understood)}
+            aria-pressed={understood}
+            className={`flex-shrink-0 text-sm ${understood ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            {understood ? '✓ Understood' : 'Mark as understood'}
+          </button>
         </div>
       </div>
 
       {/* What it does */}
-      <div className="card-hover p-8">
+      <div id="what-it-does" className="card-hover p-8">
         <h2 className="text-xl font-bold text-slate-900 dark:text-dark-text mb-4 flex items-center gap-3">
           <span className="w-10 h-10 rounded-xl bg-violet-100 dark:bg-violet-900/30 flex items-center justify-center text-xl">📖</span>
           What it does
@@ -47,53 +223,157 @@ export function HookCard({
       <div className="bg-white dark:bg-dark-card rounded-2xl shadow-sm border border-slate-200 dark:border-dark-border overflow-hidden">
         {/* Tabs */}
         <div className="flex border-b border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg/50">
-          <button
-            type="button"
-            onClick={() => setActiveTab('preview')}
-            className={`
-              px-8 py-4 text-sm font-semibold transition-all relative
-              ${
-                activeTab === 'preview'
-                  ? 'text-violet-600 dark:text-violet-400'
-                  : 'text-slate-500 dark:text-dark-muted hover:text-slate-900 dark:hover:text-dark-text'
-              }
-            `}
-          >
-            Preview
-            {activeTab === 'preview' && (
-              <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-gradient-to-r from-violet-500 to-fuchsia-500" />
-            )}
-          </button>
-          <button
-            type="button"
-            onClick={() => setActiveTab('code')}
-            className={`
-              px-8 py-4 text-sm font-semibold transition-all relative
-              ${
-                activeTab === 'code'
-                  ? 'text-violet-600 dark:text-violet-400'
-                  : 'text-slate-500 dark:text-dark-muted hover:text-slate-900 dark:hover:text-dark-text'
-              }
-            `}
-          >
-            Code
-            {activeTab === 'code' && (
-              <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-gradient-to-r from-violet-500 to-fuchsia-500" />
-            )}
-          </button>
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              onClick={() => setActiveTab(tab.id)}
+              onMouseEnter={tab.prefetch}
+              onFocus={tab.prefetch}
+              className={`
+                px-8 py-4 text-sm font-semibold transition-all relative
+                ${
+                  activeTab === tab.id
+                    ? 'text-violet-600 dark:text-violet-400'
+                    : 'text-slate-500 dark:text-dark-muted hover:text-slate-900 dark:hover:text-dark-text'
+                }
+              `}
+            >
+              {tab.label}
+              {activeTab === tab.id && (
+                <span className="absolute bottom-0 left-0 right-0 h-0.5 bg-gradient-to-r from-violet-500 to-fuchsia-500" />
+              )}
+            </button>
+          ))}
         </div>
 
+        {/* Permalink banner */}
+        {permalinkStatus !== 'none' && (
+          <div
+            className={`flex flex-wrap items-center justify-between gap-3 px-8 py-3 text-sm border-b ${
+              permalinkStatus === 'invalid'
+                ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+                : needsReview
+                  ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300'
+                  : 'bg-violet-50 dark:bg-violet-900/20 border-violet-200 dark:border-violet-800 text-violet-800 dark:text-violet-300'
+            }`}
+          >
+            <span>
+              {permalinkStatus === 'invalid'
+                ? '⚠️ This link does not contain valid code. Showing the original example.'
+                : needsReview
+                  ? '⚠️ This code comes from the link you opened, not from Hook Studio. Running it gives it the same access as this page, including your drafts and progress. Read it before allowing it to run.'
+                  : '🔗 You are viewing code shared via a link.'}
+            </span>
+            <div className="flex gap-2">
+              {needsReview && (
+                <button type="button" onClick={() => setSharedCodeAllowed(true)} className="btn-secondary text-xs py-1.5">
+                  Allow Run
+                </button>
+              )}
+              {permalinkStatus === 'loaded' && (
+                <button type="button" onClick={revertToExample} className="btn-secondary text-xs py-1.5">
+                  Revert to original example
+                </button>
+              )}
+              {!needsReview && (
+                <button type="button" onClick={dismissPermalink} className="btn-ghost text-xs py-1.5">
+                  Dismiss
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Content */}
         <div className="p-8">
           {activeTab === 'preview' ? (
-            <Preview title="Live Example">{children}</Preview>
+            <div className="space-y-8">
+              <Preview title="Live Example" profilerId={hookId}>{children}</Preview>
+              <RenderTimeline component={hookId} />
+            </div>
+          ) : activeTab === 'exercises' ? (
+            <ChunkErrorBoundary>
+              <Suspense fallback={<EditorLoading height="460px" />}>
+                <ExercisePanel hookId={hookId} />
+              </Suspense>
+            </ChunkErrorBoundary>
           ) : (
-            <CodeEditor
-              value={code}
-              onChange={setCode}
-              language="typescript"
-              height="400px"
-            />
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <div className="inline-flex rounded-xl bg-slate-100 dark:bg-dark-bg p-1">
+                    {(['editor', 'diff'] as const).map((view) => (
+                      <button
+                        key={view}
+                        type="button"
+                        onClick={() => setCodeView(view)}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+                          codeView === view
+                            ? 'bg-white dark:bg-dark-card text-violet-600 dark:text-violet-400 shadow-sm'
+                            : 'text-slate-500 dark:text-dark-muted hover:text-slate-900 dark:hover:text-dark-text'
+                        }`}
+                      >
+                        {view === 'editor' ? 'Editor' : 'Diff vs example'}
+                      </button>
+                    ))}
+                  </div>
+                  {hasDraft ? (
+                    <span className="badge-warning">Draft saved</span>
+                  ) : (
+                    <span className="text-sm text-slate-500 dark:text-dark-muted">
+                      Edit the example and run it to see the result live.
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={resetToExample}
+                    disabled={!hasDraft && code === codeExample}
+                    className="btn-ghost text-sm disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                    Reset to example
+                  </button>
+                  <button type="button" onClick={shareCode} className="btn-secondary text-sm">
+                    {shareStatus === 'copied' ? '✓ Link copied' : shareStatus === 'failed' ? 'Copy failed' : '🔗 Share'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={runCode}
+                    disabled={needsReview}
+                    title={needsReview ? 'Review the shared code and allow it to run first' : undefined}
+                    className="btn-primary text-sm disabled:opacity-60"
+                  >
+                    ▶ Run
+                  </button>
+                </div>
+              </div>
+              {codeView === 'diff' ? (
+                <ChunkErrorBoundary>
+                  <Suspense fallback={<EditorLoading height="400px" />}>
+                    <CodeDiffView original={codeExample} modified={code} height="400px" />
+                  </Suspense>
+                </ChunkErrorBoundary>
+              ) : (
+                <div className="grid lg:grid-cols-2 gap-6">
+                  <ChunkErrorBoundary>
+                    <Suspense fallback={<EditorLoading height="400px" />}>
+                      <CodeEditor
+                        value={code}
+                        onChange={handleCodeChange}
+                        language="typescript"
+                        height="400px"
+                        path={`file:///${hookId}.tsx`}
+                      />
+                    </Suspense>
+                  </ChunkErrorBoundary>
+                  <Preview title="Output">
+                    <SnippetPreview result={snippetResult} runId={runId} />
+                  </Preview>
+                </div>
+              )}
+            </div>
           )}
         </div>
       </div>
@@ -104,11 +384,14 @@ export function HookCard({
           <span className="w-10 h-10 rounded-xl bg-rose-100 dark:bg-rose-900/30 flex items-center justify-center text-xl">⚠️</span>
           Common Mistakes
         </h2>
-        <ul className="space-y-3">
+        <ul className="space-y-1">
           {commonMistakes.map((mistake, index) => (
             <li
               key={index}
-              className="flex items-start gap-3 text-slate-600 dark:text-dark-muted"
+              id={`mistake-${index + 1}`}
+              className={`flex items-start gap-3 -mx-2 px-2 py-1 rounded-lg text-slate-600 dark:text-dark-muted transition-colors ${
+                location.hash === `#mistake-${index + 1}` ? 'bg-rose-50 dark:bg-rose-900/20' : ''
+              }`}
             >
               <span className="w-6 h-6 rounded-full bg-rose-100 dark:bg-rose-900/30 flex items-center justify-center text-rose-500 text-xs font-bold flex-shrink-0 mt-0.5">{index + 1}</span>
               <span className="leading-relaxed">{mistake}</span>
@@ -123,11 +406,14 @@ export function HookCard({
           <span className="w-10 h-10 rounded-xl bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center text-xl">⚡</span>
           Performance Considerations
         </h2>
-        <ul className="space-y-3">
+        <ul className="space-y-1">
           {performanceConsiderations.map((consideration, index) => (
             <li
               key={index}
-              className="flex items-start gap-3 text-slate-600 dark:text-dark-muted"
+              id={`consideration-${index + 1}`}
+              className={`flex items-start gap-3 -mx-2 px-2 py-1 rounded-lg text-slate-600 dark:text-dark-muted transition-colors ${
+                location.hash === `#consideration-${index + 1}` ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+              }`}
             >
               <span className="w-6 h-6 rounded-full bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center text-emerald-500 text-xs font-bold flex-shrink-0 mt-0.5">✓</span>
               <span className="leading-relaxed">{consideration}</span>
@@ -1,7 +1,10 @@
 import { useState } from 'react';
 import { Outlet } from 'react-router-dom';
+import { CommandPalette } from './CommandPalette';
+import { MutationToasts } from './MutationToasts';
 import { Sidebar } from './Sidebar';
 import { useTheme } from '../context/ThemeContext';
+import { useEventListener } from '../customHooks/useEventListener';
 import type { LayoutProps } from '../types';
 
 /**
@@ -9,8 +12,23 @@ import type { LayoutProps } from '../types';
  */
 export function Layout({ children }: LayoutProps): JSX.Element {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
 
+  // Capture phase, so Ctrl+K reaches us before Monaco treats it as a chord
+  useEventListener(
+    'keydown',
+    (event) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        event.stopPropagation();
+        setPaletteOpen((prev) => !prev);
+      }
+    },
+    window,
+    { capture: true }
+  );
+
   const toggleSidebar = (): void => {
     setSidebarOpen((prev) => !prev);
   };
@@ -78,7 +96,14 @@ export function Layout({ children }: LayoutProps): JSX.Element {
       )}
 
       {/* Sidebar */}
-      <Sidebar isOpen={sidebarOpen} onClose={closeSidebar} />
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={closeSidebar}
+        onOpenCommandPalette={() => {
+          closeSidebar();
+          setPaletteOpen(true);
+        }}
+      />
 
       {/* Main content */}
       <main className="lg:ml-72 pt-16 lg:pt-0 min-h-screen">
@@ -86,6 +111,10 @@ export function Layout({ children }: LayoutProps): JSX.Element {
           {children ?? <Outlet />}
         </div>
       </main>
+
+      <MutationToasts />
+
+      {paletteOpen && <CommandPalette onClose={() => setPaletteOpen(false)} />}
     </div>
   );
 }
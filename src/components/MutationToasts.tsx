@@ -0,0 +1,69 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  dismissMutation,
+  getMutations,
+  subscribeToMutations,
+} from '../instrumentation/immutabilityGuard';
+import type { StateMutation } from '../types';
+
+// Toasts close themselves after this long
+const TOAST_DURATION_MS = 8000;
+// Older mutations stay in the store but only the newest are shown
+const MAX_VISIBLE_TOASTS = 3;
+
+function MutationToast({ mutation }: { mutation: StateMutation }): JSX.Element {
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => dismissMutation(mutation.id), TOAST_DURATION_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [mutation.id]);
+
+  return (
+    <div
+      role="alert"
+      className="w-80 p-4 rounded-xl bg-white dark:bg-dark-card border border-red-200 dark:border-red-800 shadow-xl"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-semibold text-red-700 dark:text-red-400">
+          ⚠️ State mutated in {mutation.source}
+        </p>
+        <button
+          type="button"
+          onClick={() => dismissMutation(mutation.id)}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-dark-text"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="mt-2 px-2 py-1 rounded bg-gray-900 font-mono text-xs text-amber-300 break-all">
+        {mutation.operation === 'delete'
+          ? `delete ${mutation.path}`
+          : `${mutation.path} = ${mutation.value}`}
+      </p>
+      <p className="mt-2 text-xs text-gray-600 dark:text-dark-muted">
+        Return a new object instead of changing the one React gave you, or React may skip the
+        re-render.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Toasts for state mutations reported by the immutability guard
+ */
+export function MutationToasts(): JSX.Element | null {
+  const mutations = useSyncExternalStore(subscribeToMutations, getMutations);
+  const visible = mutations.slice(-MAX_VISIBLE_TOASTS);
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-3" aria-live="polite">
+      {visible.map((mutation) => (
+        <MutationToast key={mutation.id} mutation={mutation} />
+      ))}
+    </div>
+  );
+}
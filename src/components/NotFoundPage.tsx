@@ -0,0 +1,89 @@
+import { Link, useLocation } from 'react-router-dom';
+import { hooksList } from '../data/hooksList';
+import type { HookInfo } from '../types';
+
+// Suggestions further than this many edits from the requested path are dropped
+const MAX_SUGGESTION_DISTANCE = 4;
+const MAX_SUGGESTIONS = 3;
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Number of single-character edits between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Hooks whose name is close to the last segment of the requested path
+ */
+function suggestHooks(pathname: string): HookInfo[] {
+  const segment = normalize(pathname.split('/').filter(Boolean).pop() ?? '');
+  if (!segment) return [];
+
+  return hooksList
+    .map((hook) => {
+      const name = normalize(hook.name);
+      const distance = name.includes(segment) || segment.includes(name) ? 0 : editDistance(segment, name);
+      return { hook, distance };
+    })
+    .filter(({ distance }) => distance <= MAX_SUGGESTION_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ hook }) => hook);
+}
+
+/**
+ * Page for unknown routes, with links to the closest hook pages
+ */
+export function NotFoundPage(): JSX.Element {
+  const { pathname } = useLocation();
+  const suggestions = suggestHooks(pathname);
+
+  return (
+    <div className="max-w-2xl mx-auto pt-16 text-center animate-fade-in">
+      <p className="text-6xl mb-6">🧭</p>
+      <h1 className="text-3xl font-bold text-slate-900 dark:text-dark-text mb-3">Page not found</h1>
+      <p className="text-slate-600 dark:text-dark-muted mb-8">
+        There is no page at <code className="font-mono text-violet-600 dark:text-violet-400">{pathname}</code>.
+      </p>
+
+      {suggestions.length > 0 && (
+        <div className="mb-8">
+          <p className="text-sm font-medium text-slate-500 dark:text-dark-muted mb-3">Did you mean</p>
+          <div className="flex flex-wrap justify-center gap-3">
+            {suggestions.map((hook) => (
+              <Link
+                key={hook.id}
+                to={hook.path}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border text-slate-700 dark:text-dark-text hover:border-violet-400 transition-colors"
+              >
+                <span>{hook.icon}</span>
+                <span className="font-medium">{hook.name}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Link
+        to="/"
+        className="inline-block px-5 py-2.5 rounded-xl bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white font-medium shadow-lg shadow-violet-500/25 hover:opacity-90 transition-opacity"
+      >
+        Back to home
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+/**
+ * Skeleton in the shape of a hook page, shown while a playground's code is loading
+ */
+export function PlaygroundLoading(): JSX.Element {
+  return (
+    <div className="space-y-8 animate-pulse" role="status" aria-label="Loading playground">
+      <div className="card-hover p-8 space-y-4">
+        <div className="h-8 w-48 rounded-lg bg-slate-200 dark:bg-dark-border" />
+        <div className="h-4 w-3/4 rounded bg-slate-200 dark:bg-dark-border" />
+      </div>
+      <div className="card-hover p-8 space-y-3">
+        <div className="h-6 w-40 rounded-lg bg-slate-200 dark:bg-dark-border" />
+        <div className="h-4 rounded bg-slate-200 dark:bg-dark-border" />
+        <div className="h-4 w-5/6 rounded bg-slate-200 dark:bg-dark-border" />
+      </div>
+      <div className="bg-white dark:bg-dark-card rounded-2xl border border-slate-200 dark:border-dark-border overflow-hidden">
+        <div className="h-14 border-b border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg/50" />
+        <div className="p-8">
+          <div className="h-64 rounded-xl bg-slate-100 dark:bg-dark-bg" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,36 @@
+import { Profiler, StrictMode } from 'react';
+import { useStrictMode } from '../context/StrictModeContext';
+import { recordCommit } from '../instrumentation/profilerStore';
 import type { PreviewProps } from '../types';
 
 /**
- * Preview container for displaying interactive hook examples
+ * Preview container for displaying interactive hook examples.
+ * Wraps its children in <StrictMode> when the Strict Mode toggle is on,
+ * and in a <Profiler> feeding the render timeline when given a profilerId.
  */
-export function Preview({ children, title }: PreviewProps): JSX.Element {
+export function Preview({ children, title, profilerId }: PreviewProps): JSX.Element {
+  const { isStrictMode } = useStrictMode();
+
+  const content = profilerId ? (
+    <Profiler id={profilerId} onRender={recordCommit}>
+      {children}
+    </Profiler>
+  ) : (
+    children
+  );
+
   return (
     <div className="space-y-4">
       {title && (
-        <h3 className="text-xs font-bold text-slate-400 dark:text-dark-muted uppercase tracking-widest">
-          {title}
-        </h3>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold text-slate-400 dark:text-dark-muted uppercase tracking-widest">
+            {title}
+          </h3>
+          {isStrictMode && <span className="badge-primary">Strict Mode</span>}
+        </div>
       )}
       <div className="bg-slate-50 dark:bg-dark-bg rounded-xl p-6 border border-slate-200 dark:border-dark-border">
-        {children}
+        {isStrictMode ? <StrictMode>{content}</StrictMode> : content}
       </div>
     </div>
   );
@@ -0,0 +1,51 @@
+import type { EditorProblem, ProblemsPanelProps } from '../types';
+
+const severityStyles: Record<EditorProblem['severity'], { icon: string; className: string }> = {
+  error: { icon: '⛔', className: 'text-red-600 dark:text-red-400' },
+  warning: { icon: '⚠️', className: 'text-amber-600 dark:text-amber-400' },
+  info: { icon: 'ℹ️', className: 'text-blue-600 dark:text-blue-400' },
+};
+
+/**
+ * List of TypeScript errors and warnings shown under the code editor
+ */
+export function ProblemsPanel({ problems, onSelect }: ProblemsPanelProps): JSX.Element {
+  const errorCount = problems.filter((p) => p.severity === 'error').length;
+  const warningCount = problems.filter((p) => p.severity === 'warning').length;
+
+  return (
+    <div className="border-t border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg">
+      <div className="flex items-center gap-4 px-4 py-2 text-xs font-semibold text-slate-500 dark:text-dark-muted uppercase tracking-widest">
+        <span>Problems</span>
+        <span className="text-red-600 dark:text-red-400">{errorCount} errors</span>
+        <span className="text-amber-600 dark:text-amber-400">{warningCount} warnings</span>
+      </div>
+      {problems.length > 0 ? (
+        <ul className="max-h-40 overflow-y-auto pb-2">
+          {problems.map((problem, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => onSelect?.(problem)}
+                className="w-full flex items-start gap-2 px-4 py-1.5 text-left text-sm hover:bg-slate-100 dark:hover:bg-dark-border transition-colors"
+              >
+                <span className="flex-shrink-0">{severityStyles[problem.severity].icon}</span>
+                <span className={`flex-1 ${severityStyles[problem.severity].className}`}>
+                  {problem.message}
+                  {problem.code && (
+                    <span className="ml-1 text-slate-400 dark:text-dark-muted">ts({problem.code})</span>
+                  )}
+                </span>
+                <span className="flex-shrink-0 font-mono text-xs text-slate-400 dark:text-dark-muted">
+                  {problem.line}:{problem.column}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="px-4 pb-3 text-sm text-slate-500 dark:text-dark-muted">No problems detected.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { Link } from 'react-router-dom';
+import { ProgressRing } from './ProgressRing';
+import { useProgress } from '../context/ProgressContext';
+import { hookRegistry } from '../data/hookRegistry';
+import { categoryLabels, hooksList } from '../data/hooksList';
+import { downloadFile } from '../utils/downloadFile';
+import { emptyHookProgress, getHookCompletion, getHookStatus, getSuggestedHooks } from '../utils/progress';
+import type { HookCategory, HookStatus, ProgressState } from '../types';
+
+const MAX_SUGGESTIONS = 3;
+
+const statusStyles: Record<HookStatus, { label: string; className: string }> = {
+  'not-started': {
+    label: 'Not started',
+    className: 'bg-slate-100 dark:bg-dark-border text-slate-500 dark:text-dark-muted',
+  },
+  'in-progress': {
+    label: 'In progress',
+    className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  },
+  understood: {
+    label: 'Understood',
+    className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300',
+  },
+};
+
+/**
+ * Per-hook summary for sharing, e.g. with whoever runs onboarding
+ */
+function serializeProgress(progress: ProgressState): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      hooks: hooksList.map((hook) => {
+        const hookProgress = progress[hook.id] ?? emptyHookProgress;
+        return {
+          id: hook.id,
+          status: getHookStatus(hookProgress),
+          completion: Math.round(getHookCompletion(hookProgress, hookRegistry[hook.id].exerciseCount) * 100),
+          ...hookProgress,
+        };
+      }),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Home page overview of learning progress with suggestions for what to open next
+ */
+export function ProgressDashboard(): JSX.Element {
+  const { progress, getHookProgress, resetProgress } = useProgress();
+
+  const suggestions = getSuggestedHooks(hooksList, progress, MAX_SUGGESTIONS);
+  const understoodCount = hooksList.filter((hook) => getHookProgress(hook.id).understood).length;
+  const visitedCount = hooksList.filter((hook) => getHookProgress(hook.id).visited).length;
+  const overall =
+    hooksList.reduce(
+      (sum, hook) => sum + getHookCompletion(getHookProgress(hook.id), hookRegistry[hook.id].exerciseCount),
+      0
+    ) / hooksList.length;
+
+  const categories = Array.from(new Set(hooksList.map((hook) => hook.category))) as HookCategory[];
+
+  const confirmReset = (): void => {
+    if (window.confirm('Reset progress for every hook? This cannot be undone.')) {
+      resetProgress();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="card-hover p-8 flex flex-wrap items-center gap-6">
+        <div className="relative">
+          <ProgressRing value={overall} size={72} className="text-violet-500" />
+          <span className="absolute inset-0 flex items-center justify-center text-sm font-bold text-slate-900 dark:text-dark-text">
+            {Math.round(overall * 100)}%
+          </span>
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-dark-text mb-1">Your progress</h2>
+          <p className="text-slate-600 dark:text-dark-muted">
+            {understoodCount} of {hooksList.length} hooks understood, {visitedCount} visited
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => downloadFile('hook-studio-progress.json', serializeProgress(progress))}
+            className="btn-secondary text-sm"
+          >
+            Export
+          </button>
+          <button type="button" onClick={confirmReset} className="btn-ghost text-sm">
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {/* Suggested next */}
+      {suggestions.length > 0 && (
+        <div>
+          <h2 className="text-lg font-bold text-slate-900 dark:text-dark-text mb-3">Suggested next</h2>
+          <div className="grid md:grid-cols-3 gap-4">
+            {suggestions.map((hook) => {
+              const status = getHookStatus(getHookProgress(hook.id));
+              return (
+                <Link key={hook.id} to={hook.path} className="card-hover p-5 block group">
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className="text-xl">{hook.icon}</span>
+                    <span className="font-semibold text-slate-900 dark:text-dark-text group-hover:text-violet-600 dark:group-hover:text-violet-400 transition-colors">
+                      {hook.name}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-600 dark:text-dark-muted mb-3">{hook.description}</p>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[status].className}`}>
+                    {status === 'in-progress' ? 'Continue' : 'Start'}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Every hook */}
+      <div className="card-hover p-8 space-y-6">
+        {categories.map((category) => (
+          <div key={category}>
+            <h3 className="mb-2 text-[11px] font-bold text-slate-400 dark:text-dark-muted uppercase tracking-widest">
+              {categoryLabels[category]}
+            </h3>
+            <ul className="divide-y divide-slate-100 dark:divide-dark-border">
+              {hooksList
+                .filter((hook) => hook.category === category)
+                .map((hook) => {
+                  const hookProgress = getHookProgress(hook.id);
+                  const status = getHookStatus(hookProgress);
+                  const exerciseCount = hookRegistry[hook.id].exerciseCount;
+                  return (
+                    <li key={hook.id}>
+                      <Link to={hook.path} className="flex items-center gap-3 py-2.5 group">
+                        <ProgressRing value={getHookCompletion(hookProgress, exerciseCount)} className="text-violet-500" />
+                        <span className="flex-1 font-medium text-sm text-slate-700 dark:text-dark-text group-hover:text-violet-600 dark:group-hover:text-violet-400 transition-colors">
+                          {hook.name}
+                        </span>
+                        <span className="hidden sm:flex gap-3 text-xs text-slate-400 dark:text-dark-muted">
+                          <span className={hookProgress.codeOpened ? 'text-violet-500' : ''}>Code tab</span>
+                          <span className={hookProgress.completedExercises.length > 0 ? 'text-violet-500' : ''}>
+                            {hookProgress.completedExercises.length}/{exerciseCount} exercises
+                          </span>
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[status].className}`}>
+                          {statusStyles[status].label}
+                        </span>
+                      </Link>
+                    </li>
+                  );
+                })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
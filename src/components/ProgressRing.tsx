@@ -0,0 +1,37 @@
+import type { ProgressRingProps } from '../types';
+
+const STROKE_WIDTH = 3;
+
+/**
+ * Circular progress indicator drawn in the current text color
+ */
+export function ProgressRing({ value, size = 20, className = '' }: ProgressRingProps): JSX.Element {
+  const radius = (size - STROKE_WIDTH) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.min(Math.max(value, 0), 1);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      role="img"
+      aria-label={`${Math.round(clamped * 100)}% complete`}
+      className={`flex-shrink-0 -rotate-90 ${className}`}
+    >
+      <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="currentColor" strokeOpacity={0.2} strokeWidth={STROKE_WIDTH} />
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={STROKE_WIDTH}
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - clamped)}
+        className="transition-[stroke-dashoffset] duration-500"
+      />
+    </svg>
+  );
+}
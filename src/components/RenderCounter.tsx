@@ -1,20 +1,94 @@
-import { useId } from 'react';
-import type { RenderCounterProps } from '../types';
+import {
+  Profiler,
+  useCallback,
+  useId,
+  useLayoutEffect,
+  useRef,
+  useSyncExternalStore,
+  type ReactNode,
+} from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import {
+  getCounterCommits,
+  recordCounterCommit,
+  subscribeToCounterCommits,
+} from '../instrumentation/profilerStore';
+import { describeRenderReason } from '../instrumentation/renderTrace';
+import type { InlineRenderCounterProps, RenderCounterProps, RenderReason } from '../types';
 
-// Module-level storage for render counts (keyed by component instance ID)
-const renderCounts = new Map<string, number>();
+function CommitMarker(): null {
+  return null;
+}
 
 /**
- * Component that displays render count - useful for debugging and learning
- * Uses module-level storage to track render count safely
+ * Profiler that commits whenever the counter (and so the component it lives
+ * in) renders. Renders React discards (StrictMode's second pass, interrupted
+ * renders) never reach onRender, so only commits are counted.
  */
-export function RenderCounter({
-  label = 'Render count',
-  showTimestamp = false,
-}: RenderCounterProps): JSX.Element {
-  const id = useId();
-  const currentCount = (renderCounts.get(id) ?? 0) + 1;
-  renderCounts.set(id, currentCount);
+function CommitProbe({ counterId }: { counterId: string }): JSX.Element {
+  return (
+    <Profiler id={counterId} onRender={recordCounterCommit}>
+      <CommitMarker />
+    </Profiler>
+  );
+}
+
+/**
+ * Committed renders recorded for a counter's Profiler.
+ * Only read inside a badge root (see useBadgeRoot), so the update after each
+ * commit neither commits the probe again nor adds a commit to the preview.
+ */
+function useCommittedRenderCount(counterId: string): number {
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeToCounterCommits(counterId, listener),
+    [counterId]
+  );
+  return useSyncExternalStore(subscribe, () => getCounterCommits(counterId));
+}
+
+/**
+ * Render the counter's badge into its own React root inside the returned host.
+ * Badge updates commit in that root, so the preview's Profiler and the render
+ * timeline only ever see the commits of the component being counted.
+ */
+function useBadgeRoot<T extends HTMLElement>(badge: ReactNode) {
+  const hostRef = useRef<T>(null);
+  const rootRef = useRef<Root | null>(null);
+
+  // Create a fresh mount node per effect run so StrictMode remounts never reuse a container
+  useLayoutEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+
+    const mountNode = document.createElement('span');
+    host.appendChild(mountNode);
+    const root = createRoot(mountNode);
+    rootRef.current = root;
+
+    return () => {
+      rootRef.current = null;
+      // Defer so we never unmount a root while the parent tree is still committing
+      setTimeout(() => {
+        root.unmount();
+        mountNode.remove();
+      });
+    };
+  }, []);
+
+  // No dependency array: pass the latest props to the badge after every commit
+  useLayoutEffect(() => {
+    rootRef.current?.render(badge);
+  });
+
+  return hostRef;
+}
+
+function RenderCountBadge({
+  counterId,
+  label,
+  showTimestamp,
+}: Required<RenderCounterProps> & { counterId: string }): JSX.Element {
+  const currentCount = useCommittedRenderCount(counterId);
   const timestamp = new Date().toLocaleTimeString();
 
   return (
@@ -36,16 +110,103 @@ export function RenderCounter({
 }
 
 /**
- * Minimal render counter for inline use
+ * Component that displays render count - useful for debugging and learning
+ * Counts committed renders recorded by its own Profiler
  */
-export function InlineRenderCounter(): JSX.Element {
-  const id = useId();
-  const currentCount = (renderCounts.get(id) ?? 0) + 1;
-  renderCounts.set(id, currentCount);
+export function RenderCounter({
+  label = 'Render count',
+  showTimestamp = false,
+}: RenderCounterProps): JSX.Element {
+  const counterId = `render-counter${useId()}`;
+  const hostRef = useBadgeRoot<HTMLDivElement>(
+    <RenderCountBadge counterId={counterId} label={label} showTimestamp={showTimestamp} />
+  );
+
+  return (
+    <>
+      <CommitProbe counterId={counterId} />
+      <div ref={hostRef} className="inline-flex" />
+    </>
+  );
+}
+
+const reasonIcons: Record<RenderReason['kind'], string> = {
+  mount: '🌱',
+  prop: '📨',
+  context: '🌐',
+  parent: '⬆️',
+};
 
+// Spans only: the badge is used inside buttons, which only allow phrasing content
+function ReasonList({ reasons }: { reasons: RenderReason[] }): JSX.Element {
   return (
+    <span className="block space-y-1">
+      {reasons.map((reason, index) => (
+        <span key={index} className="flex items-start gap-1.5">
+          <span>{reasonIcons[reason.kind]}</span>
+          <span>{describeRenderReason(reason)}</span>
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function InlineRenderCountBadge({
+  counterId,
+  trace,
+}: InlineRenderCounterProps & { counterId: string }): JSX.Element {
+  const currentCount = useCommittedRenderCount(counterId);
+
+  const badge = (
     <span className="inline-flex items-center justify-center min-w-[2rem] h-7 px-2.5 bg-gradient-to-r from-amber-100 to-orange-100 dark:from-amber-900/30 dark:to-orange-900/30 text-amber-800 dark:text-amber-300 rounded-lg text-xs font-bold shadow-sm">
       {currentCount}
+      {trace && <span className="ml-1 opacity-60">?</span>}
     </span>
   );
+
+  if (!trace) {
+    return badge;
+  }
+
+  return (
+    <span className="group relative inline-flex" tabIndex={0} aria-label={`Why did ${trace.component} render?`}>
+      {badge}
+      <span
+        role="tooltip"
+        className="absolute right-0 top-full mt-2 z-30 hidden group-hover:block group-focus:block w-72 p-3 rounded-xl bg-slate-900 text-slate-100 text-xs font-normal text-left shadow-xl"
+      >
+        <span className="block font-semibold text-amber-300 mb-2">
+          Why did {trace.component} render?
+        </span>
+        <ReasonList reasons={trace.reasons} />
+        {trace.history.length > 0 && (
+          <span className="block mt-3 pt-2 border-t border-slate-700">
+            <span className="block text-slate-400 mb-1">Earlier renders</span>
+            {trace.history.map((reasons, index) => (
+              <span key={index} className="block text-slate-400 mb-1">
+                <span className="font-mono">#{currentCount - index - 1}</span>{' '}
+                {reasons.map(describeRenderReason).join('; ')}
+              </span>
+            ))}
+          </span>
+        )}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Minimal render counter for inline use.
+ * With a trace from useRenderTrace, hovering the badge explains why it rendered.
+ */
+export function InlineRenderCounter({ trace }: InlineRenderCounterProps): JSX.Element {
+  const counterId = `render-counter${useId()}`;
+  const hostRef = useBadgeRoot<HTMLSpanElement>(<InlineRenderCountBadge counterId={counterId} trace={trace} />);
+
+  return (
+    <>
+      <CommitProbe counterId={counterId} />
+      <span ref={hostRef} className="inline-flex" />
+    </>
+  );
 }
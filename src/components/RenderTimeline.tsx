@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { clearCommits, getCommits, subscribeToCommits } from '../instrumentation/profilerStore';
+import type { ProfilerCommit, RenderTimelineProps } from '../types';
+
+const phaseStyles: Record<ProfilerCommit['phase'], { bar: string; label: string }> = {
+  mount: { bar: 'bg-emerald-500', label: 'Mount' },
+  update: { bar: 'bg-violet-500', label: 'Update' },
+  'nested-update': { bar: 'bg-amber-500', label: 'Nested update' },
+};
+
+function formatMs(value: number): string {
+  return `${value.toFixed(2)}ms`;
+}
+
+/**
+ * Scrollable timeline of every commit recorded by a preview's Profiler.
+ * Must be rendered outside the profiled tree, or its own updates would be recorded.
+ */
+export function RenderTimeline({ component }: RenderTimelineProps): JSX.Element {
+  const allCommits = useSyncExternalStore(subscribeToCommits, getCommits);
+  const commits = useMemo(
+    () => allCommits.filter((commit) => commit.component === component),
+    [allCommits, component]
+  );
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest commit in view
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container) {
+      container.scrollLeft = container.scrollWidth;
+    }
+  }, [commits.length]);
+
+  const maxDuration = Math.max(0.01, ...commits.map((c) => Math.max(c.actualDuration, c.baseDuration)));
+  const selected = commits.find((commit) => commit.id === selectedId) ?? commits[commits.length - 1];
+  const mountCount = commits.filter((commit) => commit.phase === 'mount').length;
+  const averageDuration = commits.length
+    ? commits.reduce((sum, commit) => sum + commit.actualDuration, 0) / commits.length
+    : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-400 dark:text-dark-muted uppercase tracking-widest">
+          Render Timeline
+        </h3>
+        <div className="flex items-center gap-4 text-xs text-slate-500 dark:text-dark-muted">
+          <span>{commits.length} commits</span>
+          <span>{mountCount} mounts</span>
+          <span>avg {formatMs(averageDuration)}</span>
+          <button
+            type="button"
+            onClick={() => {
+              clearCommits(component);
+              setSelectedId(null);
+            }}
+            className="hover:text-slate-900 dark:hover:text-dark-text"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-50 dark:bg-dark-bg rounded-xl border border-slate-200 dark:border-dark-border p-4">
+        {commits.length > 0 ? (
+          <>
+            <div ref={scrollRef} className="flex items-end gap-1 h-28 overflow-x-auto pb-1">
+              {commits.map((commit) => (
+                <button
+                  key={commit.id}
+                  type="button"
+                  onClick={() => setSelectedId(commit.id)}
+                  title={`#${commit.id} ${phaseStyles[commit.phase].label}: ${formatMs(commit.actualDuration)}`}
+                  className={`relative flex-shrink-0 w-3 h-full flex items-end rounded-sm ${
+                    selected?.id === commit.id ? 'ring-2 ring-violet-400' : ''
+                  }`}
+                >
+                  {/* Base duration: cost of re-rendering the whole subtree without memoization */}
+                  <span
+                    className="absolute bottom-0 left-0 right-0 rounded-sm bg-slate-200 dark:bg-dark-border"
+                    style={{ height: `${(commit.baseDuration / maxDuration) * 100}%` }}
+                  />
+                  <span
+                    className={`relative w-full rounded-sm ${phaseStyles[commit.phase].bar}`}
+                    style={{ height: `${Math.max(4, (commit.actualDuration / maxDuration) * 100)}%` }}
+                  />
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-slate-500 dark:text-dark-muted">
+              {Object.entries(phaseStyles).map(([phase, style]) => (
+                <span key={phase} className="flex items-center gap-1.5">
+                  <span className={`w-2.5 h-2.5 rounded-sm ${style.bar}`} />
+                  {style.label}
+                </span>
+              ))}
+              <span className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-sm bg-slate-200 dark:bg-dark-border" />
+                Base duration
+              </span>
+            </div>
+
+            {selected && (
+              <dl className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4 text-sm">
+                <div>
+                  <dt className="text-xs text-slate-400 dark:text-dark-muted">Commit</dt>
+                  <dd className="font-mono text-slate-900 dark:text-dark-text">
+                    #{selected.id} · {phaseStyles[selected.phase].label}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-400 dark:text-dark-muted">Actual duration</dt>
+                  <dd className="font-mono text-slate-900 dark:text-dark-text">{formatMs(selected.actualDuration)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-400 dark:text-dark-muted">Base duration</dt>
+                  <dd className="font-mono text-slate-900 dark:text-dark-text">{formatMs(selected.baseDuration)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-400 dark:text-dark-muted">Commit time</dt>
+                  <dd className="font-mono text-slate-900 dark:text-dark-text">{formatMs(selected.commitTime)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-slate-400 dark:text-dark-muted">Recorded at</dt>
+                  <dd className="font-mono text-slate-900 dark:text-dark-text">
+                    {new Date(selected.timestamp).toLocaleTimeString()}
+                  </dd>
+                </div>
+              </dl>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-dark-muted">
+            Interact with the example to record commits.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { isRouteErrorResponse, Link, useRouteError } from 'react-router-dom';
+
+function describeError(error: unknown): string {
+  if (isRouteErrorResponse(error)) return `${error.status} ${error.statusText}`;
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Page shown when a route fails to render, most often because a page's code could
+ * not be downloaded (offline, or the app was updated since this tab was opened)
+ */
+export function RouteErrorPage(): JSX.Element {
+  const error = useRouteError();
+
+  return (
+    <div className="max-w-2xl mx-auto pt-16 text-center animate-fade-in" role="alert">
+      <p className="text-6xl mb-6">🔌</p>
+      <h1 className="text-3xl font-bold text-slate-900 dark:text-dark-text mb-3">This page failed to load</h1>
+      <p className="text-slate-600 dark:text-dark-muted mb-2">
+        Check your connection, or reload to pick up the latest version of Hook Studio.
+      </p>
+      <p className="text-sm text-slate-500 dark:text-dark-muted font-mono mb-8">{describeError(error)}</p>
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          type="button"
+          onClick={() => window.location.reload()}
+          className="px-5 py-2.5 rounded-xl bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white font-medium shadow-lg shadow-violet-500/25 hover:opacity-90 transition-opacity"
+        >
+          Reload
+        </button>
+        <Link
+          to="/"
+          className="px-5 py-2.5 rounded-xl bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border text-slate-700 dark:text-dark-text font-medium hover:border-violet-400 transition-colors"
+        >
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { HighlightedText } from './HighlightedText';
+import { getHookById } from '../data/hooksList';
+import { searchContent } from '../data/searchIndex';
+import type { HookId, SearchEntry, SearchResult } from '../types';
+
+function getSectionLabel(entry: SearchEntry): string {
+  switch (entry.section) {
+    case 'description':
+      return 'Description';
+    case 'whatItDoes':
+      return 'What it does';
+    case 'mistake':
+      return `Common mistake #${entry.position}`;
+    case 'consideration':
+      return `Performance #${entry.position}`;
+    case 'code':
+      return 'Code example';
+  }
+}
+
+interface SearchResultGroup {
+  hookId: HookId;
+  results: SearchResult[];
+}
+
+/**
+ * Results grouped per hook, in the order of each hook's best match
+ */
+function groupByHook(results: SearchResult[]): SearchResultGroup[] {
+  const groups = new Map<HookId, SearchResult[]>();
+  for (const result of results) {
+    const group = groups.get(result.entry.hookId) ?? [];
+    group.push(result);
+    groups.set(result.entry.hookId, group);
+  }
+  return Array.from(groups, ([hookId, groupResults]) => ({ hookId, results: groupResults }));
+}
+
+function ResultSnippet({ result }: { result: SearchResult }): JSX.Element {
+  const { snippet } = result;
+
+  if (snippet.startLine === undefined) {
+    return (
+      <p className="text-sm text-slate-600 dark:text-dark-muted leading-relaxed">
+        <HighlightedText text={snippet.text} ranges={snippet.ranges} />
+      </p>
+    );
+  }
+
+  // Split the code into lines, keeping each line's ranges relative to that line
+  let offset = 0;
+  const lines = snippet.text.split('\n').map((line) => {
+    const start = offset;
+    offset += line.length + 1;
+    return {
+      text: line,
+      ranges: snippet.ranges
+        .filter((range) => range.end > start && range.start < start + line.length)
+        .map((range) => ({
+          start: Math.max(range.start, start) - start,
+          end: Math.min(range.end, start + line.length) - start,
+        })),
+    };
+  });
+
+  return (
+    <pre className="p-3 bg-slate-900 rounded-lg text-xs font-mono text-slate-200 overflow-x-auto">
+      {lines.map((line, index) => (
+        <div key={index} className="flex gap-4">
+          <span className="w-6 flex-shrink-0 text-right text-slate-500 select-none">
+            {(snippet.startLine ?? 1) + index}
+          </span>
+          <span>
+            <HighlightedText text={line.text} ranges={line.ranges} />
+          </span>
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+/**
+ * Full-text search over every hook page, driven by the "?q=" parameter
+ */
+export function SearchPage(): JSX.Element {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+
+  const results = useMemo(() => searchContent(query), [query]);
+  const groups = useMemo(() => groupByHook(results), [results]);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-dark-text mb-4">Search</h1>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setSearchParams(e.target.value ? { q: e.target.value } : {}, { replace: true })}
+          placeholder="Search descriptions, mistakes, performance tips and code..."
+          aria-label="Search hook content"
+          autoFocus
+          className="w-full px-5 py-3 rounded-xl border border-slate-200 dark:border-dark-border bg-white dark:bg-dark-card text-slate-900 dark:text-dark-text placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-violet-500"
+        />
+        {query.trim() && (
+          <p className="mt-3 text-sm text-slate-500 dark:text-dark-muted">
+            {results.length === 0
+              ? `No matches for “${query.trim()}”`
+              : `${results.length} ${results.length === 1 ? 'match' : 'matches'} in ${groups.length} ${
+                  groups.length === 1 ? 'hook' : 'hooks'
+                }`}
+          </p>
+        )}
+      </div>
+
+      {groups.map(({ hookId, results: hookResults }) => {
+        const hook = getHookById(hookId);
+        if (!hook) return null;
+
+        return (
+          <section key={hookId} className="card-hover p-6">
+            <Link to={hook.path} className="flex items-center gap-3 mb-4 group">
+              <span className="text-xl w-10 h-10 flex items-center justify-center rounded-xl bg-violet-100 dark:bg-violet-900/30">
+                {hook.icon}
+              </span>
+              <span className="text-lg font-bold text-slate-900 dark:text-dark-text group-hover:text-violet-600 dark:group-hover:text-violet-400 transition-colors">
+                {hook.name}
+              </span>
+            </Link>
+            <ul className="space-y-2">
+              {hookResults.map((result) => (
+                <li key={result.entry.id}>
+                  <Link
+                    to={result.entry.to}
+                    className="block p-3 -mx-3 rounded-xl hover:bg-slate-50 dark:hover:bg-dark-border/50 transition-colors"
+                  >
+                    <p className="mb-1 text-[11px] font-bold uppercase tracking-widest text-slate-400 dark:text-dark-muted">
+                      {getSectionLabel(result.entry)}
+                    </p>
+                    <ResultSnippet result={result} />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
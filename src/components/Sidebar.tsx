@@ -1,18 +1,29 @@
 import { NavLink } from 'react-router-dom';
+import { hookRegistry } from '../data/hookRegistry';
 import { hooksList, categoryLabels } from '../data/hooksList';
 import { useTheme } from '../context/ThemeContext';
+import { ProgressRing } from './ProgressRing';
+import { useProgress } from '../context/ProgressContext';
+import { useStrictMode } from '../context/StrictModeContext';
+import { getHookCompletion } from '../utils/progress';
+import { prefetchChunk } from '../utils/prefetch';
 import type { HookCategory } from '../types';
 
 interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
+  onOpenCommandPalette: () => void;
 }
 
+const isApplePlatform = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
 /**
  * Sidebar navigation component with hook list
  */
-export function Sidebar({ isOpen, onClose }: SidebarProps): JSX.Element {
+export function Sidebar({ isOpen, onClose, onOpenCommandPalette }: SidebarProps): JSX.Element {
   const { theme, toggleTheme } = useTheme();
+  const { isStrictMode, toggleStrictMode } = useStrictMode();
+  const { getHookProgress } = useProgress();
 
   // Group hooks by category
   const groupedHooks = hooksList.reduce(
@@ -85,6 +96,23 @@ export function Sidebar({ isOpen, onClose }: SidebarProps): JSX.Element {
           </button>
         </div>
 
+        {/* Command palette */}
+        <div className="px-3 pt-4">
+          <button
+            type="button"
+            onClick={onOpenCommandPalette}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl bg-slate-100 dark:bg-dark-border text-sm text-slate-500 dark:text-dark-muted hover:bg-violet-50 dark:hover:bg-violet-900/20 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <span className="flex-1 text-left">Search...</span>
+            <kbd className="px-1.5 py-0.5 rounded-md bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border font-mono text-[11px]">
+              {isApplePlatform ? '⌘K' : 'Ctrl K'}
+            </kbd>
+          </button>
+        </div>
+
         {/* Navigation */}
         <nav className="flex-1 overflow-y-auto py-6 px-3">
           {categories.map((category) => (
@@ -98,6 +126,9 @@ export function Sidebar({ isOpen, onClose }: SidebarProps): JSX.Element {
                     <NavLink
                       to={hook.path}
                       onClick={onClose}
+                      // Start downloading the playground before the click lands
+                      onMouseEnter={() => prefetchChunk(hookRegistry[hook.id].load)}
+                      onFocus={() => prefetchChunk(hookRegistry[hook.id].load)}
                       className={({ isActive }) => `
                         flex items-center gap-3 px-3 py-2.5 rounded-xl
                         transition-all duration-200
@@ -108,13 +139,21 @@ export function Sidebar({ isOpen, onClose }: SidebarProps): JSX.Element {
                         }
                       `}
                     >
-                      <span className="text-lg w-8 h-8 flex items-center justify-center rounded-lg bg-white/20">{hook.icon}</span>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-semibold text-sm truncate">{hook.name}</p>
-                        <p className="text-[11px] opacity-70 truncate">
-                          {hook.description}
-                        </p>
-                      </div>
+                      {({ isActive }) => (
+                        <>
+                          <span className="text-lg w-8 h-8 flex items-center justify-center rounded-lg bg-white/20">{hook.icon}</span>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-semibold text-sm truncate">{hook.name}</p>
+                            <p className="text-[11px] opacity-70 truncate">
+                              {hook.description}
+                            </p>
+                          </div>
+                          <ProgressRing
+                            value={getHookCompletion(getHookProgress(hook.id), hookRegistry[hook.id].exerciseCount)}
+                            className={isActive ? 'text-white' : 'text-violet-500'}
+                          />
+                        </>
+                      )}
                     </NavLink>
                   </li>
                 ))}
@@ -124,7 +163,33 @@ export function Sidebar({ isOpen, onClose }: SidebarProps): JSX.Element {
         </nav>
 
         {/* Footer */}
-        <div className="p-5 border-t border-slate-200 dark:border-dark-border">
+        <div className="p-5 border-t border-slate-200 dark:border-dark-border space-y-3">
+          {/* Strict Mode toggle */}
+          <div className="flex items-center justify-between px-4 py-3 rounded-xl bg-slate-50 dark:bg-dark-border">
+            <div>
+              <p className="text-sm font-semibold text-slate-700 dark:text-dark-text">Strict Mode</p>
+              <p className="text-[11px] text-slate-400 dark:text-dark-muted">Double-invoke renders &amp; effects in previews</p>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={isStrictMode}
+              onClick={toggleStrictMode}
+              className={`
+                relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors
+                ${isStrictMode ? 'bg-violet-500' : 'bg-slate-300 dark:bg-dark-bg'}
+              `}
+              aria-label="Toggle Strict Mode for playground previews"
+            >
+              <span
+                className={`
+                  inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                  ${isStrictMode ? 'translate-x-6' : 'translate-x-1'}
+                `}
+              />
+            </button>
+          </div>
+
           <a
             href="https://github.com/ramzi-bouzaiene/React-Hooks-Studio"
             target="_blank"
@@ -0,0 +1,112 @@
+import { Component, StrictMode, useEffect, useRef, type ReactNode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { useStrictMode } from '../context/StrictModeContext';
+import type { SnippetPreviewProps } from '../types';
+
+interface SnippetErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface SnippetErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Catches render errors thrown by user code so they don't escape the sandbox root
+ */
+class SnippetErrorBoundary extends Component<SnippetErrorBoundaryProps, SnippetErrorBoundaryState> {
+  state: SnippetErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): SnippetErrorBoundaryState {
+    return { error };
+  }
+
+  render(): ReactNode {
+    if (this.state.error) {
+      return (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-semibold text-red-700 dark:text-red-300 mb-1">Runtime error</p>
+          <pre className="text-xs text-red-600 dark:text-red-400 whitespace-pre-wrap font-mono">
+            {this.state.error.message}
+          </pre>
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * Mounts a compiled snippet in its own React root, isolated from the app tree
+ */
+export function SnippetPreview({ result, runId }: SnippetPreviewProps): JSX.Element {
+  const hostRef = useRef<HTMLDivElement>(null);
+  const rootRef = useRef<Root | null>(null);
+  const { isStrictMode } = useStrictMode();
+
+  // Create a fresh mount node per effect run so StrictMode remounts never reuse a container
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host) return;
+
+    const mountNode = document.createElement('div');
+    host.appendChild(mountNode);
+    const root = createRoot(mountNode);
+    rootRef.current = root;
+
+    return () => {
+      rootRef.current = null;
+      // Defer so we never unmount a root while the parent tree is still committing
+      setTimeout(() => {
+        root.unmount();
+        mountNode.remove();
+      });
+    };
+  }, []);
+
+  const SnippetComponent = result?.status === 'success' ? result.component : null;
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    if (!SnippetComponent) {
+      root.render(null);
+      return;
+    }
+
+    // The snippet lives in its own root, so it doesn't inherit the preview's <StrictMode>
+    const snippet = (
+      <SnippetErrorBoundary key={runId}>
+        <SnippetComponent />
+      </SnippetErrorBoundary>
+    );
+    root.render(isStrictMode ? <StrictMode>{snippet}</StrictMode> : snippet);
+  }, [SnippetComponent, runId, isStrictMode]);
+
+  return (
+    <div className="space-y-3">
+      {result === null && (
+        <p className="text-sm text-slate-500 dark:text-dark-muted">
+          Press <strong>Run</strong> to compile the code and render it here.
+        </p>
+      )}
+      {result?.status === 'success' && (
+        <p className="text-xs text-slate-400 dark:text-dark-muted font-mono">
+          Rendering &lt;{result.componentName}&gt;
+        </p>
+      )}
+      {result?.status === 'error' && (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-semibold text-red-700 dark:text-red-300 mb-1">
+            {result.phase === 'compile' ? 'Compile error' : 'Runtime error'}
+          </p>
+          <pre className="text-xs text-red-600 dark:text-red-400 whitespace-pre-wrap font-mono">
+            {result.message}
+          </pre>
+        </div>
+      )}
+      <div ref={hostRef} />
+    </div>
+  );
+}
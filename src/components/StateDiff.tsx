@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+import { diffState } from '../instrumentation/stateDiff';
+import type { StateDiffEntry, StateDiffProps } from '../types';
+
+const kindStyles: Record<StateDiffEntry['kind'], { icon: string; label: string; className: string }> = {
+  added: { icon: '+', label: 'added', className: 'text-green-600 dark:text-green-400' },
+  removed: { icon: '−', label: 'removed', className: 'text-red-600 dark:text-red-400' },
+  changed: { icon: '~', label: 'changed', className: 'text-amber-600 dark:text-amber-400' },
+  recreated: { icon: '⟳', label: 'new reference', className: 'text-purple-600 dark:text-purple-400' },
+  reused: { icon: '=', label: 'same reference', className: 'text-gray-400 dark:text-dark-muted' },
+};
+
+function describeEntry(entry: StateDiffEntry): string {
+  switch (entry.kind) {
+    case 'added':
+    case 'removed':
+      return entry.value;
+    case 'changed':
+      return `${entry.before} → ${entry.after}`;
+    case 'recreated':
+      return entry.contentChanged ? 'new reference' : 'new reference, equal content';
+    case 'reused':
+      return 'same reference';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Structural diff between two states. Shows which paths were added, removed
+ * or changed, and which objects and arrays were recreated or kept their identity.
+ */
+export function StateDiff({ before, after, rootLabel = 'state' }: StateDiffProps): JSX.Element {
+  const entries = useMemo(() => diffState(before, after, rootLabel), [before, after, rootLabel]);
+  const counts = entries.reduce<Partial<Record<StateDiffEntry['kind'], number>>>((result, entry) => {
+    result[entry.kind] = (result[entry.kind] ?? 0) + 1;
+    return result;
+  }, {});
+
+  if (Object.is(before, after)) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-dark-muted">
+        No change: {rootLabel} is the same reference, so React skips the re-render.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(Object.keys(kindStyles) as StateDiffEntry['kind'][]).map((kind) =>
+          counts[kind] ? (
+            <span key={kind} className={kindStyles[kind].className}>
+              {kindStyles[kind].icon} {counts[kind]} {kindStyles[kind].label}
+            </span>
+          ) : null
+        )}
+      </div>
+      <ul className="bg-gray-900 rounded-lg p-3 font-mono text-xs space-y-1 max-h-60 overflow-y-auto">
+        {entries.map((entry, index) => (
+          <li key={index} className="flex gap-2">
+            <span className={`w-3 flex-shrink-0 ${kindStyles[entry.kind].className}`}>
+              {kindStyles[entry.kind].icon}
+            </span>
+            <span className="text-gray-200">{entry.path}</span>
+            <span className={`truncate ${kindStyles[entry.kind].className}`}>{describeEntry(entry)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
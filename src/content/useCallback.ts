@@ -0,0 +1,69 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useCallback, useState, memo } from 'react';
+
+// Memoized child component
+const Button = memo(function Button({
+  onClick,
+  children
+}: {
+  onClick: () => void;
+  children: string;
+}) {
+  console.log('Button rendered:', children);
+  return <button onClick={onClick}>{children}</button>;
+});
+
+function ParentComponent() {
+  const [count, setCount] = useState(0);
+  const [name, setName] = useState('');
+
+  // Without useCallback - new function every render
+  const handleClickBad = () => {
+    setCount(c => c + 1);
+  };
+
+  // With useCallback - same function reference
+  const handleClickGood = useCallback(() => {
+    setCount(c => c + 1);
+  }, []); // Empty deps = never changes
+
+  // useCallback with dependencies
+  const handleGreet = useCallback(() => {
+    alert(\`Hello, \${name}!\`);
+  }, [name]); // Changes when name changes
+
+  return (
+    <div>
+      <Button onClick={handleClickGood}>
+        Increment ({count})
+      </Button>
+      <input value={name} onChange={e => setName(e.target.value)} />
+      <Button onClick={handleGreet}>Greet</Button>
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useCallback page
+ */
+export const useCallbackContent: HookContent = {
+  title: 'useCallback',
+  description: 'useCallback memoizes callback functions so they maintain the same reference between renders, useful when passing callbacks to optimized child components.',
+  whatItDoes: 'useCallback returns a memoized version of the callback that only changes if one of the dependencies has changed. This is useful when passing callbacks to child components wrapped in React.memo or when a callback is used as a dependency in other hooks.',
+  commonMistakes: [
+    'Using useCallback without React.memo on child components (no benefit)',
+    'Adding too many dependencies that change frequently',
+    'Wrapping every function in useCallback (adds overhead)',
+    'Forgetting that inline functions in JSX are recreated each render',
+    'Not understanding the difference between useCallback and useMemo',
+  ],
+  performanceConsiderations: [
+    'Only useful with memoized children (React.memo)',
+    'The callback caching itself has overhead',
+    'Consider if the child component is expensive to render',
+    'Stable callbacks prevent unnecessary re-renders in optimized children',
+    'useCallback(fn, deps) is equivalent to useMemo(() => fn, deps)',
+  ],
+  codeExample,
+};
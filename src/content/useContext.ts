@@ -0,0 +1,70 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { createContext, useContext, useState } from 'react';
+
+// 1. Create context with default value
+interface User {
+  name: string;
+  email: string;
+}
+
+const UserContext = createContext<User | null>(null);
+
+// 2. Create provider component
+function UserProvider({ children }: { children: ReactNode }) {
+  const [user] = useState({ name: 'John', email: 'john@example.com' });
+
+  return (
+    <UserContext.Provider value={user}>
+      {children}
+    </UserContext.Provider>
+  );
+}
+
+// 3. Create custom hook for consuming context
+function useUser() {
+  const context = useContext(UserContext);
+  if (!context) {
+    throw new Error('useUser must be used within UserProvider');
+  }
+  return context;
+}
+
+// 4. Use in components
+function Profile() {
+  const user = useUser();
+  return <p>Hello, {user.name}!</p>;
+}
+
+// 5. Wrap app with provider
+function App() {
+  return (
+    <UserProvider>
+      <Profile />
+    </UserProvider>
+  );
+}`;
+
+/**
+ * Text and code example for the useContext page
+ */
+export const useContextContent: HookContent = {
+  title: 'useContext',
+  description: 'useContext lets you subscribe to React context and access shared data without prop drilling.',
+  whatItDoes: 'useContext accepts a context object created by React.createContext and returns the current context value. The value is determined by the nearest Provider above in the tree. When the Provider\'s value changes, useContext triggers a re-render.',
+  commonMistakes: [
+    'Forgetting to wrap the tree with the Provider component',
+    'Using context for state that changes frequently (causes many re-renders)',
+    'Not creating type-safe custom hooks for consuming context',
+    'Putting too much unrelated state in a single context',
+    'Forgetting that all consumers re-render when context value changes',
+  ],
+  performanceConsiderations: [
+    'Split contexts by update frequency to reduce re-renders',
+    'Use memo or useMemo to stabilize context value objects',
+    'Consider using multiple smaller contexts instead of one large one',
+    'Context is best for infrequently updated global state',
+    'For frequent updates, consider other state management solutions',
+  ],
+  codeExample,
+};
@@ -0,0 +1,50 @@
+import useDebounceSource from '../customHooks/useDebounce.ts?raw';
+import type { HookContent } from '../types';
+
+const codeExample = `${useDebounceSource}
+// Usage
+export default function CitySearch() {
+  const [query, setQuery] = useState('');
+  const debouncedQuery = useDebounce(query, 400);
+  const [results, setResults] = useState<string[]>([]);
+
+  // Runs once typing pauses, not on every keystroke
+  useEffect(() => {
+    const cities = ['Amsterdam', 'Berlin', 'Lisbon', 'London', 'Madrid', 'Paris', 'Prague'];
+    setResults(cities.filter((city) => city.toLowerCase().includes(debouncedQuery.toLowerCase())));
+  }, [debouncedQuery]);
+
+  return (
+    <div>
+      <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search cities" />
+      <p>Searching for: "{debouncedQuery}"</p>
+      <ul>
+        {results.map((city) => <li key={city}>{city}</li>)}
+      </ul>
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useDebounce page
+ */
+export const useDebounceContent: HookContent = {
+  title: 'useDebounce',
+  description: 'useDebounce delays a fast-changing value until it has been stable for a while, so expensive work like search requests runs once per pause instead of once per keystroke.',
+  whatItDoes: 'useDebounce(value, delay) returns a copy of value that only updates after value has stopped changing for delay milliseconds. Each change clears the pending timeout and starts a new one; unmounting cancels it.',
+  commonMistakes: [
+    'Debouncing the input value itself, which makes typing feel laggy',
+    'Creating a debounced function inline, so every render gets a new timer',
+    'Forgetting to clear the timeout on unmount, updating state after unmount',
+    'Using a debounce where a transition would keep the UI responsive without waiting',
+    'Ignoring responses that arrive out of order after the debounced request',
+  ],
+  performanceConsiderations: [
+    'Each keystroke still re-renders the component holding the input',
+    'Effects depending on the debounced value run once per pause',
+    'A longer delay saves work but makes results feel slower',
+    'Combine with AbortController to cancel stale requests',
+    'Debouncing reduces work; useDeferredValue only reprioritizes it',
+  ],
+  codeExample,
+};
@@ -0,0 +1,70 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useDebugValue, useState } from 'react';
+
+interface Strength {
+  score: number;
+  checks: string[];
+}
+
+const RULES: [string, RegExp][] = [
+  ['length', /.{8,}/],
+  ['lowercase', /[a-z]/],
+  ['uppercase', /[A-Z]/],
+  ['digit', /[0-9]/],
+  ['symbol', /[^A-Za-z0-9]/],
+];
+
+function getStrength(password: string): Strength {
+  const checks = RULES.filter(([, rule]) => rule.test(password)).map(([name]) => name);
+  return { score: checks.length, checks };
+}
+
+// Custom hooks show up in React DevTools as "PasswordStrength: ..."
+function usePasswordStrength(password: string): Strength {
+  const strength = getStrength(password);
+
+  // ❌ Eager: the string is built on every render, even with DevTools closed
+  // useDebugValue(\`\${strength.score}/5 (\${strength.checks.join(', ')})\`);
+
+  // ✅ Lazy: React only calls the formatter when DevTools inspects the hook
+  useDebugValue(strength, (s) => \`\${s.score}/5 (\${s.checks.join(', ')})\`);
+
+  return strength;
+}
+
+export default function SignupForm() {
+  const [password, setPassword] = useState('');
+  const { score } = usePasswordStrength(password);
+
+  return (
+    <>
+      <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+      <meter min={0} max={5} value={score} />
+    </>
+  );
+}`;
+
+/**
+ * Text and code example for the useDebugValue page
+ */
+export const useDebugValueContent: HookContent = {
+  title: 'useDebugValue',
+  description: 'useDebugValue adds a label to a custom hook in React DevTools, so you can see its state without digging through the hooks it calls.',
+  whatItDoes: 'useDebugValue(value, format?) shows value next to the custom hook\'s name in the React DevTools components panel. The optional format function is only called when DevTools actually inspects the component, so expensive formatting costs nothing in normal renders.',
+  commonMistakes: [
+    'Calling useDebugValue in a component instead of a custom hook (it only labels hooks)',
+    'Building an expensive label string on every render instead of passing a formatter',
+    'Adding it to every custom hook, including trivial ones that are clear already',
+    'Expecting the value to appear anywhere outside React DevTools',
+    'Using it for logging; it has no effect on behavior or production output',
+  ],
+  performanceConsiderations: [
+    'The formatter runs only while DevTools inspects the component',
+    'Eager formatting runs on every render, even for users without DevTools',
+    'Keep the debug value small; DevTools serializes it for display',
+    'Most valuable in shared hooks used in many components',
+    'Production builds of React skip useDebugValue entirely',
+  ],
+  codeExample,
+};
@@ -0,0 +1,96 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useEffect, useState } from 'react';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+// Fake API call that resolves after half a second unless aborted
+function fetchUser(userId: string, signal: AbortSignal): Promise<User> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => resolve({ id: userId, name: \`User \${userId}\` }), 500);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(signal.reason);
+    });
+  });
+}
+
+function DataFetcher({ userId }: { userId: string }) {
+  const [data, setData] = useState<User | null>(null);
+
+  // Effect with dependency array
+  useEffect(() => {
+    const controller = new AbortController();
+
+    // Side effect: fetch data
+    fetchUser(userId, controller.signal)
+      .then(setData)
+      .catch(() => {
+        // Aborted because userId changed or the component unmounted
+      });
+
+    // Cleanup function (optional)
+    return () => {
+      // Cancel pending requests, unsubscribe, etc.
+      controller.abort();
+    };
+  }, [userId]); // Only re-run when userId changes
+
+  // Effect that runs once on mount
+  useEffect(() => {
+    document.title = 'User Profile';
+
+    return () => {
+      document.title = 'App'; // Cleanup on unmount
+    };
+  }, []); // Empty array = run once
+
+  // Effect that runs on every render (rarely needed)
+  useEffect(() => {
+    // Runs after every render
+  }); // No dependency array
+
+  return <div>{data ? data.name : 'Loading...'}</div>;
+}
+
+export default function App() {
+  const [userId, setUserId] = useState('1');
+
+  return (
+    <>
+      <select value={userId} onChange={(e) => setUserId(e.target.value)}>
+        <option value="1">User 1</option>
+        <option value="2">User 2</option>
+        <option value="3">User 3</option>
+      </select>
+      <DataFetcher userId={userId} />
+    </>
+  );
+}`;
+
+/**
+ * Text and code example for the useEffect page
+ */
+export const useEffectContent: HookContent = {
+  title: 'useEffect',
+  description: 'useEffect lets you synchronize a component with external systems and perform side effects after rendering.',
+  whatItDoes: 'useEffect runs after the component renders. It\'s used for data fetching, subscriptions, DOM manipulation, and other side effects. The cleanup function runs before the next effect and on unmount.',
+  commonMistakes: [
+    'Missing dependencies in the dependency array (use ESLint plugin!)',
+    'Infinite loops from setting state without proper dependencies',
+    'Forgetting cleanup for subscriptions, timers, or event listeners',
+    'Using async directly in useEffect (wrap in inner function instead)',
+    'Fetching data without handling race conditions or component unmount',
+  ],
+  performanceConsiderations: [
+    'Keep dependency arrays minimal and accurate',
+    'Split unrelated effects into multiple useEffect calls',
+    'Use cleanup functions to prevent memory leaks',
+    'Consider useLayoutEffect for DOM measurements before paint',
+    'Debounce or throttle effects that run frequently',
+  ],
+  codeExample,
+};
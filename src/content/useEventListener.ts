@@ -0,0 +1,57 @@
+import useEventListenerSource from '../customHooks/useEventListener.ts?raw';
+import type { HookContent } from '../types';
+
+const codeExample = `${useEventListenerSource}
+// Usage
+import { useState } from 'react';
+
+export default function KeyLogger() {
+  const [keys, setKeys] = useState<string[]>([]);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ x: 0, y: 0 });
+
+  // Window (the default target); the inline handler doesn't re-attach the listener
+  useEventListener('keydown', (event) => {
+    setKeys((prev) => [...prev.slice(-4), event.key]);
+  });
+
+  // An element behind a ref
+  useEventListener(
+    'pointermove',
+    (event) => setPosition({ x: event.offsetX, y: event.offsetY }),
+    boxRef
+  );
+
+  return (
+    <div>
+      <p>Last keys: {keys.join(' ')}</p>
+      <div ref={boxRef} style={{ height: 100, background: '#eee' }}>
+        {position.x}, {position.y}
+      </div>
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useEventListener page
+ */
+export const useEventListenerContent: HookContent = {
+  title: 'useEventListener',
+  description: 'useEventListener attaches an event listener to the window, the document or an element ref, and removes it when the component unmounts.',
+  whatItDoes: 'useEventListener(eventName, handler, target?, options?) adds the listener in an effect and removes it in the cleanup. The handler is stored in a ref, so passing an inline function is fine: the listener is only re-attached when the event name, target or options change. The overloads type the event from the target\'s event map.',
+  commonMistakes: [
+    'Adding listeners in an effect without removing them, leaking one per re-render',
+    'Putting an inline handler in the effect deps, re-attaching the listener every render',
+    'Reading ref.current during render instead of inside the effect',
+    'Removing a listener with different capture options than it was added with',
+    'Attaching window listeners in many components instead of one shared listener',
+  ],
+  performanceConsiderations: [
+    'The listener is attached once and keeps calling the latest handler',
+    'Use { passive: true } for scroll and touch listeners that never call preventDefault',
+    'High-frequency events (pointermove, scroll) re-render on every state update',
+    'Throttle or requestAnimationFrame-batch updates from high-frequency events',
+    'Options are compared by value, so inline option objects are fine',
+  ],
+  codeExample,
+};
@@ -0,0 +1,58 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useId } from 'react';
+
+function PasswordField({ label, hint }: { label: string; hint: string }) {
+  // Unique per component instance, identical on the server and the client
+  const id = useId();
+
+  return (
+    <div>
+      <label htmlFor={id + '-input'}>{label}</label>
+      <input id={id + '-input'} type="password" aria-describedby={id + '-hint'} />
+      <p id={id + '-hint'}>{hint}</p>
+    </div>
+  );
+}
+
+// Rendered twice on the same page: the ids never collide
+export default function SignupForm() {
+  return (
+    <>
+      <PasswordField label="Password" hint="At least 8 characters" />
+      <PasswordField label="Confirm password" hint="Type it again" />
+    </>
+  );
+}
+
+// ❌ A global counter: the server and the browser count differently,
+// so hydration sees different ids and labels point at the wrong input
+let nextId = 0;
+function BadField() {
+  const id = \`field-\${nextId++}\`;
+  return <input id={id} />;
+}`;
+
+/**
+ * Text and code example for the useId page
+ */
+export const useIdContent: HookContent = {
+  title: 'useId',
+  description: 'useId generates a unique id that is stable across renders and identical on the server and the client, for wiring up accessibility attributes.',
+  whatItDoes: 'useId returns a string that is unique to the component instance calling it. It is derived from the component\'s position in the tree, so the same tree produces the same ids during server rendering and hydration. Use it (with suffixes) for htmlFor, aria-describedby, aria-labelledby and similar attributes.',
+  commonMistakes: [
+    'Using useId to generate keys for list items (keys should come from your data)',
+    'Generating ids with Math.random() or a global counter, which breaks hydration',
+    'Calling useId once per id instead of suffixing one id for related elements',
+    'Using the id in CSS selectors without escaping the colons React adds',
+    'Hard-coding ids in reusable components, so two instances collide',
+  ],
+  performanceConsiderations: [
+    'useId is cheap: it does not cause extra renders',
+    'One useId call per component with suffixes keeps ids readable',
+    'Ids stay the same for the lifetime of the component',
+    'identifierPrefix on createRoot avoids collisions between multiple React apps',
+    'Prefer useId over effects that assign ids after mount, which render twice',
+  ],
+  codeExample,
+};
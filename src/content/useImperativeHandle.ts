@@ -0,0 +1,75 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+
+// The methods the parent is allowed to call
+interface ChatPanelHandle {
+  focus: () => void;
+  scrollTo: (position: 'top' | 'bottom') => void;
+  reset: () => void;
+}
+
+const ChatPanel = forwardRef<ChatPanelHandle>(function ChatPanel(_props, ref) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [draft, setDraft] = useState('');
+
+  // Expose a small API instead of the raw DOM nodes
+  useImperativeHandle(
+    ref,
+    () => ({
+      focus: () => inputRef.current?.focus(),
+      scrollTo: (position) =>
+        listRef.current?.scrollTo({
+          top: position === 'top' ? 0 : listRef.current.scrollHeight,
+          behavior: 'smooth',
+        }),
+      reset: () => setDraft(''),
+    }),
+    [] // Recreate the handle only when these values change
+  );
+
+  return (
+    <>
+      <ul ref={listRef}>{/* messages */}</ul>
+      <input ref={inputRef} value={draft} onChange={(e) => setDraft(e.target.value)} />
+    </>
+  );
+});
+
+function Parent() {
+  const panelRef = useRef<ChatPanelHandle>(null);
+
+  return (
+    <>
+      <ChatPanel ref={panelRef} />
+      <button onClick={() => panelRef.current?.focus()}>Focus</button>
+      <button onClick={() => panelRef.current?.scrollTo('bottom')}>Scroll down</button>
+      <button onClick={() => panelRef.current?.reset()}>Reset</button>
+    </>
+  );
+}`;
+
+/**
+ * Text and code example for the useImperativeHandle page
+ */
+export const useImperativeHandleContent: HookContent = {
+  title: 'useImperativeHandle & forwardRef',
+  description: 'forwardRef lets a parent pass a ref to a child component, and useImperativeHandle lets the child decide what that ref exposes instead of the raw DOM node.',
+  whatItDoes: 'useImperativeHandle(ref, createHandle, deps) sets ref.current to the object returned by createHandle. The handle is recreated when the dependencies change, just like an effect, so methods that read state need those values in the dependency array.',
+  commonMistakes: [
+    'Using imperative handles for things that could be props, like opening or closing a dialog',
+    'Omitting values the handle methods read from the dependency array (stale closures)',
+    'Exposing the whole DOM node when the parent only needs one or two methods',
+    'Calling handle methods during render, before ref.current is attached',
+    'Forgetting forwardRef, so the ref prop never reaches the child (before React 19)',
+  ],
+  performanceConsiderations: [
+    'Without a dependency array the handle is rebuilt after every render',
+    'Handle methods can read refs instead of state to keep the dependency array empty',
+    'Recreating the handle is cheap, but parents holding on to old methods see stale values',
+    'Imperative calls skip re-rendering the parent entirely',
+    'Keep the exposed API small so the child can change its internals freely',
+  ],
+  codeExample,
+};
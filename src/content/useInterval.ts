@@ -0,0 +1,47 @@
+import useIntervalSource from '../customHooks/useInterval.ts?raw';
+import type { HookContent } from '../types';
+
+const codeExample = `${useIntervalSource}
+// Usage
+import { useState } from 'react';
+
+export default function Stopwatch() {
+  const [seconds, setSeconds] = useState(0);
+  const [step, setStep] = useState(1);
+  const [running, setRunning] = useState(true);
+
+  // Reads the latest step without restarting the interval; null pauses it
+  useInterval(() => setSeconds(seconds + step), running ? 1000 : null);
+
+  return (
+    <div>
+      <p>{seconds}s</p>
+      <button onClick={() => setStep((s) => s + 1)}>Step: {step}</button>
+      <button onClick={() => setRunning((r) => !r)}>{running ? 'Pause' : 'Resume'}</button>
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useInterval page
+ */
+export const useIntervalContent: HookContent = {
+  title: 'useInterval',
+  description: 'useInterval is a declarative setInterval: the callback always sees the latest props and state, and changing the delay or pausing is just a new argument.',
+  whatItDoes: 'useInterval(callback, delay) stores the latest callback in a ref after every commit and starts a single interval that calls whatever the ref holds. The interval only restarts when the delay changes, and passing null clears it.',
+  commonMistakes: [
+    'Calling setInterval in an effect with [] deps and reading stale state inside it',
+    'Adding the state to the deps, restarting the interval (and its timing) on every tick',
+    'Forgetting to clear the interval on unmount',
+    'Using a very short delay for animations instead of requestAnimationFrame',
+    'Pausing by skipping work in the callback instead of clearing the interval',
+  ],
+  performanceConsiderations: [
+    'Only a delay change restarts the timer; callback changes are free',
+    'Each tick that sets state re-renders the component',
+    'Browsers throttle intervals in background tabs to about once per second',
+    'Pass null to pause instead of keeping an idle interval running',
+    'Intervals drift; compare against Date.now() when accuracy matters',
+  ],
+  codeExample,
+};
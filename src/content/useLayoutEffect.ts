@@ -0,0 +1,104 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useInsertionEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+
+interface AnchorRect {
+  top: number;
+  bottom: number;
+  left: number;
+}
+
+interface TooltipProps {
+  anchorRect: AnchorRect;
+  children: ReactNode;
+}
+
+function Tooltip({ anchorRect, children }: TooltipProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [height, setHeight] = useState(0);
+
+  // Runs after the DOM is updated but BEFORE the browser paints.
+  // The re-render caused by setHeight also happens before paint,
+  // so the user never sees the tooltip in the wrong place.
+  useLayoutEffect(() => {
+    setHeight(ref.current!.getBoundingClientRect().height);
+  }, []);
+
+  // Flip below the anchor when there's no room above
+  let top = anchorRect.top - height - 8;
+  if (top < 0) {
+    top = anchorRect.bottom + 8;
+  }
+
+  return (
+    <div ref={ref} style={{ position: 'absolute', top, left: anchorRect.left }}>
+      {children}
+    </div>
+  );
+}
+
+// useInsertionEffect runs before any layout effect. It's meant for
+// CSS-in-JS libraries that inject <style> tags, so layout effects
+// that measure the DOM already see the final styles.
+function useCss(rule: string) {
+  useInsertionEffect(() => {
+    const style = document.createElement('style');
+    style.textContent = rule;
+    document.head.appendChild(style);
+    return () => style.remove();
+  }, [rule]);
+}
+
+export default function TooltipDemo() {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const [anchorRect, setAnchorRect] = useState<AnchorRect | null>(null);
+
+  useCss('.tooltip { padding: 4px 8px; border-radius: 4px; background: #1e1b4b; color: white; }');
+
+  const toggle = () => {
+    const button = buttonRef.current!;
+    // Offsets are relative to the positioned wrapper the tooltip is placed in
+    setAnchorRect(
+      anchorRect
+        ? null
+        : { top: button.offsetTop, bottom: button.offsetTop + button.offsetHeight, left: button.offsetLeft }
+    );
+  };
+
+  return (
+    <div style={{ position: 'relative', paddingTop: 48 }}>
+      <button ref={buttonRef} onClick={toggle}>
+        {anchorRect ? 'Hide tooltip' : 'Show tooltip'}
+      </button>
+      {anchorRect && (
+        <Tooltip anchorRect={anchorRect}>
+          <span className="tooltip">Measured before paint</span>
+        </Tooltip>
+      )}
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useLayoutEffect page
+ */
+export const useLayoutEffectContent: HookContent = {
+  title: 'useLayoutEffect',
+  description: 'useLayoutEffect is a version of useEffect that fires before the browser repaints the screen. useInsertionEffect fires even earlier, before any layout effects.',
+  whatItDoes: 'useLayoutEffect runs synchronously after React updates the DOM but before the browser paints, so you can measure layout and re-render without the user seeing the intermediate state. useInsertionEffect runs before layout effects and exists for CSS-in-JS libraries to inject styles.',
+  commonMistakes: [
+    'Using useLayoutEffect for work that does not need to block paint, like data fetching',
+    'Reading layout in useEffect and causing a visible flicker when positioning elements',
+    'Expecting useLayoutEffect to run on the server (it warns during SSR and never runs)',
+    'Calling setState or reading refs inside useInsertionEffect',
+    'Doing heavy synchronous work in a layout effect, which delays the whole frame',
+  ],
+  performanceConsiderations: [
+    'Layout effects block the browser from painting until they finish',
+    'State updates inside useLayoutEffect re-render synchronously before paint',
+    'Prefer useEffect by default and switch only when you see a flicker',
+    'useInsertionEffect is meant for library authors injecting styles',
+    'Batch DOM reads before writes to avoid layout thrashing',
+  ],
+  codeExample,
+};
@@ -0,0 +1,50 @@
+import useLocalStorageSource from '../customHooks/useLocalStorage.ts?raw';
+import type { HookContent } from '../types';
+
+const codeExample = `${useLocalStorageSource}
+// Usage: both components read and write the same key
+function Counter({ label }: { label: string }) {
+  const [count, setCount, removeCount] = useLocalStorage('demo-count', 0);
+
+  return (
+    <p>
+      {label}: {count}{' '}
+      <button onClick={() => setCount((c) => c + 1)}>+1</button>
+      <button onClick={removeCount}>Remove</button>
+    </p>
+  );
+}
+
+export default function App() {
+  return (
+    <>
+      <Counter label="First" />
+      <Counter label="Second" />
+      <p>Reload the preview: the count survives.</p>
+    </>
+  );
+}`;
+
+/**
+ * Text and code example for the useLocalStorage page
+ */
+export const useLocalStorageContent: HookContent = {
+  title: 'useLocalStorage',
+  description: 'useLocalStorage works like useState, but the value is saved to localStorage and shared by every component and tab that uses the same key.',
+  whatItDoes: 'useLocalStorage(key, initialValue) subscribes to localStorage with useSyncExternalStore and returns [value, setValue, removeValue]. Values are stored as JSON; unreadable values fall back to initialValue, and writes that fail (full or disabled storage) are kept in memory for the session.',
+  commonMistakes: [
+    'Reading localStorage in a useState initializer only, so other components never see updates',
+    'Calling JSON.parse without try/catch, crashing on corrupted or foreign values',
+    'Parsing inside getSnapshot, which returns a new object every time and loops forever',
+    'Assuming the storage event fires in the tab that wrote the value (it only fires in others)',
+    'Storing values that do not survive JSON, like Dates, Maps or functions',
+  ],
+  performanceConsiderations: [
+    'localStorage is synchronous: keep stored values small',
+    'The raw string is the snapshot, so unrelated writes do not re-render',
+    'Parsing is memoized per raw string',
+    'Every component using a key re-renders when that key changes',
+    'Debounce writes from fast inputs like text areas',
+  ],
+  codeExample,
+};
@@ -0,0 +1,39 @@
+import useMediaQuerySource from '../customHooks/useMediaQuery.ts?raw';
+import type { HookContent } from '../types';
+
+const codeExample = `${useMediaQuerySource}
+// Usage
+export default function ResponsiveNav() {
+  const isDesktop = useMediaQuery('(min-width: 1024px)');
+  const prefersReducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
+
+  return (
+    <nav style={{ transition: prefersReducedMotion ? 'none' : 'all 0.3s' }}>
+      {isDesktop ? <p>Full navigation bar</p> : <button>☰ Menu</button>}
+    </nav>
+  );
+}`;
+
+/**
+ * Text and code example for the useMediaQuery page
+ */
+export const useMediaQueryContent: HookContent = {
+  title: 'useMediaQuery',
+  description: 'useMediaQuery tells a component whether a CSS media query matches, and re-renders it when that changes, for layouts and preferences CSS alone can\'t handle.',
+  whatItDoes: 'useMediaQuery(query, serverFallback?) subscribes to window.matchMedia(query) with useSyncExternalStore. The snapshot is the boolean matches, so re-renders only happen when the answer changes, and serverFallback is used during server rendering and hydration.',
+  commonMistakes: [
+    'Reading matchMedia once in useState and never listening for changes',
+    'Listening to window resize and re-evaluating on every pixel instead of the query change',
+    'Using the hook for styling that a plain CSS media query could do',
+    'Forgetting a server fallback, so SSR output and the first client render disagree',
+    'Creating a new subscribe function every render, resubscribing each time',
+  ],
+  performanceConsiderations: [
+    'The change event only fires when the result flips, not on every resize',
+    'A boolean snapshot keeps re-renders to real changes',
+    'subscribe is memoized per query string',
+    'Prefer CSS for purely visual changes; use the hook when rendering differs',
+    'Many components with the same query each hold their own subscription',
+  ],
+  codeExample,
+};
@@ -0,0 +1,95 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useMemo, useState } from 'react';
+
+interface Product {
+  id: number;
+  name: string;
+  value: number;
+}
+
+interface Props {
+  items: Product[];
+  filter: string;
+}
+
+const products: Product[] = [
+  { id: 1, name: 'Keyboard', value: 49 },
+  { id: 2, name: 'Mouse', value: 19 },
+  { id: 3, name: 'Monitor', value: 199 },
+  { id: 4, name: 'Microphone', value: 89 },
+  { id: 5, name: 'Headphones', value: 79 },
+];
+
+function Item({ item }: { item: Product }) {
+  return <li>{item.name} - \${item.value}</li>;
+}
+
+function ExpensiveComponent({ items, filter }: Props) {
+  // Memoize expensive computation
+  const filteredItems = useMemo(() => {
+    console.log('Computing filtered items...');
+    return items.filter(item =>
+      item.name.toLowerCase().includes(filter.toLowerCase())
+    );
+  }, [items, filter]); // Only recompute when items or filter changes
+
+  // Memoize object to maintain referential equality
+  const config = useMemo(() => ({
+    theme: 'dark',
+    language: 'en',
+  }), []); // Never changes
+
+  // Memoize derived values
+  const statistics = useMemo(() => ({
+    total: filteredItems.length,
+    average: filteredItems.reduce((a, b) => a + b.value, 0) / filteredItems.length,
+  }), [filteredItems]);
+
+  return (
+    <div>
+      <p>Found {filteredItems.length} items</p>
+      <ul>
+        {filteredItems.map(item => <Item key={item.id} item={item} />)}
+      </ul>
+    </div>
+  );
+}
+
+export default function App() {
+  const [filter, setFilter] = useState('');
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter products" />
+      {/* Re-renders the list without recomputing it: watch the console */}
+      <button onClick={() => setCount(count + 1)}>Re-render ({count})</button>
+      <ExpensiveComponent items={products} filter={filter} />
+    </>
+  );
+}`;
+
+/**
+ * Text and code example for the useMemo page
+ */
+export const useMemoContent: HookContent = {
+  title: 'useMemo',
+  description: 'useMemo memoizes expensive computations so they only recalculate when dependencies change, optimizing performance.',
+  whatItDoes: 'useMemo caches the result of a calculation between re-renders. It only recalculates when one of its dependencies changes. This is useful for expensive computations and maintaining referential equality for objects/arrays passed to child components.',
+  commonMistakes: [
+    'Using useMemo for simple calculations (adds overhead)',
+    'Forgetting dependencies in the dependency array',
+    'Assuming useMemo prevents renders (it doesn\'t, use React.memo)',
+    'Memoizing everything "just in case" (premature optimization)',
+    'Not understanding that useMemo runs during render',
+  ],
+  performanceConsiderations: [
+    'Only use for truly expensive computations',
+    'Useful for maintaining referential equality',
+    'The memoization itself has a cost - benchmark first',
+    'Dependencies should be primitives or stable references',
+    'Consider if the computation is actually expensive',
+  ],
+  codeExample,
+};
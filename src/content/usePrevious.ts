@@ -0,0 +1,49 @@
+import usePreviousSource from '../customHooks/usePrevious.ts?raw';
+import type { HookContent } from '../types';
+
+const codeExample = `${usePreviousSource}
+// Usage
+export default function PriceTicker() {
+  const [price, setPrice] = useState(100);
+  const [, forceRender] = useState(0);
+  const previousPrice = usePrevious(price);
+
+  const trend =
+    previousPrice === undefined ? '' : price > previousPrice ? '📈' : price < previousPrice ? '📉' : '';
+
+  return (
+    <div>
+      <p>
+        {price} {trend} (was {previousPrice ?? '-'})
+      </p>
+      <button onClick={() => setPrice((p) => p + 1)}>Up</button>
+      <button onClick={() => setPrice((p) => p - 1)}>Down</button>
+      {/* Same price, new render: the previous value is kept */}
+      <button onClick={() => forceRender((n) => n + 1)}>Re-render</button>
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the usePrevious page
+ */
+export const usePreviousContent: HookContent = {
+  title: 'usePrevious',
+  description: 'usePrevious remembers the value a component received before the current one, for comparisons like price trends or animating from an old value.',
+  whatItDoes: 'usePrevious(value) returns the previous distinct value, or undefined until the value changes for the first time. This version stores the current and previous values in state and updates them during render when the value changes, which React re-runs immediately without an extra commit.',
+  commonMistakes: [
+    'Reading a ref that an effect updates, so the result is one render behind',
+    'Expecting the value from the previous render instead of the previous distinct value',
+    'Writing ref.current during render, which breaks under concurrent rendering',
+    'Comparing objects by reference when the parent recreates them every render',
+    'Using it to detect prop changes that an effect dependency array already covers',
+  ],
+  performanceConsiderations: [
+    'Setting state during render re-runs the component before committing, not after',
+    'Object.is comparison is cheap; pass primitives or memoized objects',
+    'No effects are involved, so there is no extra render after commit',
+    'Memory cost is one extra copy of the value',
+    'Prefer deriving values during render over storing history when you can',
+  ],
+  codeExample,
+};
@@ -0,0 +1,81 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useReducer } from 'react';
+
+// Define state type
+interface State {
+  count: number;
+  history: number[];
+}
+
+// Define action types
+type Action =
+  | { type: 'INCREMENT' }
+  | { type: 'DECREMENT' }
+  | { type: 'RESET' }
+  | { type: 'SET'; payload: number };
+
+// Reducer function - pure function!
+function reducer(state: State, action: Action): State {
+  switch (action.type) {
+    case 'INCREMENT':
+      return {
+        count: state.count + 1,
+        history: [...state.history, state.count + 1],
+      };
+    case 'DECREMENT':
+      return {
+        count: state.count - 1,
+        history: [...state.history, state.count - 1],
+      };
+    case 'RESET':
+      return { count: 0, history: [] };
+    case 'SET':
+      return {
+        count: action.payload,
+        history: [...state.history, action.payload],
+      };
+    default:
+      return state;
+  }
+}
+
+// Initial state
+const initialState: State = { count: 0, history: [] };
+
+function Counter() {
+  const [state, dispatch] = useReducer(reducer, initialState);
+
+  return (
+    <div>
+      <p>Count: {state.count}</p>
+      <button onClick={() => dispatch({ type: 'INCREMENT' })}>+</button>
+      <button onClick={() => dispatch({ type: 'DECREMENT' })}>-</button>
+      <button onClick={() => dispatch({ type: 'RESET' })}>Reset</button>
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useReducer page
+ */
+export const useReducerContent: HookContent = {
+  title: 'useReducer',
+  description: 'useReducer is an alternative to useState for managing complex state logic. It\'s inspired by Redux and follows the reducer pattern.',
+  whatItDoes: 'useReducer accepts a reducer function and initial state, returning the current state and a dispatch function. When you dispatch an action, the reducer determines how to update the state based on the action type.',
+  commonMistakes: [
+    'Mutating state inside the reducer instead of returning a new object',
+    'Not handling all action types (missing default case)',
+    'Putting side effects inside the reducer (reducers must be pure)',
+    'Overcomplicating simple state that could use useState',
+    'Not typing actions properly in TypeScript',
+  ],
+  performanceConsiderations: [
+    'useReducer can be more efficient for complex state updates',
+    'Dispatch is stable and doesn\'t change between renders',
+    'Consider useReducer when state logic involves multiple sub-values',
+    'Reducers are easy to test since they\'re pure functions',
+    'Can be combined with useContext for state management',
+  ],
+  codeExample,
+};
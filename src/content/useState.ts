@@ -0,0 +1,75 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useState } from 'react';
+
+function computeExpensiveValue(): number {
+  let total = 0;
+  for (let i = 0; i < 1_000_000; i++) {
+    total += i % 7;
+  }
+  return total;
+}
+
+export default function Counter() {
+  // Declare a state variable called "count"
+  const [count, setCount] = useState(0);
+
+  // State with object
+  const [user, setUser] = useState({
+    name: 'John',
+    age: 25
+  });
+
+  // State with function initializer (lazy initialization)
+  const [expensiveValue] = useState(() => {
+    // This only runs once on mount
+    return computeExpensiveValue();
+  });
+
+  // Update state
+  const increment = () => setCount(count + 1);
+
+  // Update state using previous value
+  const incrementSafe = () => setCount(prev => prev + 1);
+
+  // Update object state (must spread to create new object)
+  const updateName = (newName: string) => {
+    setUser(prev => ({ ...prev, name: newName }));
+  };
+
+  return (
+    <div>
+      <p>Count: {count}</p>
+      <button onClick={increment}>Increment</button>
+      <button onClick={incrementSafe}>Increment (safe)</button>
+      <p>
+        {user.name} ({user.age}), computed once: {expensiveValue}
+      </p>
+      <input value={user.name} onChange={(e) => updateName(e.target.value)} />
+    </div>
+  );
+}`;
+
+/**
+ * Text and code example for the useState page
+ */
+export const useStateContent: HookContent = {
+  title: 'useState',
+  description: 'The useState hook lets you add state to functional components. It returns a stateful value and a function to update it.',
+  whatItDoes: 'useState declares a state variable that persists across re-renders. When you call the setter function, React re-renders the component with the new value. State updates are asynchronous and batched for performance.',
+  commonMistakes: [
+    'Mutating state directly instead of using the setter function',
+    'Forgetting that state updates are asynchronous',
+    'Not using the functional update form when new state depends on previous state',
+    'Creating new object/array references unnecessarily, causing extra renders',
+    'Using useState for values that don\'t need to trigger re-renders (use useRef instead)',
+  ],
+  performanceConsiderations: [
+    'Use lazy initialization for expensive initial values: useState(() => computeExpensive())',
+    'Batch multiple setState calls when possible',
+    'Split state into multiple useState calls for independent values',
+    'Consider useReducer for complex state logic',
+    'Memoize objects/arrays passed as initial state to avoid recreating on each render',
+  ],
+  codeExample,
+};
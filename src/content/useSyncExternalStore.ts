@@ -0,0 +1,82 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { useSyncExternalStore } from 'react';
+
+// A tiny external store: state lives outside React
+function createStore<T>(initialState: T) {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getSnapshot: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    setState: (update: (prev: T) => T) => {
+      state = update(state);
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+const store = createStore({ count: 0, name: 'Ada' });
+
+// Selector: only re-render when the selected value changes.
+// The selector must return a stable value (not a new object each call)!
+function useStore<S>(selector: (state: { count: number; name: string }) => S) {
+  return useSyncExternalStore(store.subscribe, () => selector(store.getSnapshot()));
+}
+
+// Browser APIs are external stores too
+function subscribeToOnline(callback: () => void) {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+}
+
+function useOnlineStatus() {
+  return useSyncExternalStore(
+    subscribeToOnline,
+    () => navigator.onLine, // getSnapshot
+    () => true // getServerSnapshot
+  );
+}
+
+function Counter() {
+  const count = useStore((state) => state.count);
+  const isOnline = useOnlineStatus();
+
+  return (
+    <button onClick={() => store.setState((s) => ({ ...s, count: s.count + 1 }))}>
+      {count} {isOnline ? '🟢' : '🔴'}
+    </button>
+  );
+}`;
+
+/**
+ * Text and code example for the useSyncExternalStore page
+ */
+export const useSyncExternalStoreContent: HookContent = {
+  title: 'useSyncExternalStore',
+  description: 'useSyncExternalStore subscribes a component to a store that lives outside React, such as a state library, a browser API or your own module-level store.',
+  whatItDoes: 'useSyncExternalStore takes a subscribe function and a getSnapshot function. React calls getSnapshot during render and re-renders when the store notifies it, and it guarantees that every component sees the same snapshot even during concurrent rendering.',
+  commonMistakes: [
+    'Returning a new object or array from getSnapshot, causing infinite re-renders',
+    'Defining subscribe inline in the component, so React resubscribes on every render',
+    'Syncing external state with useEffect + useState, which can tear in concurrent rendering',
+    'Forgetting getServerSnapshot when the component renders on the server',
+    'Mutating the store state in place instead of replacing the snapshot',
+  ],
+  performanceConsiderations: [
+    'Use selectors so components only re-render for the data they use',
+    'Keep getSnapshot cheap: it runs on every render and every store change',
+    'Declare subscribe outside the component or memoize it',
+    'Updates from external stores are synchronous and cannot be transitions',
+    'Prefer this hook over useEffect subscriptions for anything shared between components',
+  ],
+  codeExample,
+};
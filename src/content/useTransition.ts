@@ -0,0 +1,103 @@
+import type { HookContent } from '../types';
+
+const codeExample = `import { memo, useDeferredValue, useState, useTransition } from 'react';
+
+const allItems = Array.from({ length: 100 }, (_, i) => \`Item \${i + 1}\`);
+
+function filterItems(items: string[], query: string): string[] {
+  return items.filter((item) => item.includes(query));
+}
+
+// Each item blocks for about 1ms, so the whole list takes ~100ms to render
+function SlowItem({ text }: { text: string }) {
+  const start = performance.now();
+  while (performance.now() - start < 1) {
+    // Simulate an expensive component
+  }
+  return <li>{text}</li>;
+}
+
+// A list that is slow to render
+const SlowList = memo(function SlowList({ query }: { query: string }) {
+  const items = filterItems(allItems, query);
+  return (
+    <ul>
+      {items.map((item) => <SlowItem key={item} text={item} />)}
+    </ul>
+  );
+});
+
+// Option 1: useTransition - you own the state update
+function SearchWithTransition() {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <>
+      <input
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value); // Urgent: the input updates immediately
+          startTransition(() => {
+            setQuery(e.target.value); // Non-urgent: can be interrupted
+          });
+        }}
+      />
+      <div style={{ opacity: isPending ? 0.5 : 1 }}>
+        <SlowList query={query} />
+      </div>
+    </>
+  );
+}
+
+// Option 2: useDeferredValue - you only receive the value
+function SearchWithDeferredValue() {
+  const [query, setQuery] = useState('');
+  const deferredQuery = useDeferredValue(query);
+  const isStale = query !== deferredQuery;
+
+  return (
+    <>
+      <input value={query} onChange={(e) => setQuery(e.target.value)} />
+      <div style={{ opacity: isStale ? 0.5 : 1 }}>
+        <SlowList query={deferredQuery} />
+      </div>
+    </>
+  );
+}
+
+export default function App() {
+  return (
+    <>
+      <h3>useTransition</h3>
+      <SearchWithTransition />
+      <h3>useDeferredValue</h3>
+      <SearchWithDeferredValue />
+    </>
+  );
+}`;
+
+/**
+ * Text and code example for the useTransition page
+ */
+export const useTransitionContent: HookContent = {
+  title: 'useTransition & useDeferredValue',
+  description: 'useTransition and useDeferredValue let you mark some updates as non-urgent, so React keeps the UI responsive while it renders them in the background.',
+  whatItDoes: 'useTransition returns an isPending flag and a startTransition function; state updates inside startTransition can be interrupted by more urgent updates like typing. useDeferredValue returns a copy of a value that lags behind during urgent updates, which is useful when you don\'t own the state update.',
+  commonMistakes: [
+    'Wrapping the controlled input\'s own state update in startTransition (the input lags)',
+    'Expecting transitions to make slow rendering faster (they only make it interruptible)',
+    'Not memoizing the slow child, so it re-renders with the urgent update anyway',
+    'Using transitions for updates that must be synchronous, like text input values',
+    'Forgetting to show pending or stale feedback while the background render runs',
+  ],
+  performanceConsiderations: [
+    'Transition renders are interruptible: typing abandons stale work',
+    'The slow component must be wrapped in memo for useDeferredValue to help',
+    'Use isPending or value !== deferredValue to dim outdated content',
+    'Deferred rendering still costs CPU; reduce the work first when you can',
+    'Transitions do not debounce: every update still renders when React has time',
+  ],
+  codeExample,
+};
@@ -0,0 +1,111 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  type ReactNode,
+} from 'react';
+import { emptyHookProgress } from '../utils/progress';
+import { loadProgress, saveProgress } from '../utils/progressStorage';
+import type { HookId, HookProgress, ProgressContextValue, ProgressState } from '../types';
+
+/**
+ * Progress context for tracking which hooks a learner has worked through
+ */
+const ProgressContext = createContext<ProgressContextValue | undefined>(undefined);
+
+interface ProgressProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Progress provider component that records milestones per hook and persists them
+ */
+export function ProgressProvider({ children }: ProgressProviderProps): JSX.Element {
+  const [progress, setProgress] = useState<ProgressState>(loadProgress);
+
+  useEffect(() => {
+    saveProgress(progress);
+  }, [progress]);
+
+  // Returns the previous state when nothing changes, so repeated marks don't re-render
+  const updateHook = useCallback(
+    (hookId: HookId, update: (current: HookProgress) => HookProgress | null): void => {
+      setProgress((prev) => {
+        const next = update(prev[hookId] ?? emptyHookProgress);
+        return next ? { ...prev, [hookId]: next } : prev;
+      });
+    },
+    []
+  );
+
+  const getHookProgress = useCallback(
+    (hookId: HookId): HookProgress => progress[hookId] ?? emptyHookProgress,
+    [progress]
+  );
+
+  const markVisited = useCallback(
+    (hookId: HookId): void => {
+      updateHook(hookId, (current) => (current.visited ? null : { ...current, visited: true }));
+    },
+    [updateHook]
+  );
+
+  const markCodeOpened = useCallback(
+    (hookId: HookId): void => {
+      updateHook(hookId, (current) => (current.codeOpened ? null : { ...current, codeOpened: true }));
+    },
+    [updateHook]
+  );
+
+  const completeExercise = useCallback(
+    (hookId: HookId, exerciseId: string): void => {
+      updateHook(hookId, (current) =>
+        current.completedExercises.includes(exerciseId)
+          ? null
+          : { ...current, completedExercises: [...current.completedExercises, exerciseId] }
+      );
+    },
+    [updateHook]
+  );
+
+  const setUnderstood = useCallback(
+    (hookId: HookId, understood: boolean): void => {
+      updateHook(hookId, (current) => (current.understood === understood ? null : { ...current, understood }));
+    },
+    [updateHook]
+  );
+
+  const resetProgress = useCallback((): void => {
+    setProgress({});
+  }, []);
+
+  const value: ProgressContextValue = {
+    progress,
+    getHookProgress,
+    markVisited,
+    markCodeOpened,
+    completeExercise,
+    setUnderstood,
+    resetProgress,
+  };
+
+  return (
+    <ProgressContext.Provider value={value}>
+      {children}
+    </ProgressContext.Provider>
+  );
+}
+
+/**
+ * Hook to access progress context
+ * @throws Error if used outside ProgressProvider
+ */
+export function useProgress(): ProgressContextValue {
+  const context = useContext(ProgressContext);
+  if (context === undefined) {
+    throw new Error('useProgress must be used within a ProgressProvider');
+  }
+  return context;
+}
@@ -0,0 +1,71 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  type ReactNode,
+} from 'react';
+import type { StrictModeContextValue } from '../types';
+
+const STRICT_MODE_STORAGE_KEY = 'reacthookstudio-strict-mode';
+
+/**
+ * Strict mode context for toggling <StrictMode> around playground previews
+ */
+const StrictModeContext = createContext<StrictModeContextValue | undefined>(undefined);
+
+/**
+ * Get initial strict mode setting from localStorage (enabled by default)
+ */
+function getInitialStrictMode(): boolean {
+  if (typeof window === 'undefined') {
+    return true;
+  }
+
+  return localStorage.getItem(STRICT_MODE_STORAGE_KEY) !== 'false';
+}
+
+interface StrictModeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Strict mode provider component that manages the toggle and its persistence
+ */
+export function StrictModeProvider({ children }: StrictModeProviderProps): JSX.Element {
+  const [isStrictMode, setIsStrictMode] = useState(getInitialStrictMode);
+
+  useEffect(() => {
+    localStorage.setItem(STRICT_MODE_STORAGE_KEY, String(isStrictMode));
+  }, [isStrictMode]);
+
+  const toggleStrictMode = useCallback((): void => {
+    setIsStrictMode((prev) => !prev);
+  }, []);
+
+  const value: StrictModeContextValue = {
+    isStrictMode,
+    toggleStrictMode,
+  };
+
+  return (
+    <StrictModeContext.Provider value={value}>
+      {children}
+    </StrictModeContext.Provider>
+  );
+}
+
+/**
+ * Hook to access strict mode context
+ * @throws Error if used outside StrictModeProvider
+ */
+export function useStrictMode(): StrictModeContextValue {
+  const context = useContext(StrictModeContext);
+  if (context === undefined) {
+    throw new Error('useStrictMode must be used within a StrictModeProvider');
+  }
+  return context;
+}
+
+export { StrictModeContext };
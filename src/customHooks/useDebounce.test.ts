@@ -0,0 +1,73 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useDebounce } from './useDebounce';
+
+describe('useDebounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the initial value immediately', () => {
+    const { result } = renderHook(() => useDebounce('a', 300));
+    expect(result.current).toBe('a');
+  });
+
+  it('updates once the value has been stable for the delay', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebounce(value, 300), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'b' });
+    act(() => vi.advanceTimersByTime(299));
+    expect(result.current).toBe('a');
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(result.current).toBe('b');
+  });
+
+  it('restarts the timer on every change', () => {
+    const { result, rerender } = renderHook(({ value }) => useDebounce(value, 300), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'b' });
+    act(() => vi.advanceTimersByTime(200));
+    rerender({ value: 'c' });
+    act(() => vi.advanceTimersByTime(200));
+    expect(result.current).toBe('a');
+
+    act(() => vi.advanceTimersByTime(100));
+    expect(result.current).toBe('c');
+  });
+
+  it('restarts the timer when the delay changes', () => {
+    const { result, rerender } = renderHook(({ value, delay }) => useDebounce(value, delay), {
+      initialProps: { value: 'a', delay: 300 },
+    });
+
+    rerender({ value: 'b', delay: 300 });
+    act(() => vi.advanceTimersByTime(200));
+    rerender({ value: 'b', delay: 500 });
+    act(() => vi.advanceTimersByTime(200));
+    expect(result.current).toBe('a');
+
+    act(() => vi.advanceTimersByTime(300));
+    expect(result.current).toBe('b');
+  });
+
+  it('cancels the pending update on unmount', () => {
+    const { rerender, unmount } = renderHook(({ value }) => useDebounce(value, 300), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'b' });
+    expect(vi.getTimerCount()).toBe(1);
+
+    unmount();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
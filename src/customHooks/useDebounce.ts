@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * A copy of `value` that only updates once it has stopped changing for `delay` milliseconds.
+ *
+ * Every change restarts the timer; the pending update is cancelled when the
+ * component unmounts or the delay changes.
+ */
+export function useDebounce<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeoutId);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
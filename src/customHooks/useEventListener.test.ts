@@ -0,0 +1,90 @@
+import { renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useEventListener } from './useEventListener';
+
+describe('useEventListener', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('listens on window by default', () => {
+    const handler = vi.fn();
+    renderHook(() => useEventListener('resize', handler));
+
+    window.dispatchEvent(new Event('resize'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('listens on a document or the element behind a ref', () => {
+    const documentHandler = vi.fn();
+    const elementHandler = vi.fn();
+    const element = document.createElement('button');
+    renderHook(() => {
+      useEventListener('visibilitychange', documentHandler, document);
+      useEventListener('click', elementHandler, { current: element });
+    });
+
+    document.dispatchEvent(new Event('visibilitychange'));
+    element.dispatchEvent(new Event('click'));
+    expect(documentHandler).toHaveBeenCalledTimes(1);
+    expect(elementHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls the latest handler without re-attaching the listener', () => {
+    const addSpy = vi.spyOn(window, 'addEventListener');
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = renderHook(({ handler }) => useEventListener('resize', handler), {
+      initialProps: { handler: first },
+    });
+
+    rerender({ handler: second });
+    window.dispatchEvent(new Event('resize'));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(addSpy.mock.calls.filter(([type]) => type === 'resize')).toHaveLength(1);
+  });
+
+  it('re-attaches when the event name changes', () => {
+    const handler = vi.fn();
+    const { rerender } = renderHook(({ eventName }) => useEventListener(eventName, handler), {
+      initialProps: { eventName: 'focus' as 'focus' | 'blur' },
+    });
+
+    rerender({ eventName: 'blur' });
+    window.dispatchEvent(new Event('focus'));
+    expect(handler).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event('blur'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-attaches when the target changes', () => {
+    const handler = vi.fn();
+    const first = { current: document.createElement('div') };
+    const second = { current: document.createElement('div') };
+    const { rerender } = renderHook(({ target }) => useEventListener('click', handler, target), {
+      initialProps: { target: first },
+    });
+
+    rerender({ target: second });
+    first.current.dispatchEvent(new Event('click'));
+    expect(handler).not.toHaveBeenCalled();
+
+    second.current.dispatchEvent(new Event('click'));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes the listener on unmount', () => {
+    const removeSpy = vi.spyOn(window, 'removeEventListener');
+    const handler = vi.fn();
+    const { unmount } = renderHook(() => useEventListener('resize', handler, window, { capture: true }));
+
+    unmount();
+    window.dispatchEvent(new Event('resize'));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(removeSpy).toHaveBeenCalledWith('resize', expect.any(Function), { capture: true });
+  });
+});
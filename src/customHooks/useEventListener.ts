@@ -0,0 +1,61 @@
+import { useEffect, useLayoutEffect, useRef, type RefObject } from 'react';
+
+type ListenerTarget = Window | Document | RefObject<HTMLElement>;
+
+/**
+ * Listen to a window event for as long as the component is mounted
+ */
+export function useEventListener<K extends keyof WindowEventMap>(
+  eventName: K,
+  handler: (event: WindowEventMap[K]) => void,
+  target?: Window,
+  options?: AddEventListenerOptions
+): void;
+/**
+ * Listen to a document event for as long as the component is mounted
+ */
+export function useEventListener<K extends keyof DocumentEventMap>(
+  eventName: K,
+  handler: (event: DocumentEventMap[K]) => void,
+  target: Document,
+  options?: AddEventListenerOptions
+): void;
+/**
+ * Listen to an event on the element behind a ref
+ */
+export function useEventListener<K extends keyof HTMLElementEventMap>(
+  eventName: K,
+  handler: (event: HTMLElementEventMap[K]) => void,
+  target: RefObject<HTMLElement>,
+  options?: AddEventListenerOptions
+): void;
+/**
+ * Attach an event listener and remove it on unmount.
+ *
+ * The handler is kept in a ref, so an inline function doesn't re-attach the
+ * listener on every render; only the event name, target and options do.
+ */
+export function useEventListener(
+  eventName: string,
+  handler: (event: Event) => void,
+  target?: ListenerTarget,
+  options?: AddEventListenerOptions
+): void {
+  const savedHandler = useRef(handler);
+  const { capture, passive, once } = options ?? {};
+
+  useLayoutEffect(() => {
+    savedHandler.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    const resolved = target ?? window;
+    // Refs are read in the effect, after React has attached the element
+    const element = 'current' in resolved ? resolved.current : resolved;
+    if (!element) return;
+
+    const listener = (event: Event): void => savedHandler.current(event);
+    element.addEventListener(eventName, listener, { capture, passive, once });
+    return () => element.removeEventListener(eventName, listener, { capture });
+  }, [eventName, target, capture, passive, once]);
+}
@@ -0,0 +1,66 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useInterval } from './useInterval';
+
+describe('useInterval', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('calls the callback every delay milliseconds', () => {
+    const callback = vi.fn();
+    renderHook(() => useInterval(callback, 100));
+
+    act(() => vi.advanceTimersByTime(350));
+    expect(callback).toHaveBeenCalledTimes(3);
+  });
+
+  it('pauses while the delay is null and resumes when it is set again', () => {
+    const callback = vi.fn();
+    const { rerender } = renderHook(({ delay }) => useInterval(callback, delay), {
+      initialProps: { delay: 100 as number | null },
+    });
+
+    act(() => vi.advanceTimersByTime(100));
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    rerender({ delay: null });
+    act(() => vi.advanceTimersByTime(500));
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+
+    rerender({ delay: 100 });
+    act(() => vi.advanceTimersByTime(100));
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('calls the latest callback without restarting the interval', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = renderHook(({ callback }) => useInterval(callback, 100), {
+      initialProps: { callback: first },
+    });
+
+    act(() => vi.advanceTimersByTime(60));
+    rerender({ callback: second });
+    act(() => vi.advanceTimersByTime(40));
+
+    // A restarted interval would not have fired yet, 40ms after the new callback
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the interval on unmount', () => {
+    const callback = vi.fn();
+    const { unmount } = renderHook(() => useInterval(callback, 100));
+
+    unmount();
+    act(() => vi.advanceTimersByTime(500));
+    expect(callback).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
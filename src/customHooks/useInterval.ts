@@ -0,0 +1,23 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+
+/**
+ * Call `callback` every `delay` milliseconds; pass `null` to pause.
+ *
+ * The latest callback is kept in a ref, so it always sees current props and
+ * state without restarting the interval. Only a new delay restarts it.
+ */
+export function useInterval(callback: () => void, delay: number | null): void {
+  const savedCallback = useRef(callback);
+
+  // Layout effect so the ref is updated before any interval tick after a commit
+  useLayoutEffect(() => {
+    savedCallback.current = callback;
+  }, [callback]);
+
+  useEffect(() => {
+    if (delay === null) return;
+
+    const intervalId = setInterval(() => savedCallback.current(), delay);
+    return () => clearInterval(intervalId);
+  }, [delay]);
+}
@@ -0,0 +1,80 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useLocalStorage } from './useLocalStorage';
+
+describe('useLocalStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the initial value when nothing is stored', () => {
+    const { result } = renderHook(() => useLocalStorage('missing', { count: 0 }));
+    expect(result.current[0]).toEqual({ count: 0 });
+  });
+
+  it('reads and writes JSON', () => {
+    localStorage.setItem('count', '5');
+    const { result } = renderHook(() => useLocalStorage('count', 0));
+    expect(result.current[0]).toBe(5);
+
+    act(() => result.current[1]((prev) => prev + 1));
+    expect(result.current[0]).toBe(6);
+    expect(localStorage.getItem('count')).toBe('6');
+  });
+
+  it('falls back to the initial value when the stored JSON is corrupt', () => {
+    localStorage.setItem('corrupt', '{not json');
+    const { result } = renderHook(() => useLocalStorage('corrupt', 'fallback'));
+    expect(result.current[0]).toBe('fallback');
+
+    act(() => result.current[1]('fixed'));
+    expect(result.current[0]).toBe('fixed');
+  });
+
+  it('keeps hooks with the same key in sync', () => {
+    const { result: first } = renderHook(() => useLocalStorage('shared', 'a'));
+    const { result: second } = renderHook(() => useLocalStorage('shared', 'a'));
+
+    act(() => first.current[1]('b'));
+    expect(second.current[0]).toBe('b');
+  });
+
+  it('updates on storage events from other tabs', () => {
+    const { result } = renderHook(() => useLocalStorage('theme', 'light'));
+
+    act(() => {
+      // The other tab has already written by the time the event arrives
+      localStorage.setItem('theme', '"dark"');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'theme', newValue: '"dark"' }));
+    });
+    expect(result.current[0]).toBe('dark');
+  });
+
+  it('keeps the value in memory when the write fails', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const { result } = renderHook(() => useLocalStorage('full', 1));
+
+    expect(() => act(() => result.current[1](2))).not.toThrow();
+    expect(result.current[0]).toBe(2);
+    expect(localStorage.getItem('full')).toBeNull();
+
+    act(() => result.current[2]());
+    expect(result.current[0]).toBe(1);
+  });
+
+  it('removes the key and returns to the initial value', () => {
+    const { result } = renderHook(() => useLocalStorage('removable', 'initial'));
+
+    act(() => result.current[1]('stored'));
+    act(() => result.current[2]());
+
+    expect(result.current[0]).toBe('initial');
+    expect(localStorage.getItem('removable')).toBeNull();
+  });
+});
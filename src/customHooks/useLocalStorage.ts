@@ -0,0 +1,90 @@
+import { useCallback, useMemo, useState, useSyncExternalStore, type Dispatch, type SetStateAction } from 'react';
+
+// Same-tab notification; the browser's `storage` event only fires in other tabs
+const LOCAL_STORAGE_EVENT = 'local-storage-change';
+
+// Values whose write failed (storage full or disabled) so the UI still updates this session
+const memoryFallback = new Map<string, string>();
+
+function readRaw(key: string): string | null {
+  if (memoryFallback.has(key)) {
+    return memoryFallback.get(key) ?? null;
+  }
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function parse<T>(raw: string | null, fallback: T): T {
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    // Written by something else, or corrupted - treat as missing
+    return fallback;
+  }
+}
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener('storage', onChange);
+  window.addEventListener(LOCAL_STORAGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('storage', onChange);
+    window.removeEventListener(LOCAL_STORAGE_EVENT, onChange);
+  };
+}
+
+function notify(): void {
+  window.dispatchEvent(new Event(LOCAL_STORAGE_EVENT));
+}
+
+/**
+ * useState that persists to localStorage as JSON.
+ *
+ * Every component using the same key stays in sync, in this tab and in other
+ * tabs. Unreadable values fall back to `initialValue`, and failed writes are
+ * kept in memory for the session instead of throwing. Returns the value, a
+ * setter with the same signature as useState's, and a function that removes
+ * the key.
+ */
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T
+): [T, Dispatch<SetStateAction<T>>, () => void] {
+  // Only the first initial value counts, like useState; inline objects would otherwise re-parse every render
+  const [fallback] = useState(initialValue);
+
+  // The raw string is a stable snapshot; parsing it here would create a new object on every read
+  const raw = useSyncExternalStore(subscribe, () => readRaw(key), () => null);
+  const value = useMemo(() => parse(raw, fallback), [raw, fallback]);
+
+  const setValue = useCallback<Dispatch<SetStateAction<T>>>(
+    (action) => {
+      const previous = parse(readRaw(key), fallback);
+      const next = typeof action === 'function' ? (action as (prev: T) => T)(previous) : action;
+      const serialized = JSON.stringify(next);
+      try {
+        localStorage.setItem(key, serialized);
+        memoryFallback.delete(key);
+      } catch {
+        memoryFallback.set(key, serialized);
+      }
+      notify();
+    },
+    [key, fallback]
+  );
+
+  const removeValue = useCallback(() => {
+    memoryFallback.delete(key);
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Storage unavailable - nothing stored to remove
+    }
+    notify();
+  }, [key]);
+
+  return [value, setValue, removeValue];
+}
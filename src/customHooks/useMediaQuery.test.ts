@@ -0,0 +1,77 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMediaQuery } from './useMediaQuery';
+
+/**
+ * Minimal MediaQueryList whose match state tests can flip; jsdom has no matchMedia
+ */
+class FakeMediaQueryList extends EventTarget {
+  constructor(
+    public readonly media: string,
+    public matches: boolean
+  ) {
+    super();
+  }
+
+  change(matches: boolean): void {
+    this.matches = matches;
+    this.dispatchEvent(new Event('change'));
+  }
+}
+
+describe('useMediaQuery', () => {
+  let queries: Map<string, FakeMediaQueryList>;
+
+  beforeEach(() => {
+    queries = new Map();
+    vi.stubGlobal('matchMedia', (query: string) => {
+      if (!queries.has(query)) {
+        queries.set(query, new FakeMediaQueryList(query, false));
+      }
+      return queries.get(query);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns whether the query currently matches', () => {
+    queries.set('(min-width: 768px)', new FakeMediaQueryList('(min-width: 768px)', true));
+    const { result } = renderHook(() => useMediaQuery('(min-width: 768px)'));
+    expect(result.current).toBe(true);
+  });
+
+  it('updates on change events', () => {
+    const { result } = renderHook(() => useMediaQuery('(prefers-color-scheme: dark)'));
+    expect(result.current).toBe(false);
+
+    act(() => queries.get('(prefers-color-scheme: dark)')?.change(true));
+    expect(result.current).toBe(true);
+
+    act(() => queries.get('(prefers-color-scheme: dark)')?.change(false));
+    expect(result.current).toBe(false);
+  });
+
+  it('follows a new query and ignores the old one', () => {
+    const { result, rerender } = renderHook(({ query }) => useMediaQuery(query), {
+      initialProps: { query: '(min-width: 768px)' },
+    });
+
+    rerender({ query: '(min-width: 1024px)' });
+    act(() => queries.get('(min-width: 768px)')?.change(true));
+    expect(result.current).toBe(false);
+
+    act(() => queries.get('(min-width: 1024px)')?.change(true));
+    expect(result.current).toBe(true);
+  });
+
+  it('stops listening on unmount', () => {
+    const { unmount } = renderHook(() => useMediaQuery('(orientation: portrait)'));
+    const mediaQueryList = queries.get('(orientation: portrait)');
+    const removeSpy = vi.spyOn(mediaQueryList as FakeMediaQueryList, 'removeEventListener');
+
+    unmount();
+    expect(removeSpy).toHaveBeenCalledWith('change', expect.any(Function));
+  });
+});
@@ -0,0 +1,24 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+/**
+ * Whether a CSS media query currently matches, updated when it changes.
+ *
+ * `serverFallback` is used while server rendering and hydrating, where there
+ * is no window to ask.
+ */
+export function useMediaQuery(query: string, serverFallback = false): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const mediaQueryList = window.matchMedia(query);
+      mediaQueryList.addEventListener('change', onChange);
+      return () => mediaQueryList.removeEventListener('change', onChange);
+    },
+    [query]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(query).matches,
+    () => serverFallback
+  );
+}
@@ -0,0 +1,46 @@
+import { renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { usePrevious } from './usePrevious';
+
+describe('usePrevious', () => {
+  it('is undefined until the value changes', () => {
+    const { result } = renderHook(() => usePrevious(1));
+    expect(result.current).toBeUndefined();
+  });
+
+  it('returns the previous distinct value', () => {
+    const { result, rerender } = renderHook(({ value }) => usePrevious(value), {
+      initialProps: { value: 'a' },
+    });
+
+    rerender({ value: 'b' });
+    expect(result.current).toBe('a');
+
+    rerender({ value: 'c' });
+    expect(result.current).toBe('b');
+  });
+
+  it('keeps the previous value when re-rendered with the same value', () => {
+    const { result, rerender } = renderHook(({ value }) => usePrevious(value), {
+      initialProps: { value: 1 },
+    });
+
+    rerender({ value: 2 });
+    rerender({ value: 2 });
+    rerender({ value: 2 });
+    expect(result.current).toBe(1);
+  });
+
+  it('compares with Object.is', () => {
+    const { result, rerender } = renderHook(({ value }) => usePrevious(value), {
+      initialProps: { value: NaN },
+    });
+
+    rerender({ value: NaN });
+    expect(result.current).toBeUndefined();
+
+    rerender({ value: 0 });
+    rerender({ value: -0 });
+    expect(result.current).toBe(0);
+  });
+});
@@ -0,0 +1,22 @@
+import { useState } from 'react';
+
+/**
+ * The value this hook received before the current one, or undefined until it changes once.
+ *
+ * Tracks the previous *distinct* value: re-rendering with the same value keeps
+ * the old one. State is adjusted during render instead of copying into a ref in
+ * an effect, so the result never lags a render behind and is safe to read
+ * during concurrent rendering.
+ */
+export function usePrevious<T>(value: T): T | undefined {
+  const [current, setCurrent] = useState(value);
+  const [previous, setPrevious] = useState<T | undefined>(undefined);
+
+  if (!Object.is(current, value)) {
+    // React re-runs this render immediately with the updated state
+    setPrevious(current);
+    setCurrent(value);
+  }
+
+  return previous;
+}
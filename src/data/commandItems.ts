@@ -0,0 +1,43 @@
+import { hookRegistry } from './hookRegistry';
+import { hooksList } from './hooksList';
+import type { CommandItem } from '../types';
+
+/**
+ * Palette entries for every hook page and every item in its
+ * "Common Mistakes" and "Performance Considerations" lists.
+ * The hash targets the list item's id on the hook page.
+ */
+export const contentCommands: CommandItem[] = hooksList.flatMap((hook) => {
+  const { commonMistakes, performanceConsiderations } = hookRegistry[hook.id].content;
+
+  return [
+    {
+      id: `hook-${hook.id}`,
+      kind: 'hook',
+      icon: hook.icon,
+      title: hook.name,
+      subtitle: hook.description,
+      to: hook.path,
+    },
+    ...commonMistakes.map(
+      (mistake, index): CommandItem => ({
+        id: `mistake-${hook.id}-${index + 1}`,
+        kind: 'mistake',
+        icon: '⚠️',
+        title: mistake,
+        subtitle: hook.name,
+        to: `${hook.path}#mistake-${index + 1}`,
+      })
+    ),
+    ...performanceConsiderations.map(
+      (consideration, index): CommandItem => ({
+        id: `consideration-${hook.id}-${index + 1}`,
+        kind: 'consideration',
+        icon: '⚡',
+        title: consideration,
+        subtitle: hook.name,
+        to: `${hook.path}#consideration-${index + 1}`,
+      })
+    ),
+  ];
+});
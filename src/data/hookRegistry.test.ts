@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { hookRegistry } from './hookRegistry';
+import type { HookId } from '../types';
+
+describe('hookRegistry', () => {
+  it.each(Object.keys(hookRegistry) as HookId[])('%s declares the number of exercises it loads', async (hookId) => {
+    const { exerciseCount, loadExercises } = hookRegistry[hookId];
+    const exercises = await loadExercises();
+
+    expect(exercises).toHaveLength(exerciseCount);
+  });
+});
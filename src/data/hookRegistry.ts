@@ -0,0 +1,304 @@
+import type { ComponentType } from 'react';
+import { useStateContent } from '../content/useState';
+import { useEffectContent } from '../content/useEffect';
+import { useLayoutEffectContent } from '../content/useLayoutEffect';
+import { useReducerContent } from '../content/useReducer';
+import { useSyncExternalStoreContent } from '../content/useSyncExternalStore';
+import { useRefContent } from '../content/useRef';
+import { useImperativeHandleContent } from '../content/useImperativeHandle';
+import { useMemoContent } from '../content/useMemo';
+import { useCallbackContent } from '../content/useCallback';
+import { useContextContent } from '../content/useContext';
+import { useTransitionContent } from '../content/useTransition';
+import { useIdContent } from '../content/useId';
+import { useDebugValueContent } from '../content/useDebugValue';
+import { usePreviousContent } from '../content/usePrevious';
+import { useDebounceContent } from '../content/useDebounce';
+import { useLocalStorageContent } from '../content/useLocalStorage';
+import { useIntervalContent } from '../content/useInterval';
+import { useEventListenerContent } from '../content/useEventListener';
+import { useMediaQueryContent } from '../content/useMediaQuery';
+import { lazyWithRetry } from '../utils/lazyWithRetry';
+import type { HookId, HookRegistryEntry } from '../types';
+
+/**
+ * Lazily loaded playground page
+ */
+function lazyPlayground(
+  load: () => Promise<{ default: ComponentType }>
+): Pick<HookRegistryEntry, 'load' | 'Component'> {
+  return { load, Component: lazyWithRetry(load) };
+}
+
+/**
+ * Every hook page in sidebar order. The router, sidebar, home page and 404 page
+ * are generated from this object, and HookCard reads each page's text from it.
+ */
+export const hookRegistry: Record<HookId, HookRegistryEntry> = {
+  useState: {
+    info: {
+      description: 'State management fundamentals for functional components',
+      category: 'state',
+      path: '/hooks/use-state',
+      icon: '📦',
+    },
+    content: useStateContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useState').then((module) => module.useStateExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useStatePlayground').then((module) => ({ default: module.UseStatePlayground }))
+    ),
+  },
+  useEffect: {
+    info: {
+      description: 'Handle side effects and lifecycle events',
+      category: 'effect',
+      path: '/hooks/use-effect',
+      icon: '⚡',
+    },
+    content: useEffectContent,
+    exerciseCount: 2,
+    loadExercises: () => import('../exercises/useEffect').then((module) => module.useEffectExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useEffectPlayground').then((module) => ({ default: module.UseEffectPlayground }))
+    ),
+  },
+  useLayoutEffect: {
+    info: {
+      description: 'Measure and adjust the DOM before the browser paints',
+      category: 'effect',
+      path: '/hooks/use-layout-effect',
+      icon: '📐',
+    },
+    content: useLayoutEffectContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useLayoutEffect').then((module) => module.useLayoutEffectExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useLayoutEffectPlayground').then((module) => ({ default: module.UseLayoutEffectPlayground }))
+    ),
+  },
+  useReducer: {
+    info: {
+      description: 'Complex state logic with reducer pattern',
+      category: 'state',
+      path: '/hooks/use-reducer',
+      icon: '🔄',
+    },
+    content: useReducerContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useReducer').then((module) => module.useReducerExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useReducerPlayground').then((module) => ({ default: module.UseReducerPlayground }))
+    ),
+  },
+  useSyncExternalStore: {
+    info: {
+      description: 'Subscribe to stores and browser APIs outside React',
+      category: 'state',
+      path: '/hooks/use-sync-external-store',
+      icon: '🔌',
+    },
+    content: useSyncExternalStoreContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useSyncExternalStore').then((module) => module.useSyncExternalStoreExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useSyncExternalStorePlayground').then((module) => ({ default: module.UseSyncExternalStorePlayground }))
+    ),
+  },
+  useRef: {
+    info: {
+      description: 'Access DOM elements and persist mutable values',
+      category: 'ref',
+      path: '/hooks/use-ref',
+      icon: '🎯',
+    },
+    content: useRefContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useRef').then((module) => module.useRefExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useRefPlayground').then((module) => ({ default: module.UseRefPlayground }))
+    ),
+  },
+  useImperativeHandle: {
+    info: {
+      description: 'Expose a custom handle from a child with forwardRef',
+      category: 'ref',
+      path: '/hooks/use-imperative-handle',
+      icon: '🎮',
+    },
+    content: useImperativeHandleContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useImperativeHandle').then((module) => module.useImperativeHandleExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useImperativeHandlePlayground').then((module) => ({ default: module.UseImperativeHandlePlayground }))
+    ),
+  },
+  useMemo: {
+    info: {
+      description: 'Memoize expensive computations',
+      category: 'memoization',
+      path: '/hooks/use-memo',
+      icon: '🧠',
+    },
+    content: useMemoContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useMemo').then((module) => module.useMemoExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useMemoPlayground').then((module) => ({ default: module.UseMemoPlayground }))
+    ),
+  },
+  useCallback: {
+    info: {
+      description: 'Memoize callback functions',
+      category: 'memoization',
+      path: '/hooks/use-callback',
+      icon: '🔗',
+    },
+    content: useCallbackContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useCallback').then((module) => module.useCallbackExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useCallbackPlayground').then((module) => ({ default: module.UseCallbackPlayground }))
+    ),
+  },
+  useContext: {
+    info: {
+      description: 'Consume context without prop drilling',
+      category: 'context',
+      path: '/hooks/use-context',
+      icon: '🌐',
+    },
+    content: useContextContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useContext').then((module) => module.useContextExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useContextPlayground').then((module) => ({ default: module.UseContextPlayground }))
+    ),
+  },
+  useTransition: {
+    info: {
+      description: 'Keep input responsive with transitions and useDeferredValue',
+      category: 'concurrency',
+      path: '/hooks/use-transition',
+      icon: '🚦',
+    },
+    content: useTransitionContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useTransition').then((module) => module.useTransitionExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useTransitionPlayground').then((module) => ({ default: module.UseTransitionPlayground }))
+    ),
+  },
+  useId: {
+    info: {
+      description: 'Generate stable ids for accessibility attributes',
+      category: 'utility',
+      path: '/hooks/use-id',
+      icon: '🏷️',
+    },
+    content: useIdContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useId').then((module) => module.useIdExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useIdPlayground').then((module) => ({ default: module.UseIdPlayground }))
+    ),
+  },
+  useDebugValue: {
+    info: {
+      description: 'Label custom hooks in React DevTools',
+      category: 'utility',
+      path: '/hooks/use-debug-value',
+      icon: '🐞',
+    },
+    content: useDebugValueContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useDebugValue').then((module) => module.useDebugValueExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useDebugValuePlayground').then((module) => ({ default: module.UseDebugValuePlayground }))
+    ),
+  },
+  usePrevious: {
+    info: {
+      description: 'Remember the previous distinct value',
+      category: 'custom',
+      path: '/hooks/use-previous',
+      icon: '⏮️',
+    },
+    content: usePreviousContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/usePrevious').then((module) => module.usePreviousExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/usePreviousPlayground').then((module) => ({ default: module.UsePreviousPlayground }))
+    ),
+  },
+  useDebounce: {
+    info: {
+      description: 'Wait for a value to settle before using it',
+      category: 'custom',
+      path: '/hooks/use-debounce',
+      icon: '⏳',
+    },
+    content: useDebounceContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useDebounce').then((module) => module.useDebounceExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useDebouncePlayground').then((module) => ({ default: module.UseDebouncePlayground }))
+    ),
+  },
+  useLocalStorage: {
+    info: {
+      description: 'useState persisted to localStorage and synced across tabs',
+      category: 'custom',
+      path: '/hooks/use-local-storage',
+      icon: '💾',
+    },
+    content: useLocalStorageContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useLocalStorage').then((module) => module.useLocalStorageExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useLocalStoragePlayground').then((module) => ({ default: module.UseLocalStoragePlayground }))
+    ),
+  },
+  useInterval: {
+    info: {
+      description: 'Declarative setInterval without stale closures',
+      category: 'custom',
+      path: '/hooks/use-interval',
+      icon: '⏱️',
+    },
+    content: useIntervalContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useInterval').then((module) => module.useIntervalExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useIntervalPlayground').then((module) => ({ default: module.UseIntervalPlayground }))
+    ),
+  },
+  useEventListener: {
+    info: {
+      description: 'Attach event listeners with automatic cleanup',
+      category: 'custom',
+      path: '/hooks/use-event-listener',
+      icon: '👂',
+    },
+    content: useEventListenerContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useEventListener').then((module) => module.useEventListenerExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useEventListenerPlayground').then((module) => ({ default: module.UseEventListenerPlayground }))
+    ),
+  },
+  useMediaQuery: {
+    info: {
+      description: 'React to CSS media queries in components',
+      category: 'custom',
+      path: '/hooks/use-media-query',
+      icon: '📱',
+    },
+    content: useMediaQueryContent,
+    exerciseCount: 1,
+    loadExercises: () => import('../exercises/useMediaQuery').then((module) => module.useMediaQueryExercises),
+    ...lazyPlayground(() =>
+      import('../hooks/useMediaQueryPlayground').then((module) => ({ default: module.UseMediaQueryPlayground }))
+    ),
+  },
+};
@@ -1,66 +1,14 @@
-import type { HookInfo } from '../types';
+import { hookRegistry } from './hookRegistry';
+import type { HookId, HookInfo } from '../types';
 
 /**
- * List of all available hooks in the playground
+ * List of all available hooks in the playground, derived from the registry
  */
-export const hooksList: HookInfo[] = [
-  {
-    id: 'useState',
-    name: 'useState',
-    description: 'State management fundamentals for functional components',
-    category: 'state',
-    path: '/hooks/use-state',
-    icon: '📦',
-  },
-  {
-    id: 'useEffect',
-    name: 'useEffect',
-    description: 'Handle side effects and lifecycle events',
-    category: 'effect',
-    path: '/hooks/use-effect',
-    icon: '⚡',
-  },
-  {
-    id: 'useReducer',
-    name: 'useReducer',
-    description: 'Complex state logic with reducer pattern',
-    category: 'state',
-    path: '/hooks/use-reducer',
-    icon: '🔄',
-  },
-  {
-    id: 'useRef',
-    name: 'useRef',
-    description: 'Access DOM elements and persist mutable values',
-    category: 'ref',
-    path: '/hooks/use-ref',
-    icon: '🎯',
-  },
-  {
-    id: 'useMemo',
-    name: 'useMemo',
-    description: 'Memoize expensive computations',
-    category: 'memoization',
-    path: '/hooks/use-memo',
-    icon: '🧠',
-  },
-  {
-    id: 'useCallback',
-    name: 'useCallback',
-    description: 'Memoize callback functions',
-    category: 'memoization',
-    path: '/hooks/use-callback',
-    icon: '🔗',
-  },
-  {
-    id: 'useContext',
-    name: 'useContext',
-    description: 'Consume context without prop drilling',
-    category: 'context',
-    path: '/hooks/use-context',
-    icon: '🌐',
-  },
-];
+export const hooksList: HookInfo[] = (Object.keys(hookRegistry) as HookId[]).map((id) => ({
+  id,
+  name: id,
+  ...hookRegistry[id].info,
+}));
 
 /**
  * Get hook info by ID
@@ -85,4 +33,7 @@ export const categoryLabels: Record<HookInfo['category'], string> = {
   ref: 'References',
   memoization: 'Memoization',
   context: 'Context',
+  concurrency: 'Concurrent Rendering',
+  utility: 'Utilities',
+  custom: 'Custom Hooks',
 };
@@ -0,0 +1,84 @@
+import { hookRegistry } from './hookRegistry';
+import { hooksList } from './hooksList';
+import { createCodeSnippet, createTextSnippet, findTerms, getSearchTerms } from '../utils/textSearch';
+import type { SearchEntry, SearchResult, SearchSection } from '../types';
+
+// Prose sections rank above matches that only occur in code
+const sectionWeights: Record<SearchSection, number> = {
+  description: 3,
+  whatItDoes: 2,
+  mistake: 2,
+  consideration: 2,
+  code: 1,
+};
+
+// Repeated occurrences stop adding to the score after this many
+const MAX_COUNTED_OCCURRENCES = 5;
+
+// Searching for a hook's name ranks that hook's own page first
+const HOOK_NAME_BONUS = 10;
+
+/**
+ * Every piece of text shown on the hook pages, with a link to where it appears
+ */
+export const searchIndex: SearchEntry[] = hooksList.flatMap((hook) => {
+  const { description, whatItDoes, commonMistakes, performanceConsiderations, codeExample } =
+    hookRegistry[hook.id].content;
+
+  return [
+    { id: `${hook.id}-description`, hookId: hook.id, section: 'description', text: description, to: hook.path },
+    {
+      id: `${hook.id}-what-it-does`,
+      hookId: hook.id,
+      section: 'whatItDoes',
+      text: whatItDoes,
+      to: `${hook.path}#what-it-does`,
+    },
+    ...commonMistakes.map(
+      (mistake, index): SearchEntry => ({
+        id: `${hook.id}-mistake-${index + 1}`,
+        hookId: hook.id,
+        section: 'mistake',
+        position: index + 1,
+        text: mistake,
+        to: `${hook.path}#mistake-${index + 1}`,
+      })
+    ),
+    ...performanceConsiderations.map(
+      (consideration, index): SearchEntry => ({
+        id: `${hook.id}-consideration-${index + 1}`,
+        hookId: hook.id,
+        section: 'consideration',
+        position: index + 1,
+        text: consideration,
+        to: `${hook.path}#consideration-${index + 1}`,
+      })
+    ),
+    { id: `${hook.id}-code`, hookId: hook.id, section: 'code', text: codeExample, to: `${hook.path}?tab=code` },
+  ];
+});
+
+/**
+ * Entries containing every word of the query, best matches first
+ */
+export function searchContent(query: string): SearchResult[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const entry of searchIndex) {
+    const ranges = findTerms(entry.text, terms);
+    if (!ranges) continue;
+
+    const hookName = entry.hookId.toLowerCase();
+    const nameBonus = terms.some((term) => hookName.includes(term)) ? HOOK_NAME_BONUS : 0;
+
+    results.push({
+      entry,
+      score: sectionWeights[entry.section] * (10 + Math.min(ranges.length, MAX_COUNTED_OCCURRENCES)) + nameBonus,
+      snippet: entry.section === 'code' ? createCodeSnippet(entry.text, ranges) : createTextSnippet(entry.text, ranges),
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
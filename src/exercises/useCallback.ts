@@ -0,0 +1,69 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useCallback, useRef, useState } from 'react';
+
+const fruits = ['Apple', 'Banana', 'Cherry'];
+
+function FruitList({ onSelect }: { onSelect: (fruit: string) => void }) {
+  const renders = useRef(0);
+  renders.current += 1;
+
+  return (
+    <div>
+      {fruits.map((fruit) => (
+        <button key={fruit} onClick={() => onSelect(fruit)}>
+          {fruit}
+        </button>
+      ))}
+      <p>List renders: {renders.current}</p>
+    </div>
+  );
+}
+
+export default function FruitPicker() {
+  const [selected, setSelected] = useState('none');
+  const [note, setNote] = useState('');
+
+  const handleSelect = useCallback((fruit: string) => setSelected(fruit), []);
+
+  return (
+    <div>
+      <input aria-label="Note" value={note} onChange={(e) => setNote(e.target.value)} />
+      <p>Selected: {selected}</p>
+      <FruitList onSelect={handleSelect} />
+    </div>
+  );
+}
+`;
+
+export const useCallbackExercises: Exercise[] = [
+  {
+    id: 'memo-the-child',
+    title: 'Make the stable callback pay off',
+    mistake: 1,
+    instructions:
+      'handleSelect is already wrapped in useCallback, yet typing a note still re-renders the list on every keystroke. A stable function only helps when the child skips renders whose props are unchanged.',
+    starterCode,
+    tests: [
+      {
+        name: 'Selecting a fruit shows it',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Cherry'));
+          await t.waitFor(() => t.getByText('Selected: Cherry'));
+        },
+      },
+      {
+        name: 'Typing a note does not re-render the list',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Note'), 'a');
+          t.type(t.getField('Note'), 'ab');
+          t.type(t.getField('Note'), 'abc');
+          await t.waitFor(() => t.assert(t.getField('Note').value === 'abc', 'The note did not update'));
+          t.getByText('List renders: 1');
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,54 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { createContext, useContext, useState } from 'react';
+
+type Theme = 'light' | 'dark';
+
+const ThemeContext = createContext<Theme>('light');
+
+function Toolbar() {
+  const theme = useContext(ThemeContext);
+  return <p>Toolbar theme: {theme}</p>;
+}
+
+export default function App() {
+  const [theme, setTheme] = useState<Theme>('light');
+
+  return (
+    <div>
+      <button onClick={() => setTheme((prev) => (prev === 'light' ? 'dark' : 'light'))}>Toggle theme</button>
+      <p>App theme: {theme}</p>
+      <Toolbar />
+    </div>
+  );
+}
+`;
+
+export const useContextExercises: Exercise[] = [
+  {
+    id: 'provide-the-theme',
+    title: 'Provide the theme',
+    mistake: 1,
+    instructions:
+      'The app keeps the theme in state, but the toolbar always shows "light": without a Provider above it, useContext falls back to the default value passed to createContext.',
+    starterCode,
+    tests: [
+      {
+        name: 'Toolbar starts light',
+        run: async (t) => {
+          await t.render();
+          t.getByText('Toolbar theme: light');
+        },
+      },
+      {
+        name: 'Toolbar follows the toggle',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Toggle theme'));
+          await t.waitFor(() => t.getByText('App theme: dark'));
+          await t.waitFor(() => t.getByText('Toolbar theme: dark'));
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,63 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+
+export default function SearchBox() {
+  const [query, setQuery] = useState('');
+  const timer = useRef<number>();
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(() => setQuery(value), 300);
+  };
+
+  return (
+    <div>
+      <input aria-label="Search" value={query} onChange={handleChange} />
+      <p>{query ? \`Results for "\${query}"\` : 'Type to search'}</p>
+    </div>
+  );
+}
+`;
+
+export const useDebounceExercises: Exercise[] = [
+  {
+    id: 'debounce-the-search',
+    title: 'Debounce the search, not the typing',
+    mistake: 1,
+    instructions:
+      'The input is bound to the debounced value, so every keystroke disappears until the user stops typing. Keep the input immediate and debounce a copy of the text for the results, e.g. with a small useDebounce hook.',
+    starterCode,
+    tests: [
+      {
+        name: 'The input shows typed text immediately',
+        run: async (t) => {
+          await t.render();
+          const input = t.getField('Search');
+          t.type(input, 'react');
+          await t.wait(20);
+          t.assert(input.value === 'react', `Right after typing, the input showed "${input.value}"`);
+        },
+      },
+      {
+        name: 'Waits for a pause before searching',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Search'), 'react');
+          await t.wait(100);
+          t.assert(t.queryByText(/^Results for/) === null, 'Searched before the user stopped typing');
+        },
+      },
+      {
+        name: 'Searches once the user stops typing',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Search'), 'react');
+          await t.waitFor(() => t.getByText('Results for "react"'));
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,60 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useDebugValue, useState } from 'react';
+
+let formatCalls = 0;
+
+function formatSavedAt(date: Date): string {
+  formatCalls += 1;
+  return \`Saved at \${date.toLocaleTimeString()}\`;
+}
+
+function useLastSaved() {
+  const [savedAt, setSavedAt] = useState(() => new Date());
+  useDebugValue(formatSavedAt(savedAt));
+  return { savedAt, save: () => setSavedAt(new Date()) };
+}
+
+export default function SaveButton() {
+  const { savedAt, save } = useLastSaved();
+
+  return (
+    <div>
+      <button onClick={save}>Save</button>
+      <p>Last saved at {savedAt.toLocaleTimeString()}</p>
+      <p>Labels formatted: {formatCalls}</p>
+    </div>
+  );
+}
+`;
+
+export const useDebugValueExercises: Exercise[] = [
+  {
+    id: 'lazy-debug-label',
+    title: 'Format the label only when DevTools asks',
+    mistake: 2,
+    instructions:
+      'useLastSaved formats its DevTools label on every render, even though nobody is looking at it. Keep the label, but let React call the formatter only when the hook is inspected.',
+    starterCode,
+    tests: [
+      {
+        name: 'Shows the save time',
+        run: async (t) => {
+          await t.render();
+          t.getByText(/^Last saved at /);
+        },
+      },
+      {
+        name: 'Rendering does not format the label',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Save'));
+          await t.wait(20);
+          t.click(t.getButton('Save'));
+          await t.wait(20);
+          t.getByText('Labels formatted: 0');
+        },
+      },
+    ],
+  },
+];
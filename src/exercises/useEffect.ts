@@ -0,0 +1,134 @@
+import type { Exercise } from '../types';
+
+const tickerStarterCode = `import { useEffect, useState } from 'react';
+
+function Ticker() {
+  const [ticks, setTicks] = useState(0);
+
+  useEffect(() => {
+    setInterval(() => {
+      setTicks((prev) => prev + 1);
+    }, 100);
+  }, []);
+
+  return <p>Ticks: {ticks}</p>;
+}
+
+export default function TickerToggle() {
+  const [visible, setVisible] = useState(true);
+
+  return (
+    <div>
+      <button onClick={() => setVisible((prev) => !prev)}>{visible ? 'Hide' : 'Show'}</button>
+      {visible && <Ticker />}
+    </div>
+  );
+}
+`;
+
+const profileStarterCode = `import { useEffect, useState } from 'react';
+
+const names: Record<number, string> = { 1: 'Ada', 2: 'Grace', 3: 'Linus' };
+
+// Grace's profile is slow to load
+function fetchUserName(id: number): Promise<string> {
+  return new Promise((resolve) => setTimeout(() => resolve(names[id]), id === 2 ? 300 : 50));
+}
+
+export default function UserProfile() {
+  const [userId, setUserId] = useState(1);
+  const [name, setName] = useState('Loading...');
+
+  useEffect(() => {
+    fetchUserName(userId).then(setName);
+  }, []);
+
+  return (
+    <div>
+      <select aria-label="User" value={userId} onChange={(e) => setUserId(Number(e.target.value))}>
+        <option value={1}>User 1</option>
+        <option value={2}>User 2</option>
+        <option value={3}>User 3</option>
+      </select>
+      <p>Name: {name}</p>
+    </div>
+  );
+}
+`;
+
+export const useEffectExercises: Exercise[] = [
+  {
+    id: 'ticker-cleanup',
+    title: 'Stop the ticker when it is hidden',
+    mistake: 3,
+    instructions:
+      'Hiding the ticker unmounts it, but its interval keeps running, and every time it is shown again another one starts. Return a cleanup function from the effect.',
+    starterCode: tickerStarterCode,
+    tests: [
+      {
+        name: 'Ticks while shown',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText(/^Ticks: [1-9]/));
+        },
+      },
+      {
+        name: 'Hiding stops the interval',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Hide'));
+          await t.waitFor(() => t.assert(t.activeIntervals() === 0, `${t.activeIntervals()} interval(s) still running`));
+        },
+      },
+      {
+        name: 'Showing again runs exactly one interval',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Hide'));
+          await t.waitFor(() => t.getButton('Show'));
+          t.click(t.getButton('Show'));
+          await t.waitFor(() => t.getByText(/^Ticks: [1-9]/));
+          t.assert(t.activeIntervals() === 1, `Expected 1 running interval, found ${t.activeIntervals()}`);
+        },
+      },
+    ],
+  },
+  {
+    id: 'user-profile-dependencies',
+    title: 'Load the selected user',
+    mistake: 1,
+    instructions:
+      'The profile only ever loads user 1: the effect reads `userId` but its dependency array is empty. Fix the dependencies, then make sure a slow response for a user you already left does not overwrite the current one (common mistake #5).',
+    starterCode: profileStarterCode,
+    tests: [
+      {
+        name: 'Shows the first user',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText('Name: Ada'));
+        },
+      },
+      {
+        name: 'Loads the user you select',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText('Name: Ada'));
+          t.select(t.getField<HTMLSelectElement>('User'), '3');
+          await t.waitFor(() => t.getByText('Name: Linus'));
+        },
+      },
+      {
+        name: 'Ignores a slow response for a previous user',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText('Name: Ada'));
+          t.select(t.getField<HTMLSelectElement>('User'), '2');
+          await t.wait(20);
+          t.select(t.getField<HTMLSelectElement>('User'), '3');
+          await t.wait(450);
+          t.getByText('Name: Linus');
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,76 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useEffect, useState } from 'react';
+
+export default function KeyLogger() {
+  const [keys, setKeys] = useState<string[]>([]);
+  const [enabled, setEnabled] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) return;
+    window.addEventListener('keydown', (event) => {
+      setKeys((prev) => [...prev, event.key]);
+    });
+  }, [enabled]);
+
+  return (
+    <div>
+      <button onClick={() => setEnabled((prev) => !prev)}>{enabled ? 'Pause' : 'Resume'}</button>
+      <p>Keys: {keys.join(' ') || 'none'}</p>
+    </div>
+  );
+}
+`;
+
+export const useEventListenerExercises: Exercise[] = [
+  {
+    id: 'remove-key-listener',
+    title: 'Remove the listener you added',
+    mistake: 1,
+    instructions:
+      'The effect adds a keydown listener to window but never removes it: pausing does not stop the logging, and resuming logs every key twice. Remove the same listener in the cleanup.',
+    starterCode,
+    tests: [
+      {
+        name: 'Logs a key press',
+        run: async (t) => {
+          await t.render();
+          t.pressKey('a');
+          await t.waitFor(() => t.getByText('Keys: a'));
+        },
+      },
+      {
+        name: 'Pausing stops logging',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Pause'));
+          await t.waitFor(() => t.getButton('Resume'));
+          t.pressKey('b');
+          await t.wait(50);
+          t.getByText('Keys: none');
+        },
+      },
+      {
+        name: 'Resuming logs each key once',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Pause'));
+          await t.waitFor(() => t.getButton('Resume'));
+          t.click(t.getButton('Resume'));
+          await t.waitFor(() => t.getButton('Pause'));
+          t.pressKey('c');
+          await t.waitFor(() => t.getByText(/^Keys: c/));
+          t.getByText('Keys: c');
+        },
+      },
+      {
+        name: 'Unmounting removes the listener',
+        run: async (t) => {
+          await t.render();
+          t.unmount();
+          t.assert(t.activeListeners('keydown') === 0, `${t.activeListeners('keydown')} keydown listener(s) left on window`);
+        },
+      },
+    ],
+  },
+];
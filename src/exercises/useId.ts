@@ -0,0 +1,55 @@
+import type { Exercise } from '../types';
+
+const starterCode = `function EmailField({ label }: { label: string }) {
+  return (
+    <div>
+      <label htmlFor="email">{label}</label>
+      <input id="email" type="email" />
+    </div>
+  );
+}
+
+export default function SignupForm() {
+  return (
+    <form>
+      <EmailField label="Work email" />
+      <EmailField label="Personal email" />
+    </form>
+  );
+}
+`;
+
+export const useIdExercises: Exercise[] = [
+  {
+    id: 'unique-field-ids',
+    title: 'Give every field its own id',
+    mistake: 5,
+    instructions:
+      'EmailField hard-codes id="email", so with two fields on the page both labels point at the first input: clicking "Personal email" focuses the work email. Generate the id per instance.',
+    starterCode,
+    tests: [
+      {
+        name: 'Every input has a unique id',
+        run: async (t) => {
+          await t.render();
+          const ids = t.queryAll('input').map((input) => input.id);
+          t.assert(ids.every(Boolean), 'Every input needs an id');
+          t.assert(new Set(ids).size === ids.length, `Duplicate ids: ${ids.join(', ')}`);
+        },
+      },
+      {
+        name: 'Each label points at its own input',
+        run: async (t) => {
+          await t.render();
+          t.assert(t.getField('Work email') !== t.getField('Personal email'), 'Both labels resolve to the same input');
+          for (const label of t.queryAll('label') as HTMLLabelElement[]) {
+            t.assert(
+              label.control === label.parentElement?.querySelector('input'),
+              `The "${label.textContent}" label does not point at the input next to it`
+            );
+          }
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,86 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+
+type NameInputHandle = { getValue: () => string; clear: () => void };
+
+const NameInput = forwardRef<NameInputHandle>(function NameInput(_props, ref) {
+  const [value, setValue] = useState('');
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      getValue: () => value,
+      clear: () => setValue(''),
+    }),
+    []
+  );
+
+  return <input aria-label="Name" value={value} onChange={(e) => setValue(e.target.value)} />;
+});
+
+export default function GreetingForm() {
+  const inputRef = useRef<NameInputHandle>(null);
+  const [greeting, setGreeting] = useState('');
+
+  const greet = () => {
+    setGreeting(\`Hello, \${inputRef.current?.getValue()}!\`);
+    inputRef.current?.clear();
+  };
+
+  return (
+    <div>
+      <NameInput ref={inputRef} />
+      <button onClick={greet}>Greet</button>
+      <p>{greeting}</p>
+    </div>
+  );
+}
+`;
+
+export const useImperativeHandleExercises: Exercise[] = [
+  {
+    id: 'handle-dependencies',
+    title: 'Read the current value through the handle',
+    mistake: 2,
+    instructions:
+      'The handle is created once with empty dependencies, so getValue keeps returning the value from the first render and the greeting says "Hello, !". Recreate the handle when the value it reads changes.',
+    starterCode,
+    tests: [
+      {
+        name: 'Greets with the typed name',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Name'), 'Ada');
+          await t.waitFor(() => t.assert(t.getField('Name').value === 'Ada', 'The input did not update'));
+          t.click(t.getButton('Greet'));
+          await t.waitFor(() => t.getByText('Hello, Ada!'));
+        },
+      },
+      {
+        name: 'Clears the input after greeting',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Name'), 'Ada');
+          await t.wait(20);
+          t.click(t.getButton('Greet'));
+          await t.waitFor(() => t.assert(t.getField('Name').value === '', 'The input was not cleared'));
+        },
+      },
+      {
+        name: 'Greets again with a new name',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Name'), 'Ada');
+          await t.wait(20);
+          t.click(t.getButton('Greet'));
+          await t.waitFor(() => t.getByText('Hello, Ada!'));
+          t.type(t.getField('Name'), 'Grace');
+          await t.wait(20);
+          t.click(t.getButton('Greet'));
+          await t.waitFor(() => t.getByText('Hello, Grace!'));
+        },
+      },
+    ],
+  },
+];
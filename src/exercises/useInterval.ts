@@ -0,0 +1,51 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useEffect, useState } from 'react';
+
+export default function Countdown() {
+  const [seconds, setSeconds] = useState(5);
+
+  useEffect(() => {
+    const id = setInterval(() => {
+      if (seconds > 0) setSeconds(seconds - 1);
+    }, 100);
+    return () => clearInterval(id);
+  }, []);
+
+  return <p>{seconds > 0 ? \`\${seconds} left\` : 'Liftoff!'}</p>;
+}
+`;
+
+export const useIntervalExercises: Exercise[] = [
+  {
+    id: 'stale-countdown',
+    title: 'Count all the way down',
+    mistake: 1,
+    instructions:
+      'The countdown goes from 5 to 4 and stops: the interval callback was created in the first render and keeps reading seconds = 5. Read the latest value without restarting the interval on every tick (common mistake #2).',
+    starterCode,
+    tests: [
+      {
+        name: 'Starts at 5',
+        run: async (t) => {
+          await t.render();
+          t.getByText('5 left');
+        },
+      },
+      {
+        name: 'Keeps counting down',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText('2 left'), 800);
+        },
+      },
+      {
+        name: 'Reaches liftoff',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText('Liftoff!'), 1500);
+        },
+      },
+    ],
+  },
+];
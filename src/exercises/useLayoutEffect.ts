@@ -0,0 +1,53 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useEffect, useRef, useState } from 'react';
+
+export default function MeasuredTooltip() {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const [width, setWidth] = useState<number | null>(null);
+
+  useEffect(() => {
+    setWidth(buttonRef.current?.getBoundingClientRect().width ?? 0);
+  }, []);
+
+  return (
+    <div>
+      <button ref={buttonRef}>Hover me for a tip</button>
+      <div role="tooltip" style={{ width: width ?? 'auto' }}>
+        {width === null ? 'Measuring...' : \`Tooltip as wide as the button (\${Math.round(width)}px)\`}
+      </div>
+    </div>
+  );
+}
+`;
+
+export const useLayoutEffectExercises: Exercise[] = [
+  {
+    id: 'measure-before-paint',
+    title: 'Measure before the browser paints',
+    mistake: 2,
+    instructions:
+      'The tooltip measures the button in useEffect, which runs after the browser has painted, so the first frame shows "Measuring..." before it jumps into shape. Measure early enough that the unmeasured state never reaches the screen.',
+    starterCode,
+    tests: [
+      {
+        name: 'Tooltip gets measured',
+        run: async (t) => {
+          await t.render();
+          await t.waitFor(() => t.getByText(/^Tooltip as wide as the button/));
+        },
+      },
+      {
+        name: 'The first painted frame is already measured',
+        run: async (t) => {
+          await t.render();
+          await t.wait(0);
+          t.assert(
+            !t.firstFrameText().includes('Measuring...'),
+            'The first frame still showed "Measuring..." - the measurement ran after paint'
+          );
+        },
+      },
+    ],
+  },
+];
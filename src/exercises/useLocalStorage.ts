@@ -0,0 +1,76 @@
+import type { Exercise } from '../types';
+
+const STORAGE_KEY = 'reacthookstudio-exercise-visits';
+
+const starterCode = `import { useEffect, useState } from 'react';
+
+function useStoredNumber(key: string, initialValue: number) {
+  const [value, setValue] = useState<number>(() => {
+    const stored = localStorage.getItem(key);
+    return stored === null ? initialValue : JSON.parse(stored);
+  });
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value));
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
+
+export default function VisitCounter() {
+  const [visits, setVisits] = useStoredNumber('${STORAGE_KEY}', 0);
+
+  return (
+    <div>
+      <p>Visits: {visits}</p>
+      <button onClick={() => setVisits((prev) => prev + 1)}>Visit</button>
+    </div>
+  );
+}
+`;
+
+export const useLocalStorageExercises: Exercise[] = [
+  {
+    id: 'corrupted-storage',
+    title: 'Survive a corrupted value',
+    mistake: 2,
+    instructions:
+      'If the stored value is not valid JSON, for example after another app or an older version wrote the key, JSON.parse throws and the whole component crashes. Fall back to the initial value instead.',
+    starterCode,
+    tests: [
+      {
+        name: 'Starts from 0 when nothing is stored',
+        run: async (t) => {
+          localStorage.removeItem(STORAGE_KEY);
+          await t.render();
+          t.getByText('Visits: 0');
+        },
+      },
+      {
+        name: 'Restores a stored count',
+        run: async (t) => {
+          localStorage.setItem(STORAGE_KEY, '5');
+          await t.render();
+          t.getByText('Visits: 5');
+        },
+      },
+      {
+        name: 'Saves new counts',
+        run: async (t) => {
+          localStorage.removeItem(STORAGE_KEY);
+          await t.render();
+          t.click(t.getButton('Visit'));
+          await t.waitFor(() => t.assert(localStorage.getItem(STORAGE_KEY) === '1', 'The new count was not saved'));
+        },
+      },
+      {
+        name: 'Falls back to 0 when the stored value is corrupted',
+        run: async (t) => {
+          localStorage.setItem(STORAGE_KEY, '{oops');
+          await t.render();
+          t.getByText('Visits: 0');
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,56 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useState } from 'react';
+
+function useMediaQuery(query: string): boolean {
+  const [matches] = useState(() => window.matchMedia(query).matches);
+  return matches;
+}
+
+export default function ResponsiveLayout() {
+  const isWide = useMediaQuery('(min-width: 800px)');
+
+  return <p>{isWide ? 'Wide layout' : 'Narrow layout'}</p>;
+}
+`;
+
+export const useMediaQueryExercises: Exercise[] = [
+  {
+    id: 'listen-for-changes',
+    title: 'Follow the media query',
+    mistake: 1,
+    instructions:
+      'The hook reads matchMedia once, so resizing the window never switches the layout. Subscribe to the query\'s change event, and unsubscribe when the component unmounts.',
+    starterCode,
+    tests: [
+      {
+        name: 'Starts with the current match',
+        run: async (t) => {
+          t.mockMediaQuery(false);
+          await t.render();
+          t.getByText('Narrow layout');
+        },
+      },
+      {
+        name: 'Switches when the query starts matching',
+        run: async (t) => {
+          const media = t.mockMediaQuery(false);
+          await t.render();
+          media.setMatches(true);
+          await t.waitFor(() => t.getByText('Wide layout'));
+        },
+      },
+      {
+        name: 'Stops listening after unmount',
+        run: async (t) => {
+          const media = t.mockMediaQuery(true);
+          await t.render();
+          await t.wait(20);
+          t.assert(media.listenerCount() > 0, 'The hook never listens for changes');
+          t.unmount();
+          t.assert(media.listenerCount() === 0, `${media.listenerCount()} change listener(s) left after unmount`);
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,71 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useMemo, useState } from 'react';
+
+const products = ['Keyboard', 'Monitor', 'Mouse', 'Laptop', 'Microphone'];
+
+export default function ProductList() {
+  const [query, setQuery] = useState('');
+  const [descending, setDescending] = useState(false);
+
+  const visible = useMemo(() => {
+    const matching = products.filter((name) => name.toLowerCase().includes(query.toLowerCase()));
+    matching.sort((a, b) => (descending ? b.localeCompare(a) : a.localeCompare(b)));
+    return matching;
+  }, [query]);
+
+  return (
+    <div>
+      <input aria-label="Filter" value={query} onChange={(e) => setQuery(e.target.value)} />
+      <button onClick={() => setDescending((prev) => !prev)}>{descending ? 'Z-A' : 'A-Z'}</button>
+      <p>Products: {visible.join(', ')}</p>
+    </div>
+  );
+}
+`;
+
+export const useMemoExercises: Exercise[] = [
+  {
+    id: 'sort-dependencies',
+    title: 'Re-sort when the order changes',
+    mistake: 2,
+    instructions:
+      'Filtering works, but the sort button does nothing: the memoized list reads `descending` without listing it as a dependency, so React keeps returning the cached result.',
+    starterCode,
+    tests: [
+      {
+        name: 'Lists products alphabetically',
+        run: async (t) => {
+          await t.render();
+          t.getByText('Products: Keyboard, Laptop, Microphone, Monitor, Mouse');
+        },
+      },
+      {
+        name: 'Filters by name',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Filter'), 'mo');
+          await t.waitFor(() => t.getByText('Products: Monitor, Mouse'));
+        },
+      },
+      {
+        name: 'The sort button reverses the order',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('A-Z'));
+          await t.waitFor(() => t.getByText('Products: Mouse, Monitor, Microphone, Laptop, Keyboard'));
+        },
+      },
+      {
+        name: 'Sorting and filtering combine',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('A-Z'));
+          await t.waitFor(() => t.getButton('Z-A'));
+          t.type(t.getField('Filter'), 'mo');
+          await t.waitFor(() => t.getByText('Products: Mouse, Monitor'));
+        },
+      },
+    ],
+  },
+];
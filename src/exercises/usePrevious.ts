@@ -0,0 +1,67 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useEffect, useRef, useState } from 'react';
+
+function usePrevious<T>(value: T): T | undefined {
+  const ref = useRef<T>();
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref.current;
+}
+
+export default function PriceTracker() {
+  const [price, setPrice] = useState(100);
+  const [, setRefreshes] = useState(0);
+  const previousPrice = usePrevious(price);
+
+  return (
+    <div>
+      <p>Price: {price}</p>
+      <p>Previous price: {previousPrice ?? 'none'}</p>
+      <button onClick={() => setPrice((prev) => prev + 10)}>Raise price</button>
+      <button onClick={() => setRefreshes((prev) => prev + 1)}>Refresh</button>
+    </div>
+  );
+}
+`;
+
+export const usePreviousExercises: Exercise[] = [
+  {
+    id: 'previous-distinct-value',
+    title: 'Remember the previous price, not the previous render',
+    mistake: 2,
+    instructions:
+      'After raising the price, an unrelated "Refresh" makes the previous price equal the current one, because the ref remembers the last render rather than the last different value. Only move on when the value actually changes.',
+    starterCode,
+    tests: [
+      {
+        name: 'Starts without a previous price',
+        run: async (t) => {
+          await t.render();
+          t.getByText('Previous price: none');
+        },
+      },
+      {
+        name: 'Remembers the price before a raise',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Raise price'));
+          await t.waitFor(() => t.getByText('Price: 110'));
+          t.getByText('Previous price: 100');
+        },
+      },
+      {
+        name: 'An unrelated re-render keeps the previous price',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Raise price'));
+          await t.waitFor(() => t.getByText('Price: 110'));
+          t.click(t.getButton('Refresh'));
+          await t.wait(50);
+          t.getByText('Previous price: 100');
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,97 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useReducer, useState } from 'react';
+
+type Todo = { id: number; text: string; done: boolean };
+type State = { todos: Todo[] };
+type Action = { type: 'add'; text: string } | { type: 'toggle'; id: number };
+
+function reducer(state: State, action: Action): State {
+  switch (action.type) {
+    case 'add':
+      state.todos.push({ id: state.todos.length + 1, text: action.text, done: false });
+      return state;
+    case 'toggle': {
+      const todo = state.todos.find((item) => item.id === action.id);
+      if (todo) todo.done = !todo.done;
+      return state;
+    }
+    default:
+      return state;
+  }
+}
+
+export default function TodoList() {
+  const [state, dispatch] = useReducer(reducer, { todos: [] });
+  const [text, setText] = useState('');
+
+  const add = () => {
+    dispatch({ type: 'add', text });
+    setText('');
+  };
+
+  return (
+    <div>
+      <input aria-label="New todo" value={text} onChange={(e) => setText(e.target.value)} />
+      <button onClick={add}>Add</button>
+      <ul>
+        {state.todos.map((todo) => (
+          <li key={todo.id}>
+            <label>
+              <input type="checkbox" checked={todo.done} onChange={() => dispatch({ type: 'toggle', id: todo.id })} />
+              {todo.text}
+            </label>
+          </li>
+        ))}
+      </ul>
+      <p>{state.todos.filter((todo) => todo.done).length} done</p>
+    </div>
+  );
+}
+`;
+
+export const useReducerExercises: Exercise[] = [
+  {
+    id: 'immutable-todos',
+    title: 'Return new state from the reducer',
+    mistake: 1,
+    instructions:
+      'Adding a todo seems to work only because clearing the input re-renders the list. Toggling does nothing: the reducer mutates the state and returns the same object, so React skips the update. Return new objects and arrays instead.',
+    starterCode,
+    tests: [
+      {
+        name: 'Never mutates state',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('New todo'), 'Write tests');
+          t.click(t.getButton('Add'));
+          await t.waitFor(() => t.getByText('Write tests'));
+          t.click(t.queryAll('input[type="checkbox"]')[0]);
+          await t.wait(50);
+          const paths = t.mutations().map((mutation) => `${mutation.source}: ${mutation.path}`);
+          t.assert(paths.length === 0, `State was mutated (${paths.join(', ')})`);
+        },
+      },
+      {
+        name: 'Adding shows the todo',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('New todo'), 'Buy milk');
+          t.click(t.getButton('Add'));
+          await t.waitFor(() => t.getByText('Buy milk'));
+        },
+      },
+      {
+        name: 'Toggling updates the done count',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('New todo'), 'Buy milk');
+          t.click(t.getButton('Add'));
+          await t.waitFor(() => t.getByText('Buy milk'));
+          t.click(t.queryAll('input[type="checkbox"]')[0]);
+          await t.waitFor(() => t.getByText('1 done'));
+        },
+      },
+    ],
+  },
+];
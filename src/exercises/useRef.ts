@@ -0,0 +1,70 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useState } from 'react';
+
+export default function Stopwatch() {
+  const [ticks, setTicks] = useState(0);
+  let intervalId: number | undefined;
+
+  const start = () => {
+    window.clearInterval(intervalId);
+    intervalId = window.setInterval(() => setTicks((prev) => prev + 1), 50);
+  };
+
+  const stop = () => {
+    window.clearInterval(intervalId);
+  };
+
+  return (
+    <div>
+      <p>Ticks: {ticks}</p>
+      <button onClick={start}>Start</button>
+      <button onClick={stop}>Stop</button>
+    </div>
+  );
+}
+`;
+
+export const useRefExercises: Exercise[] = [
+  {
+    id: 'stopwatch-interval-ref',
+    title: 'Keep hold of the interval',
+    mistake: 5,
+    instructions:
+      'The interval id lives in a plain variable, which starts over as undefined on every render, so "Stop" never finds the running interval. Keep it in a ref, and clear it when the stopwatch unmounts too.',
+    starterCode,
+    tests: [
+      {
+        name: 'Start makes it tick',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Start'));
+          await t.waitFor(() => t.getByText(/^Ticks: [2-9]/));
+        },
+      },
+      {
+        name: 'Stop stops ticking',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Start'));
+          await t.waitFor(() => t.getByText(/^Ticks: [1-9]/));
+          t.click(t.getButton('Stop'));
+          await t.wait(20);
+          const stoppedAt = t.text();
+          await t.wait(200);
+          t.assert(t.text() === stoppedAt, `Kept ticking after Stop: "${stoppedAt}" became "${t.text()}"`);
+        },
+      },
+      {
+        name: 'Unmounting clears the interval',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Start'));
+          await t.waitFor(() => t.getByText(/^Ticks: [1-9]/));
+          t.unmount();
+          t.assert(t.activeIntervals() === 0, `${t.activeIntervals()} interval(s) still running after unmount`);
+        },
+      },
+    ],
+  },
+];
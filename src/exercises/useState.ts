@@ -0,0 +1,58 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useState } from 'react';
+
+export default function Counter() {
+  const [count, setCount] = useState(0);
+
+  const addThree = () => {
+    setCount(count + 1);
+    setCount(count + 1);
+    setCount(count + 1);
+  };
+
+  return (
+    <div>
+      <p>Count: {count}</p>
+      <button onClick={addThree}>+3</button>
+    </div>
+  );
+}
+`;
+
+export const useStateExercises: Exercise[] = [
+  {
+    id: 'add-three',
+    title: 'Make "+3" add three',
+    mistake: 3,
+    instructions:
+      'The "+3" button calls the setter three times, yet the count only goes up by one: every call reads the same `count` from this render. Make each update build on the previous one.',
+    starterCode,
+    tests: [
+      {
+        name: 'Starts at 0',
+        run: async (t) => {
+          await t.render();
+          t.getByText('Count: 0');
+        },
+      },
+      {
+        name: 'One click adds 3',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('+3'));
+          await t.waitFor(() => t.getByText('Count: 3'));
+        },
+      },
+      {
+        name: 'Two clicks add 6',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('+3'));
+          t.click(t.getButton('+3'));
+          await t.waitFor(() => t.getByText('Count: 6'));
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,72 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useSyncExternalStore } from 'react';
+
+type CartState = { items: string[] };
+
+let state: CartState = { items: [] };
+const listeners = new Set<() => void>();
+
+const cartStore = {
+  addItem(item: string) {
+    state.items.push(item);
+    listeners.forEach((listener) => listener());
+  },
+  subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+  getSnapshot() {
+    return state;
+  },
+};
+
+export default function Cart() {
+  const cart = useSyncExternalStore(cartStore.subscribe, cartStore.getSnapshot);
+
+  return (
+    <div>
+      <button onClick={() => cartStore.addItem('Apple')}>Add apple</button>
+      <p>Items in cart: {cart.items.length}</p>
+    </div>
+  );
+}
+`;
+
+export const useSyncExternalStoreExercises: Exercise[] = [
+  {
+    id: 'replace-snapshot',
+    title: 'Replace the snapshot on every change',
+    mistake: 5,
+    instructions:
+      'The store pushes into its items array and notifies subscribers, but getSnapshot keeps returning the same object, so React sees no change and never re-renders. Replace the state object on every update.',
+    starterCode,
+    tests: [
+      {
+        name: 'Starts empty',
+        run: async (t) => {
+          await t.render();
+          t.getByText('Items in cart: 0');
+        },
+      },
+      {
+        name: 'Adding an item updates the count',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Add apple'));
+          await t.waitFor(() => t.getByText('Items in cart: 1'));
+        },
+      },
+      {
+        name: 'Every item is counted',
+        run: async (t) => {
+          await t.render();
+          t.click(t.getButton('Add apple'));
+          t.click(t.getButton('Add apple'));
+          t.click(t.getButton('Add apple'));
+          await t.waitFor(() => t.getByText('Items in cart: 3'));
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,64 @@
+import type { Exercise } from '../types';
+
+const starterCode = `import { useState, useTransition } from 'react';
+import type { ChangeEvent } from 'react';
+
+const items = Array.from({ length: 2000 }, (_, index) => \`Item \${index + 1}\`);
+
+export default function FilterList() {
+  const [text, setText] = useState('');
+  const [query, setQuery] = useState('');
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    startTransition(() => {
+      setText(event.target.value);
+      setQuery(event.target.value);
+    });
+  };
+
+  const filtered = items.filter((item) => item.includes(query));
+
+  return (
+    <div style={{ opacity: isPending ? 0.6 : 1 }}>
+      <input aria-label="Filter items" value={text} onChange={handleChange} />
+      <p>{filtered.length} matches</p>
+      <ul>
+        {filtered.slice(0, 50).map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+`;
+
+export const useTransitionExercises: Exercise[] = [
+  {
+    id: 'urgent-input',
+    title: 'Keep the input responsive',
+    mistake: 1,
+    instructions:
+      "The input's own value is updated inside startTransition, so React treats typing as low priority and puts the old text back until the background render finishes. Only the filtering should be a transition.",
+    starterCode,
+    tests: [
+      {
+        name: 'The input shows typed text immediately',
+        run: async (t) => {
+          await t.render();
+          const input = t.getField('Filter items');
+          t.type(input, 'Item 19');
+          t.assert(input.value === 'Item 19', `Right after typing, the input showed "${input.value}"`);
+        },
+      },
+      {
+        name: 'The list filters',
+        run: async (t) => {
+          await t.render();
+          t.type(t.getField('Filter items'), 'Item 1999');
+          await t.waitFor(() => t.getByText('1 matches'));
+        },
+      },
+    ],
+  },
+];
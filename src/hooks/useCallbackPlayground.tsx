@@ -1,50 +1,7 @@
 import { useState, useCallback, memo } from 'react';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter, InlineRenderCounter } from '../components/RenderCounter';
-
-const codeExample = `import { useCallback, useState, memo } from 'react';
-
-// Memoized child component
-const Button = memo(function Button({
-  onClick,
-  children
-}: {
-  onClick: () => void;
-  children: string;
-}) {
-  console.log('Button rendered:', children);
-  return <button onClick={onClick}>{children}</button>;
-});
-
-function ParentComponent() {
-  const [count, setCount] = useState(0);
-  const [name, setName] = useState('');
-
-  // Without useCallback - new function every render
-  const handleClickBad = () => {
-    setCount(c => c + 1);
-  };
-
-  // With useCallback - same function reference
-  const handleClickGood = useCallback(() => {
-    setCount(c => c + 1);
-  }, []); // Empty deps = never changes
-
-  // useCallback with dependencies
-  const handleGreet = useCallback(() => {
-    alert(\`Hello, \${name}!\`);
-  }, [name]); // Changes when name changes
-
-  return (
-    <div>
-      <Button onClick={handleClickGood}>
-        Increment ({count})
-      </Button>
-      <input value={name} onChange={e => setName(e.target.value)} />
-      <Button onClick={handleGreet}>Greet</Button>
-    </div>
-  );
-}`;
+import { useRenderTrace } from '../instrumentation/renderTrace';
 
 interface ButtonProps {
   onClick: () => void;
@@ -60,6 +17,7 @@ const MemoizedButton = memo(function MemoizedButton({
   children,
   variant = 'primary',
 }: ButtonProps): JSX.Element {
+  const trace = useRenderTrace('MemoizedButton', { onClick, children, variant });
   const baseClasses = 'px-4 py-2 rounded-lg transition-colors font-medium';
   const variantClasses =
     variant === 'primary'
@@ -70,7 +28,7 @@ const MemoizedButton = memo(function MemoizedButton({
     <button type="button" onClick={onClick} className={`${baseClasses} ${variantClasses}`}>
       <span className="flex items-center gap-2">
         {children}
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </span>
     </button>
   );
@@ -88,11 +46,13 @@ const ListItem = memo(function ListItem({
   text: string;
   onDelete: (id: number) => void;
 }): JSX.Element {
+  const trace = useRenderTrace('ListItem', { id, text, onDelete });
+
   return (
     <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-dark-bg rounded-lg">
       <span className="text-gray-800 dark:text-dark-text">{text}</span>
       <div className="flex items-center gap-2">
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
         <button
           type="button"
           onClick={() => onDelete(id)}
@@ -149,26 +109,7 @@ export function UseCallbackPlayground(): JSX.Element {
   }, [nextId]);
 
   return (
-    <HookCard
-      title="useCallback"
-      description="useCallback memoizes callback functions so they maintain the same reference between renders, useful when passing callbacks to optimized child components."
-      whatItDoes="useCallback returns a memoized version of the callback that only changes if one of the dependencies has changed. This is useful when passing callbacks to child components wrapped in React.memo or when a callback is used as a dependency in other hooks."
-      commonMistakes={[
-        'Using useCallback without React.memo on child components (no benefit)',
-        'Adding too many dependencies that change frequently',
-        'Wrapping every function in useCallback (adds overhead)',
-        'Forgetting that inline functions in JSX are recreated each render',
-        'Not understanding the difference between useCallback and useMemo',
-      ]}
-      performanceConsiderations={[
-        'Only useful with memoized children (React.memo)',
-        'The callback caching itself has overhead',
-        'Consider if the child component is expensive to render',
-        'Stable callbacks prevent unnecessary re-renders in optimized children',
-        'useCallback(fn, deps) is equivalent to useMemo(() => fn, deps)',
-      ]}
-      codeExample={codeExample}
-    >
+    <HookCard hookId="useCallback">
       <div className="space-y-6">
         <RenderCounter label="Parent renders" showTimestamp />
 
@@ -1,51 +1,7 @@
 import { createContext, useContext, useState, type ReactNode } from 'react';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter, InlineRenderCounter } from '../components/RenderCounter';
-
-const codeExample = `import { createContext, useContext, useState } from 'react';
-
-// 1. Create context with default value
-interface User {
-  name: string;
-  email: string;
-}
-
-const UserContext = createContext<User | null>(null);
-
-// 2. Create provider component
-function UserProvider({ children }: { children: ReactNode }) {
-  const [user] = useState({ name: 'John', email: 'john@example.com' });
-
-  return (
-    <UserContext.Provider value={user}>
-      {children}
-    </UserContext.Provider>
-  );
-}
-
-// 3. Create custom hook for consuming context
-function useUser() {
-  const context = useContext(UserContext);
-  if (!context) {
-    throw new Error('useUser must be used within UserProvider');
-  }
-  return context;
-}
-
-// 4. Use in components
-function Profile() {
-  const user = useUser();
-  return <p>Hello, {user.name}!</p>;
-}
-
-// 5. Wrap app with provider
-function App() {
-  return (
-    <UserProvider>
-      <Profile />
-    </UserProvider>
-  );
-}`;
+import { useRenderTrace } from '../instrumentation/renderTrace';
 
 // Example context types
 interface UserContextValue {
@@ -122,12 +78,13 @@ function SettingsProvider({ children }: { children: ReactNode }): JSX.Element {
 // Consumer components that demonstrate useContext
 function UserCard(): JSX.Element {
   const user = useExampleUser();
+  const trace = useRenderTrace('UserCard', {}, { ExampleUserContext: user });
 
   return (
     <div className="p-4 bg-gradient-to-r from-primary-500 to-purple-500 rounded-lg text-white">
       <div className="flex items-center justify-between mb-2">
         <h4 className="font-semibold">User Profile</h4>
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </div>
       <p className="text-lg font-medium">{user.name}</p>
       <p className="text-sm opacity-90">{user.email}</p>
@@ -139,14 +96,16 @@ function UserCard(): JSX.Element {
 }
 
 function SettingsPanel(): JSX.Element {
-  const { language, notifications, setLanguage, toggleNotifications } = useSettings();
+  const settings = useSettings();
+  const { language, notifications, setLanguage, toggleNotifications } = settings;
+  const trace = useRenderTrace('SettingsPanel', {}, { SettingsContext: settings });
   const languages = ['English', 'Spanish', 'French', 'German', 'Japanese'];
 
   return (
     <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
       <div className="flex items-center justify-between mb-4">
         <h4 className="font-semibold text-gray-900 dark:text-dark-text">Settings</h4>
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </div>
 
       <div className="space-y-4">
@@ -193,7 +152,9 @@ function SettingsPanel(): JSX.Element {
 }
 
 function DisplaySettings(): JSX.Element {
-  const { language, notifications } = useSettings();
+  const settings = useSettings();
+  const { language, notifications } = settings;
+  const trace = useRenderTrace('DisplaySettings', {}, { SettingsContext: settings });
 
   return (
     <div className="p-4 bg-gray-50 dark:bg-dark-bg rounded-lg">
@@ -201,7 +162,7 @@ function DisplaySettings(): JSX.Element {
         <h4 className="font-semibold text-gray-700 dark:text-dark-text">
           Current Settings (Consumer)
         </h4>
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </div>
       <p className="text-sm text-gray-600 dark:text-dark-muted">
         Language: <strong>{language}</strong>
@@ -216,6 +177,10 @@ function DisplaySettings(): JSX.Element {
 function DeepNestedComponent(): JSX.Element {
   const user = useExampleUser();
   const settings = useSettings();
+  const trace = useRenderTrace('DeepNestedComponent', {}, {
+    ExampleUserContext: user,
+    SettingsContext: settings,
+  });
 
   return (
     <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
@@ -223,7 +188,7 @@ function DeepNestedComponent(): JSX.Element {
         <h4 className="font-semibold text-amber-800 dark:text-amber-300">
           Deep Nested Component
         </h4>
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </div>
       <p className="text-sm text-amber-700 dark:text-amber-400">
         This component is deeply nested but can access context directly without prop drilling!
@@ -240,26 +205,7 @@ function DeepNestedComponent(): JSX.Element {
  */
 export function UseContextPlayground(): JSX.Element {
   return (
-    <HookCard
-      title="useContext"
-      description="useContext lets you subscribe to React context and access shared data without prop drilling."
-      whatItDoes="useContext accepts a context object created by React.createContext and returns the current context value. The value is determined by the nearest Provider above in the tree. When the Provider's value changes, useContext triggers a re-render."
-      commonMistakes={[
-        'Forgetting to wrap the tree with the Provider component',
-        'Using context for state that changes frequently (causes many re-renders)',
-        'Not creating type-safe custom hooks for consuming context',
-        'Putting too much unrelated state in a single context',
-        'Forgetting that all consumers re-render when context value changes',
-      ]}
-      performanceConsiderations={[
-        'Split contexts by update frequency to reduce re-renders',
-        'Use memo or useMemo to stabilize context value objects',
-        'Consider using multiple smaller contexts instead of one large one',
-        'Context is best for infrequently updated global state',
-        'For frequent updates, consider other state management solutions',
-      ]}
-      codeExample={codeExample}
-    >
+    <HookCard hookId="useContext">
       <div className="space-y-6">
         <RenderCounter label="Playground renders" showTimestamp />
 
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import { useDebounce } from '../customHooks/useDebounce';
+
+const DELAY_OPTIONS = [150, 400, 1000];
+
+/**
+ * useDebounce playground component
+ */
+export function UseDebouncePlayground(): JSX.Element {
+  const [query, setQuery] = useState('');
+  const [delay, setDelay] = useState(400);
+  const debouncedQuery = useDebounce(query, delay);
+  const [keystrokes, setKeystrokes] = useState(0);
+  const [searches, setSearches] = useState<string[]>([]);
+
+  // Stands in for a network request: one per debounced value instead of one per keystroke
+  useEffect(() => {
+    if (!debouncedQuery) return;
+    setSearches((prev) => [...prev.slice(-4), debouncedQuery]);
+  }, [debouncedQuery]);
+
+  const reset = (): void => {
+    setQuery('');
+    setKeystrokes(0);
+    setSearches([]);
+  };
+
+  return (
+    <HookCard hookId="useDebounce">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            ⏳ Debounced Search
+          </h3>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <span className="text-sm text-gray-600 dark:text-dark-muted">Delay:</span>
+            {DELAY_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDelay(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-mono transition-colors ${
+                  delay === option
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {option}ms
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setKeystrokes((prev) => prev + 1);
+              }}
+              placeholder="Type a search query..."
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button
+              type="button"
+              onClick={reset}
+              className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">Keystrokes</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">{keystrokes}</p>
+            </div>
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">Debounced value</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text truncate">
+                &quot;{debouncedQuery}&quot;
+              </p>
+            </div>
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">Status</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">
+                {query === debouncedQuery ? 'settled' : 'waiting...'}
+              </p>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-dark-muted mb-2">Simulated requests:</p>
+          {searches.length === 0 ? (
+            <p className="text-sm text-gray-400 dark:text-dark-muted italic">None yet</p>
+          ) : (
+            <ul className="flex flex-wrap gap-2">
+              {searches.map((search, index) => (
+                <li
+                  key={index}
+                  className="px-3 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300 rounded-full text-sm font-mono"
+                >
+                  GET /search?q={search}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </HookCard>
+  );
+}
@@ -0,0 +1,153 @@
+import { useDebugValue, useState } from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+
+interface PasswordStrength {
+  score: number;
+  checks: string[];
+}
+
+const strengthChecks: { label: string; test: (password: string) => boolean }[] = [
+  { label: '8+ characters', test: (password) => password.length >= 8 },
+  { label: 'lowercase', test: (password) => /[a-z]/.test(password) },
+  { label: 'uppercase', test: (password) => /[A-Z]/.test(password) },
+  { label: 'digit', test: (password) => /\d/.test(password) },
+  { label: 'symbol', test: (password) => /[^a-zA-Z\d]/.test(password) },
+];
+
+const strengthLabels = ['empty', 'very weak', 'weak', 'fair', 'good', 'strong'];
+
+function getStrength(password: string): PasswordStrength {
+  const checks = strengthChecks.filter((check) => check.test(password)).map((check) => check.label);
+  return { score: checks.length, checks };
+}
+
+// How often each formatter has run; module-level so reading them doesn't re-render anything
+const formatterCalls = { eager: 0, lazy: 0 };
+
+function formatStrength(strength: PasswordStrength, kind: keyof typeof formatterCalls): string {
+  formatterCalls[kind] += 1;
+  const passed = strength.checks.length ? strength.checks.join(', ') : 'no checks passed';
+  return `${strengthLabels[strength.score]} ${strength.score}/5 (${passed})`;
+}
+
+/**
+ * Formats its debug label on every render, whether or not DevTools is open
+ */
+function useEagerPasswordStrength(password: string): PasswordStrength {
+  const strength = getStrength(password);
+  useDebugValue(formatStrength(strength, 'eager'));
+  return strength;
+}
+
+/**
+ * Passes a formatter that React only calls when DevTools inspects the hook
+ */
+function useLazyPasswordStrength(password: string): PasswordStrength {
+  const strength = getStrength(password);
+  useDebugValue(strength, (value) => formatStrength(value, 'lazy'));
+  return strength;
+}
+
+/**
+ * useDebugValue playground component
+ */
+export function UseDebugValuePlayground(): JSX.Element {
+  const [password, setPassword] = useState('');
+  const [calls, setCalls] = useState({ ...formatterCalls });
+  const [inspected, setInspected] = useState<string | null>(null);
+  const eager = useEagerPasswordStrength(password);
+  const lazy = useLazyPasswordStrength(password);
+
+  // What DevTools does when you select the component: call the formatter with the current value
+  const inspect = (): void => {
+    setInspected(`LazyPasswordStrength: ${formatStrength(lazy, 'lazy')}`);
+    setCalls({ ...formatterCalls });
+  };
+
+  return (
+    <HookCard hookId="useDebugValue">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🔐 usePasswordStrength
+          </h3>
+          <input
+            type="text"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Type a password..."
+            aria-label="Password"
+            className="w-full px-4 py-2 mb-3 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <div className="flex items-center gap-3 mb-2">
+            <meter min={0} max={5} value={eager.score} className="flex-1" />
+            <span className="text-sm font-medium text-gray-700 dark:text-dark-text">
+              {strengthLabels[eager.score]}
+            </span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {strengthChecks.map((check) => (
+              <span
+                key={check.label}
+                className={`px-2 py-0.5 rounded-full text-xs ${
+                  eager.checks.includes(check.label)
+                    ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+                    : 'bg-gray-100 dark:bg-dark-bg text-gray-500 dark:text-dark-muted'
+                }`}
+              >
+                {check.label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+              🐢 Eager vs Lazy Formatting
+            </h3>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setCalls({ ...formatterCalls })}
+                className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                Refresh counts
+              </button>
+              <button
+                type="button"
+                onClick={inspect}
+                className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+              >
+                Inspect like DevTools
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3 mb-3 text-center">
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">useDebugValue(format(value))</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">{calls.eager} calls</p>
+            </div>
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">useDebugValue(value, format)</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">{calls.lazy} calls</p>
+            </div>
+          </div>
+          {inspected && (
+            <p className="mb-3 px-3 py-2 bg-gray-900 rounded-lg font-mono text-sm text-green-400">
+              {inspected}
+            </p>
+          )}
+          <p className="text-sm text-gray-600 dark:text-dark-muted">
+            Type a few characters and refresh the counts: the eager label is built on every render,
+            while the lazy formatter only runs when something inspects the hook. With React DevTools
+            open and this component selected, the lazy count grows too.
+          </p>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
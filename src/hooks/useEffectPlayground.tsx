@@ -1,88 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useState, useSyncExternalStore } from 'react';
+import { EffectTimeline } from '../components/EffectTimeline';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter } from '../components/RenderCounter';
-import type { DependencyItem } from '../types';
+import {
+  createEffectTimeline,
+  useTrackedEffect,
+  type EffectTimeline as EffectTimelineStore,
+} from '../instrumentation/effectTimeline';
 
-const codeExample = `import { useEffect, useState } from 'react';
+// Swimlanes shown in the timeline, one per tracked effect below
+const trackedEffects = ['count', 'document.title', 'timer'];
 
-function DataFetcher({ userId }: { userId: string }) {
-  const [data, setData] = useState(null);
-
-  // Effect with dependency array
-  useEffect(() => {
-    // Side effect: fetch data
-    fetchUser(userId).then(setData);
-
-    // Cleanup function (optional)
-    return () => {
-      // Cancel pending requests, unsubscribe, etc.
-      cancelRequest();
-    };
-  }, [userId]); // Only re-run when userId changes
-
-  // Effect that runs once on mount
-  useEffect(() => {
-    document.title = 'User Profile';
-
-    return () => {
-      document.title = 'App'; // Cleanup on unmount
-    };
-  }, []); // Empty array = run once
-
-  // Effect that runs on every render (rarely needed)
-  useEffect(() => {
-    // Runs after every render
-  }); // No dependency array
-
-  return <div>{data ? data.name : 'Loading...'}</div>;
-}`;
+interface EffectDemoProps {
+  timeline: EffectTimelineStore;
+}
 
 /**
- * useEffect playground component with dependency visualizer
+ * Component whose effects are tracked; can be unmounted to show unmount cleanup
  */
-export function UseEffectPlayground(): JSX.Element {
+function EffectDemo({ timeline }: EffectDemoProps): JSX.Element {
   const [count, setCount] = useState(0);
   const [name, setName] = useState('React');
-  const [effectLog, setEffectLog] = useState<string[]>([]);
-  const [dependencies, setDependencies] = useState<DependencyItem[]>([]);
   const [seconds, setSeconds] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
 
-  // Effect with count dependency
-  useEffect(() => {
-    const timestamp = new Date().toLocaleTimeString();
-    setEffectLog((prev) => [
-      ...prev.slice(-4),
-      `[${timestamp}] Effect ran! Count is now: ${count}`,
-    ]);
-
-    setDependencies([
-      {
-        name: 'count',
-        value: String(count),
-        hasChanged: true,
-      },
-    ]);
-
-    // Cleanup
-    return () => {
-      setDependencies((prev) =>
-        prev.map((d) => (d.name === 'count' ? { ...d, hasChanged: false } : d))
-      );
-    };
-  }, [count]);
+  // Effect with count dependency - nothing external to sync, the timeline shows each run
+  useTrackedEffect(timeline, 'count', () => undefined, [count], ['count']);
 
   // Effect with name dependency
-  useEffect(() => {
+  useTrackedEffect(timeline, 'document.title', () => {
     document.title = `React Hooks Studio - ${name}`;
 
     return () => {
       document.title = 'React Hooks Studio';
     };
-  }, [name]);
+  }, [name], ['name']);
 
   // Timer effect with cleanup
-  useEffect(() => {
+  useTrackedEffect(timeline, 'timer', () => {
     let interval: ReturnType<typeof setInterval> | null = null;
 
     if (isRunning) {
@@ -97,11 +52,7 @@ export function UseEffectPlayground(): JSX.Element {
         clearInterval(interval);
       }
     };
-  }, [isRunning]);
-
-  const clearLog = (): void => {
-    setEffectLog([]);
-  };
+  }, [isRunning], ['isRunning']);
 
   const resetTimer = (): void => {
     setSeconds(0);
@@ -109,162 +60,129 @@ export function UseEffectPlayground(): JSX.Element {
   };
 
   return (
-    <HookCard
-      title="useEffect"
-      description="useEffect lets you synchronize a component with external systems and perform side effects after rendering."
-      whatItDoes="useEffect runs after the component renders. It's used for data fetching, subscriptions, DOM manipulation, and other side effects. The cleanup function runs before the next effect and on unmount."
-      commonMistakes={[
-        'Missing dependencies in the dependency array (use ESLint plugin!)',
-        'Infinite loops from setting state without proper dependencies',
-        'Forgetting cleanup for subscriptions, timers, or event listeners',
-        'Using async directly in useEffect (wrap in inner function instead)',
-        'Fetching data without handling race conditions or component unmount',
-      ]}
-      performanceConsiderations={[
-        'Keep dependency arrays minimal and accurate',
-        'Split unrelated effects into multiple useEffect calls',
-        'Use cleanup functions to prevent memory leaks',
-        'Consider useLayoutEffect for DOM measurements before paint',
-        'Debounce or throttle effects that run frequently',
-      ]}
-      codeExample={codeExample}
-    >
-      <div className="space-y-6">
-        <RenderCounter label="Component renders" showTimestamp />
+    <div className="space-y-6">
+      <RenderCounter label="Component renders" showTimestamp />
+
+      {/* Count Effect */}
+      <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+          📊 Effect with [count]
+        </h3>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => setCount((prev) => prev + 1)}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+          >
+            Increment Count ({count})
+          </button>
+          <p className="text-sm text-gray-600 dark:text-dark-muted">
+            Each change runs the previous cleanup, then the new setup. The other effects skip.
+          </p>
+        </div>
+      </div>
 
-        {/* Dependency Visualizer */}
-        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
-          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
-            📊 Dependency Array Visualizer
-          </h3>
-          <div className="flex flex-wrap gap-2 mb-4">
-            {dependencies.length > 0 ? (
-              dependencies.map((dep) => (
-                <div
-                  key={dep.name}
-                  className={`
-                    px-3 py-2 rounded-lg border-2 transition-all
-                    ${
-                      dep.hasChanged
-                        ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
-                        : 'border-gray-300 dark:border-dark-border bg-gray-50 dark:bg-dark-bg'
-                    }
-                  `}
-                >
-                  <span className="text-xs text-gray-500 dark:text-dark-muted">
-                    {dep.name}
-                  </span>
-                  <p className="font-mono text-sm text-gray-900 dark:text-dark-text">
-                    {dep.value}
-                  </p>
-                  {dep.hasChanged && (
-                    <span className="text-xs text-green-600 dark:text-green-400">
-                      Changed!
-                    </span>
-                  )}
-                </div>
-              ))
-            ) : (
-              <p className="text-sm text-gray-500 dark:text-dark-muted">
-                Update count to see dependency changes
-              </p>
-            )}
-          </div>
+      {/* Document Title Example */}
+      <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+          📄 Document Title Effect
+        </h3>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Change page title..."
+          className="w-full px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <p className="mt-2 text-sm text-gray-600 dark:text-dark-muted">
+          Check the browser tab title!
+        </p>
+      </div>
 
-          <div className="flex items-center gap-4">
+      {/* Timer with Cleanup */}
+      <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+          ⏱️ Timer with Cleanup
+        </h3>
+        <div className="flex items-center gap-4">
+          <span className="text-4xl font-mono font-bold text-gray-900 dark:text-dark-text">
+            {String(Math.floor(seconds / 60)).padStart(2, '0')}:
+            {String(seconds % 60).padStart(2, '0')}
+          </span>
+          <div className="flex gap-2">
             <button
               type="button"
-              onClick={() => setCount((prev) => prev + 1)}
-              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+              onClick={() => setIsRunning((prev) => !prev)}
+              className={`
+                px-4 py-2 rounded-lg transition-colors
+                ${
+                  isRunning
+                    ? 'bg-red-500 hover:bg-red-600 text-white'
+                    : 'bg-green-500 hover:bg-green-600 text-white'
+                }
+              `}
             >
-              Increment Count ({count})
+              {isRunning ? 'Stop' : 'Start'}
             </button>
-          </div>
-        </div>
-
-        {/* Effect Log */}
-        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
-          <div className="flex items-center justify-between mb-3">
-            <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
-              📜 Effect Execution Log
-            </h3>
             <button
               type="button"
-              onClick={clearLog}
-              className="text-xs text-gray-500 hover:text-gray-700 dark:text-dark-muted dark:hover:text-dark-text"
+              onClick={resetTimer}
+              className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
             >
-              Clear
+              Reset
             </button>
           </div>
-          <div className="bg-gray-900 rounded-lg p-3 font-mono text-sm h-32 overflow-y-auto">
-            {effectLog.length > 0 ? (
-              effectLog.map((log, index) => (
-                <div key={index} className="text-green-400">
-                  {log}
-                </div>
-              ))
-            ) : (
-              <p className="text-gray-500">No effects logged yet...</p>
-            )}
-          </div>
         </div>
+        <p className="mt-2 text-sm text-gray-600 dark:text-dark-muted">
+          The cleanup function clears the interval when the component unmounts
+          or when isRunning changes.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Subscribes to the timeline so new events only re-render the timeline itself
+ */
+function TrackedEffectTimeline({ timeline }: EffectDemoProps): JSX.Element {
+  const events = useSyncExternalStore(timeline.subscribe, timeline.getEvents);
 
-        {/* Document Title Example */}
-        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
-          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
-            📄 Document Title Effect
-          </h3>
-          <input
-            type="text"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            placeholder="Change page title..."
-            className="w-full px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
-          />
-          <p className="mt-2 text-sm text-gray-600 dark:text-dark-muted">
-            Check the browser tab title!
+  return <EffectTimeline events={events} effects={trackedEffects} onClear={timeline.clear} />;
+}
+
+/**
+ * useEffect playground component with effect lifecycle timeline
+ */
+export function UseEffectPlayground(): JSX.Element {
+  const [timeline] = useState(createEffectTimeline);
+  const [isDemoMounted, setIsDemoMounted] = useState(true);
+
+  return (
+    <HookCard hookId="useEffect">
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+          <p className="text-sm text-blue-700 dark:text-blue-400">
+            Unmount the component to watch every effect run its cleanup. Mount it again to see fresh setups.
           </p>
+          <button
+            type="button"
+            onClick={() => setIsDemoMounted((prev) => !prev)}
+            className="flex-shrink-0 px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+          >
+            {isDemoMounted ? 'Unmount component' : 'Mount component'}
+          </button>
         </div>
 
-        {/* Timer with Cleanup */}
-        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
-          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
-            ⏱️ Timer with Cleanup
-          </h3>
-          <div className="flex items-center gap-4">
-            <span className="text-4xl font-mono font-bold text-gray-900 dark:text-dark-text">
-              {String(Math.floor(seconds / 60)).padStart(2, '0')}:
-              {String(seconds % 60).padStart(2, '0')}
-            </span>
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setIsRunning((prev) => !prev)}
-                className={`
-                  px-4 py-2 rounded-lg transition-colors
-                  ${
-                    isRunning
-                      ? 'bg-red-500 hover:bg-red-600 text-white'
-                      : 'bg-green-500 hover:bg-green-600 text-white'
-                  }
-                `}
-              >
-                {isRunning ? 'Stop' : 'Start'}
-              </button>
-              <button
-                type="button"
-                onClick={resetTimer}
-                className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-              >
-                Reset
-              </button>
-            </div>
-          </div>
-          <p className="mt-2 text-sm text-gray-600 dark:text-dark-muted">
-            The cleanup function clears the interval when the component unmounts
-            or when isRunning changes.
+        {isDemoMounted ? (
+          <EffectDemo timeline={timeline} />
+        ) : (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-dark-muted border-2 border-dashed border-gray-300 dark:border-dark-border rounded-lg">
+            Component unmounted
           </p>
-        </div>
+        )}
+
+        <TrackedEffectTimeline timeline={timeline} />
       </div>
     </HookCard>
   );
@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import { useEventListener } from '../customHooks/useEventListener';
+
+// Keys kept in the key log
+const MAX_KEYS = 8;
+
+/**
+ * useEventListener playground component
+ */
+export function UseEventListenerPlayground(): JSX.Element {
+  const [keys, setKeys] = useState<string[]>([]);
+  const [position, setPosition] = useState<{ x: number; y: number } | null>(null);
+  const [visibilityChanges, setVisibilityChanges] = useState<string[]>([]);
+  const [onlyLetters, setOnlyLetters] = useState(false);
+  const boxRef = useRef<HTMLDivElement>(null);
+
+  // Reads `onlyLetters` from the latest render without re-attaching the listener
+  useEventListener('keydown', (event) => {
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+    if (onlyLetters && !/^[a-z]$/i.test(event.key)) return;
+    setKeys((prev) => [...prev.slice(-(MAX_KEYS - 1)), event.key === ' ' ? 'Space' : event.key]);
+  });
+
+  useEventListener(
+    'pointermove',
+    (event) => setPosition({ x: Math.round(event.offsetX), y: Math.round(event.offsetY) }),
+    boxRef
+  );
+  useEventListener('pointerleave', () => setPosition(null), boxRef);
+
+  useEventListener(
+    'visibilitychange',
+    () => {
+      const entry = `${document.visibilityState} at ${new Date().toLocaleTimeString()}`;
+      setVisibilityChanges((prev) => [...prev.slice(-4), entry]);
+    },
+    document
+  );
+
+  return (
+    <HookCard hookId="useEventListener">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+              ⌨️ window keydown
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-dark-text">
+              <input
+                type="checkbox"
+                checked={onlyLetters}
+                onChange={(e) => setOnlyLetters(e.target.checked)}
+              />
+              Only letters
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-2 min-h-[2rem]">
+            {keys.length === 0 ? (
+              <p className="text-sm text-gray-400 dark:text-dark-muted italic">Press some keys...</p>
+            ) : (
+              keys.map((key, index) => (
+                <kbd
+                  key={index}
+                  className="px-2 py-1 bg-gray-100 dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded font-mono text-sm text-gray-800 dark:text-dark-text"
+                >
+                  {key}
+                </kbd>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🖱️ pointermove on a ref
+          </h3>
+          <div
+            ref={boxRef}
+            className="h-32 flex items-center justify-center rounded-lg bg-gradient-to-br from-primary-100 to-purple-100 dark:from-primary-900/30 dark:to-purple-900/30 font-mono text-sm text-gray-700 dark:text-dark-text"
+          >
+            {position ? `x: ${position.x}, y: ${position.y}` : 'Move the pointer here'}
+          </div>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            👀 document visibilitychange
+          </h3>
+          {visibilityChanges.length === 0 ? (
+            <p className="text-sm text-gray-400 dark:text-dark-muted italic">
+              Switch to another tab and come back
+            </p>
+          ) : (
+            <ul className="space-y-1 font-mono text-sm text-gray-700 dark:text-dark-text">
+              {visibilityChanges.map((entry, index) => (
+                <li key={index}>{entry}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </HookCard>
+  );
+}
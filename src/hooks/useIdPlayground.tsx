@@ -0,0 +1,234 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { hydrateRoot, type Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+
+interface LabeledFieldProps {
+  label: string;
+  hint: string;
+  type?: string;
+}
+
+/**
+ * Input whose label and hint are paired through ids from useId
+ */
+function LabeledField({ label, hint, type = 'text' }: LabeledFieldProps): JSX.Element {
+  const id = useId();
+  const inputId = `${id}-input`;
+  const hintId = `${id}-hint`;
+
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-dark-bg rounded-lg">
+      <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 dark:text-dark-text mb-1">
+        {label}
+      </label>
+      <input
+        id={inputId}
+        type={type}
+        aria-describedby={hintId}
+        className="w-full px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+      />
+      <p id={hintId} className="mt-1 text-xs text-gray-500 dark:text-dark-muted">
+        {hint}
+      </p>
+      <p className="mt-2 font-mono text-xs text-purple-600 dark:text-purple-400">
+        input#{inputId} aria-describedby=&quot;{hintId}&quot;
+      </p>
+    </div>
+  );
+}
+
+type IdStrategy = 'useId' | 'counter';
+
+// ❌ Module-level counter: keeps counting across renders and environments
+let nextCounterId = 0;
+
+interface IdProbeProps {
+  strategy: IdStrategy;
+  onClientId?: (strategy: IdStrategy, id: string) => void;
+}
+
+function UseIdProbe({ onClientId }: Omit<IdProbeProps, 'strategy'>): JSX.Element {
+  const id = useId();
+  return <ProbeField strategy="useId" id={id} onClientId={onClientId} />;
+}
+
+function CounterProbe({ onClientId }: Omit<IdProbeProps, 'strategy'>): JSX.Element {
+  const [id] = useState(() => `field-${nextCounterId++}`);
+  return <ProbeField strategy="counter" id={id} onClientId={onClientId} />;
+}
+
+function ProbeField({ strategy, id, onClientId }: IdProbeProps & { id: string }): JSX.Element {
+  // Effects never run on the server, so this only reports the id the client computed
+  useEffect(() => {
+    onClientId?.(strategy, id);
+  }, [strategy, id, onClientId]);
+
+  return (
+    <span className="flex items-center gap-2 text-sm">
+      <label htmlFor={id} className="text-gray-700 dark:text-dark-text">
+        {strategy}
+      </label>
+      <input id={id} data-strategy={strategy} readOnly value={id} className="px-2 py-1 font-mono text-xs rounded border border-gray-300 dark:border-dark-border bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text" />
+    </span>
+  );
+}
+
+function ProbeApp({ onClientId }: Omit<IdProbeProps, 'strategy'>): JSX.Element {
+  return (
+    <span className="flex flex-wrap gap-4">
+      <UseIdProbe onClientId={onClientId} />
+      <CounterProbe onClientId={onClientId} />
+    </span>
+  );
+}
+
+type IdResults = Record<IdStrategy, { server: string; client?: string }>;
+
+/**
+ * Renders the probes to an HTML string, then hydrates that HTML in the browser
+ */
+function HydrationDemo(): JSX.Element {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rootRef = useRef<Root | null>(null);
+  const [results, setResults] = useState<IdResults | null>(null);
+
+  // Another root can't unmount while this one is rendering or committing, so wait a tick
+  const unmountLater = (root: Root | null): void => {
+    if (root) window.setTimeout(() => root.unmount());
+  };
+
+  useEffect(() => () => unmountLater(rootRef.current), []);
+
+  const run = (): void => {
+    const container = containerRef.current;
+    if (!container) return;
+    unmountLater(rootRef.current);
+
+    // "Server": only produces HTML, no effects run
+    const html = renderToString(<ProbeApp />);
+    const parsed = document.createElement('div');
+    parsed.innerHTML = html;
+    const serverId = (strategy: IdStrategy): string =>
+      parsed.querySelector(`[data-strategy="${strategy}"]`)?.id ?? '';
+    setResults({
+      useId: { server: serverId('useId') },
+      counter: { server: serverId('counter') },
+    });
+
+    // "Client": hydrate the server HTML and record the ids computed in the browser
+    const hydrationTarget = document.createElement('div');
+    hydrationTarget.innerHTML = html;
+    container.replaceChildren(hydrationTarget);
+    const onClientId = (strategy: IdStrategy, id: string): void => {
+      setResults((prev) => prev && { ...prev, [strategy]: { ...prev[strategy], client: id } });
+    };
+    rootRef.current = hydrateRoot(hydrationTarget, <ProbeApp onClientId={onClientId} />);
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+          🖥️ Server and Client Ids
+        </h3>
+        <button
+          type="button"
+          onClick={run}
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+        >
+          {results ? 'Render and hydrate again' : 'renderToString + hydrateRoot'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-dark-muted mb-4">
+        useId derives ids from the component&apos;s position in the tree, which is the same on the
+        server and in the browser. A global counter depends on how many components rendered before
+        it, so every run drifts further and the hydrated ids no longer match the HTML (React warns
+        about the mismatch in the console).
+      </p>
+      <div ref={containerRef} className="p-3 mb-4 bg-gray-50 dark:bg-dark-bg rounded-lg min-h-[2.5rem]" />
+      {results && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-dark-muted">
+              <th className="py-1 font-medium">Strategy</th>
+              <th className="py-1 font-medium">Server HTML</th>
+              <th className="py-1 font-medium">Client render</th>
+              <th className="py-1 font-medium">Hydration</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-gray-800 dark:text-dark-text">
+            {(Object.keys(results) as IdStrategy[]).map((strategy) => {
+              const { server, client } = results[strategy];
+              return (
+                <tr key={strategy} className="border-t border-gray-100 dark:border-dark-border">
+                  <td className="py-1">{strategy}</td>
+                  <td className="py-1">{server}</td>
+                  <td className="py-1">{client ?? '...'}</td>
+                  <td className="py-1">
+                    {client === undefined ? '' : client === server ? '✅ match' : '❌ mismatch'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * useId playground component
+ */
+export function UseIdPlayground(): JSX.Element {
+  const [fieldCount, setFieldCount] = useState(2);
+
+  return (
+    <HookCard hookId="useId">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+              🏷️ Label and Description Pairing
+            </h3>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setFieldCount((prev) => prev + 1)}
+                className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+              >
+                Add field
+              </button>
+              <button
+                type="button"
+                onClick={() => setFieldCount((prev) => Math.max(1, prev - 1))}
+                className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                Remove field
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-dark-muted mb-4">
+            Every field is the same component, yet each label and hint points at its own input.
+            Click a label to focus its input, or inspect the attributes below.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {Array.from({ length: fieldCount }, (_, index) => (
+              <LabeledField
+                key={index}
+                label={`Field ${index + 1}`}
+                hint={`Hint for field ${index + 1}, read by screen readers`}
+              />
+            ))}
+          </div>
+        </div>
+
+        <HydrationDemo />
+      </div>
+    </HookCard>
+  );
+}
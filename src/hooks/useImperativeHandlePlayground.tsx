@@ -0,0 +1,271 @@
+import {
+  forwardRef,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { EffectTimeline } from '../components/EffectTimeline';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import {
+  createEffectTimeline,
+  type EffectTimeline as EffectTimelineStore,
+} from '../instrumentation/effectTimeline';
+
+type HandleDepsMode = 'none' | 'empty' | 'draft';
+
+/**
+ * Methods the parent can call on the message panel
+ */
+interface MessagePanelHandle {
+  focus: () => void;
+  scrollTo: (position: 'top' | 'bottom') => void;
+  reset: () => void;
+  getDraft: () => string;
+}
+
+interface MessagePanelProps {
+  depsMode: HandleDepsMode;
+  timeline: EffectTimelineStore;
+}
+
+const depsModeLabels: Record<HandleDepsMode, { title: string; description: string }> = {
+  none: {
+    title: 'No dependency array',
+    description: 'The handle is recreated after every render of the panel, including renders caused by the parent.',
+  },
+  empty: {
+    title: '[]',
+    description: 'The handle is created once. Its methods close over the first render, so getDraft() keeps returning the initial draft.',
+  },
+  draft: {
+    title: '[draft]',
+    description: 'The handle is recreated only when the draft changes, so getDraft() always sees the current value.',
+  },
+};
+
+// Swimlanes shown in the timeline, one per dependency mode
+const HANDLE_LANES = (Object.keys(depsModeLabels) as HandleDepsMode[]).map(
+  (mode) => `handle ${depsModeLabels[mode].title}`
+);
+
+const initialMessages = Array.from({ length: 20 }, (_, index) => `Message #${index + 1}`);
+
+const MessagePanel = forwardRef<MessagePanelHandle, MessagePanelProps>(function MessagePanel(
+  { depsMode, timeline },
+  ref
+): JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const [draft, setDraft] = useState('');
+  const [messages, setMessages] = useState(initialMessages);
+  const handleCreatedRef = useRef(false);
+  const hasHandleRef = useRef(false);
+  const previousDraftRef = useRef(draft);
+
+  const deps = depsMode === 'none' ? undefined : depsMode === 'empty' ? [] : [draft];
+
+  useImperativeHandle(
+    ref,
+    () => {
+      handleCreatedRef.current = true;
+      return {
+        focus: () => inputRef.current?.focus(),
+        scrollTo: (position) => {
+          const list = listRef.current;
+          list?.scrollTo({ top: position === 'top' ? 0 : list.scrollHeight, behavior: 'smooth' });
+        },
+        reset: () => {
+          setDraft('');
+          setMessages(initialMessages);
+        },
+        getDraft: () => draft,
+      };
+    },
+    // The dependency array itself is what this demo varies
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    deps
+  );
+
+  // Runs after the handle is attached; logs whether this commit recreated it
+  useLayoutEffect(() => {
+    const created = handleCreatedRef.current;
+    handleCreatedRef.current = false;
+    const isFirst = !hasHandleRef.current;
+    hasHandleRef.current = true;
+
+    timeline.record({
+      effect: `handle ${depsModeLabels[depsMode].title}`,
+      type: created ? 'setup' : 'skip',
+      reason: !created
+        ? 'deps-unchanged'
+        : isFirst
+          ? 'mount'
+          : depsMode === 'none'
+            ? 'every-render'
+            : 'deps-changed',
+      dependencies:
+        depsMode === 'draft'
+          ? [
+              {
+                name: 'draft',
+                value: JSON.stringify(draft),
+                previousValue: JSON.stringify(previousDraftRef.current),
+                hasChanged: previousDraftRef.current !== draft,
+              },
+            ]
+          : [],
+    });
+    previousDraftRef.current = draft;
+  });
+
+  const sendMessage = (event: React.FormEvent): void => {
+    event.preventDefault();
+    if (!draft.trim()) return;
+    setMessages((prev) => [...prev, draft.trim()]);
+    setDraft('');
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-dark-bg rounded-lg border border-gray-200 dark:border-dark-border">
+      <p className="text-xs font-mono text-gray-500 dark:text-dark-muted mb-2">&lt;MessagePanel ref=&#123;panelRef&#125; /&gt;</p>
+      <ul ref={listRef} className="h-40 overflow-y-auto space-y-1 mb-3">
+        {messages.map((message, index) => (
+          <li
+            key={index}
+            className="px-3 py-1 bg-white dark:bg-dark-card rounded text-sm text-gray-700 dark:text-dark-text"
+          >
+            {message}
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={sendMessage} className="flex gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type a message..."
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+});
+
+/**
+ * Subscribes to the timeline so new events only re-render the timeline itself
+ */
+function HandleTimeline({ timeline }: { timeline: EffectTimelineStore }): JSX.Element {
+  const events = useSyncExternalStore(timeline.subscribe, timeline.getEvents);
+
+  return <EffectTimeline events={events} effects={HANDLE_LANES} onClear={timeline.clear} />;
+}
+
+/**
+ * useImperativeHandle and forwardRef playground component
+ */
+export function UseImperativeHandlePlayground(): JSX.Element {
+  const [timeline] = useState(createEffectTimeline);
+  const [depsMode, setDepsMode] = useState<HandleDepsMode>('draft');
+  const [draftReadout, setDraftReadout] = useState<string | null>(null);
+  const [parentRenders, setParentRenders] = useState(0);
+  const panelRef = useRef<MessagePanelHandle>(null);
+
+  const handleActions: { label: string; run: () => void }[] = [
+    { label: 'focus()', run: () => panelRef.current?.focus() },
+    { label: "scrollTo('top')", run: () => panelRef.current?.scrollTo('top') },
+    { label: "scrollTo('bottom')", run: () => panelRef.current?.scrollTo('bottom') },
+    { label: 'reset()', run: () => panelRef.current?.reset() },
+    {
+      label: 'getDraft()',
+      run: () => setDraftReadout(panelRef.current?.getDraft() ?? null),
+    },
+  ];
+
+  return (
+    <HookCard hookId="useImperativeHandle">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🎮 Parent Drives the Child
+          </h3>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {(Object.keys(depsModeLabels) as HandleDepsMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => {
+                  setDepsMode(option);
+                  setDraftReadout(null);
+                }}
+                className={`px-3 py-1.5 rounded-lg text-sm font-mono transition-colors ${
+                  depsMode === option
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {depsModeLabels[option].title}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 dark:text-dark-muted mb-4">
+            {depsModeLabels[depsMode].description}
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {handleActions.map((action) => (
+              <button
+                key={action.label}
+                type="button"
+                onClick={action.run}
+                className="px-3 py-1.5 bg-purple-500 text-white rounded-lg text-sm font-mono hover:bg-purple-600 transition-colors"
+              >
+                panelRef.current.{action.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setParentRenders((prev) => prev + 1)}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg text-sm hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              Re-render parent ({parentRenders})
+            </button>
+          </div>
+
+          {draftReadout !== null && (
+            <p className="mb-4 px-3 py-2 bg-gray-900 rounded-lg font-mono text-sm text-green-400">
+              getDraft() returned {JSON.stringify(draftReadout)}
+            </p>
+          )}
+
+          {/* Remounted per mode: the length of the dependency array can't change between renders */}
+          <MessagePanel key={depsMode} ref={panelRef} depsMode={depsMode} timeline={timeline} />
+        </div>
+
+        <HandleTimeline timeline={timeline} />
+
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+          <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-300 mb-2">
+            💡 Reading the timeline
+          </h3>
+          <ul className="text-sm text-blue-700 dark:text-blue-400 space-y-1">
+            <li>• A setup marks a commit where React built a new handle object</li>
+            <li>• A skip marks a commit where ref.current kept the previous handle</li>
+            <li>• Type in the panel, then call getDraft() with [] and with [draft]</li>
+          </ul>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import { useInterval } from '../customHooks/useInterval';
+
+const DELAY_OPTIONS = [100, 500, 1000];
+
+/**
+ * setInterval in an effect with an empty dependency array, for comparison
+ */
+function NaiveTicker({ step }: { step: number }): JSX.Element {
+  const [total, setTotal] = useState(0);
+
+  useEffect(() => {
+    // ❌ `total` and `step` are frozen at their first-render values
+    const intervalId = setInterval(() => setTotal(total + step), 500);
+    return () => clearInterval(intervalId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return <span className="font-mono font-bold text-gray-900 dark:text-dark-text">{total}</span>;
+}
+
+function IntervalTicker({ step }: { step: number }): JSX.Element {
+  const [total, setTotal] = useState(0);
+
+  useInterval(() => setTotal(total + step), 500);
+
+  return <span className="font-mono font-bold text-gray-900 dark:text-dark-text">{total}</span>;
+}
+
+/**
+ * useInterval playground component
+ */
+export function UseIntervalPlayground(): JSX.Element {
+  const [ticks, setTicks] = useState(0);
+  const [delay, setDelay] = useState(1000);
+  const [isRunning, setIsRunning] = useState(true);
+  const [step, setStep] = useState(1);
+  const [runId, setRunId] = useState(0);
+
+  useInterval(() => setTicks(ticks + 1), isRunning ? delay : null);
+
+  return (
+    <HookCard hookId="useInterval">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            ⏱️ Adjustable Interval
+          </h3>
+          <p className="text-4xl font-bold font-mono text-center text-gray-900 dark:text-dark-text mb-4">
+            {ticks}
+          </p>
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            {DELAY_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDelay(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-mono transition-colors ${
+                  delay === option
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {option}ms
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setIsRunning((prev) => !prev)}
+              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              {isRunning ? 'Pause (delay = null)' : 'Resume'}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+              🧊 Stale Closures
+            </h3>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setStep((prev) => prev + 1)}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+              >
+                Step: {step}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setStep(1);
+                  setRunId((prev) => prev + 1);
+                }}
+                className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                Restart
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-center">
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+              <p className="text-xs text-red-600 dark:text-red-400 mb-1">setInterval in useEffect(..., [])</p>
+              <NaiveTicker key={runId} step={step} />
+            </div>
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
+              <p className="text-xs text-green-600 dark:text-green-400 mb-1">useInterval</p>
+              <IntervalTicker key={runId} step={step} />
+            </div>
+          </div>
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Both add <code className="font-mono">step</code> to their total every 500ms. The naive
+            version captured total = 0 and step = 1 on mount, so it is stuck at 1; useInterval calls the
+            latest callback and picks up step changes immediately.
+          </p>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
@@ -0,0 +1,312 @@
+import {
+  useCallback,
+  useEffect,
+  useInsertionEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { EffectTimeline } from '../components/EffectTimeline';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import {
+  createEffectTimeline,
+  type EffectTimeline as EffectTimelineStore,
+} from '../instrumentation/effectTimeline';
+import type { EffectEvent } from '../types';
+
+type EffectHook = 'useEffect' | 'useLayoutEffect';
+
+// Milliseconds of busy work per tooltip render, so the useEffect flicker is visible
+const SLOW_RENDER_MS = 150;
+
+const ORDER_EFFECTS = ['useInsertionEffect', 'useLayoutEffect', 'useEffect'];
+
+interface AnchorRect {
+  top: number;
+  bottom: number;
+  left: number;
+}
+
+interface TooltipProps {
+  anchor: AnchorRect;
+  isSlow: boolean;
+  children: React.ReactNode;
+}
+
+function blockFor(ms: number): void {
+  const start = performance.now();
+  while (performance.now() - start < ms) {
+    // Artificially slow render
+  }
+}
+
+/**
+ * Above the anchor when it fits, otherwise below. Before the height is
+ * measured the tooltip sits right on top of the anchor.
+ */
+function getTooltipTop(anchor: AnchorRect, height: number): number {
+  const top = anchor.top - height - 8;
+  return top < 0 ? anchor.bottom + 8 : top;
+}
+
+interface TooltipBoxProps {
+  boxRef: React.RefObject<HTMLDivElement>;
+  anchor: AnchorRect;
+  top: number;
+  children: React.ReactNode;
+}
+
+function TooltipBox({ boxRef, anchor, top, children }: TooltipBoxProps): JSX.Element {
+  return (
+    <div
+      ref={boxRef}
+      role="tooltip"
+      className="absolute z-10 max-w-[14rem] px-3 py-2 rounded-lg bg-gray-900 text-white text-xs shadow-lg pointer-events-none"
+      style={{ top, left: anchor.left }}
+    >
+      {children}
+    </div>
+  );
+}
+
+// Measures in useEffect: the first, wrongly placed frame gets painted
+function TooltipWithEffect({ anchor, isSlow, children }: TooltipProps): JSX.Element {
+  const ref = useRef<HTMLDivElement>(null);
+  const [height, setHeight] = useState(0);
+  if (isSlow) blockFor(SLOW_RENDER_MS);
+
+  useEffect(() => {
+    setHeight(ref.current?.getBoundingClientRect().height ?? 0);
+  }, []);
+
+  return (
+    <TooltipBox boxRef={ref} anchor={anchor} top={getTooltipTop(anchor, height)}>
+      {children}
+    </TooltipBox>
+  );
+}
+
+// Measures in useLayoutEffect: the correction happens before the browser paints
+function TooltipWithLayoutEffect({ anchor, isSlow, children }: TooltipProps): JSX.Element {
+  const ref = useRef<HTMLDivElement>(null);
+  const [height, setHeight] = useState(0);
+  if (isSlow) blockFor(SLOW_RENDER_MS);
+
+  useLayoutEffect(() => {
+    setHeight(ref.current?.getBoundingClientRect().height ?? 0);
+  }, []);
+
+  return (
+    <TooltipBox boxRef={ref} anchor={anchor} top={getTooltipTop(anchor, height)}>
+      {children}
+    </TooltipBox>
+  );
+}
+
+const tooltipTargets = [
+  { label: 'Near the top', tip: 'No room above me, so I flip below my button once my height is known.' },
+  { label: 'Hover me', tip: 'I start on top of the button and move above it after measuring.' },
+  { label: 'Or me', tip: 'With useLayoutEffect you never see where I started.' },
+];
+
+/**
+ * Tooltip positioning demo comparing useEffect and useLayoutEffect
+ */
+function TooltipDemo(): JSX.Element {
+  const [hook, setHook] = useState<EffectHook>('useEffect');
+  const [isSlow, setIsSlow] = useState(true);
+  const [active, setActive] = useState<{ index: number; anchor: AnchorRect } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const show = (index: number, element: HTMLElement): void => {
+    const container = containerRef.current?.getBoundingClientRect();
+    const rect = element.getBoundingClientRect();
+    if (!container) return;
+    setActive({
+      index,
+      anchor: {
+        top: rect.top - container.top,
+        bottom: rect.bottom - container.top,
+        left: rect.left - container.left,
+      },
+    });
+  };
+
+  const Tooltip = hook === 'useEffect' ? TooltipWithEffect : TooltipWithLayoutEffect;
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+          💬 Tooltip Positioning
+        </h3>
+        <div className="flex items-center gap-2">
+          {(['useEffect', 'useLayoutEffect'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setHook(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-mono transition-colors ${
+                hook === option
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text hover:bg-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-sm text-gray-600 dark:text-dark-muted cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isSlow}
+          onChange={(e) => setIsSlow(e.target.checked)}
+          className="w-4 h-4 rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+        />
+        Slow down tooltip renders by {SLOW_RENDER_MS}ms to make the flicker easy to see
+      </label>
+
+      <div ref={containerRef} className="relative pt-2 pb-16 bg-gray-50 dark:bg-dark-bg rounded-lg">
+        <div className="flex flex-col items-start gap-14 px-4">
+          {tooltipTargets.map((target, index) => (
+            <button
+              key={target.label}
+              type="button"
+              onPointerEnter={(e) => show(index, e.currentTarget)}
+              onPointerLeave={() => setActive(null)}
+              onFocus={(e) => show(index, e.currentTarget)}
+              onBlur={() => setActive(null)}
+              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              {target.label}
+            </button>
+          ))}
+        </div>
+        {active && (
+          // Keyed so each hover mounts a fresh tooltip that has to measure itself again
+          <Tooltip key={`${hook}-${active.index}`} anchor={active.anchor} isSlow={isSlow}>
+            {tooltipTargets[active.index].tip}
+          </Tooltip>
+        )}
+      </div>
+
+      <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+        {hook === 'useEffect'
+          ? 'useEffect runs after paint: you briefly see the tooltip covering the button before it jumps into place.'
+          : 'useLayoutEffect runs before paint: React re-renders with the measured height before the browser shows anything.'}
+      </p>
+    </div>
+  );
+}
+
+interface OrderProbeProps {
+  record: (event: Omit<EffectEvent, 'id' | 'timestamp'>) => void;
+  renderId: number;
+}
+
+/**
+ * Logs every insertion, layout and passive effect run in order
+ */
+function OrderProbe({ record, renderId }: OrderProbeProps): JSX.Element {
+  const hue = (renderId * 67) % 360;
+
+  // Injects the swatch color before layout effects could measure it
+  useInsertionEffect(() => {
+    record({ effect: 'useInsertionEffect', type: 'setup', reason: 'every-render', dependencies: [] });
+    const style = document.createElement('style');
+    style.textContent = `.order-probe-swatch { background: hsl(${hue} 80% 60%); }`;
+    document.head.appendChild(style);
+    return () => {
+      record({ effect: 'useInsertionEffect', type: 'cleanup', reason: 'before-rerun', dependencies: [] });
+      style.remove();
+    };
+  });
+
+  useLayoutEffect(() => {
+    record({ effect: 'useLayoutEffect', type: 'setup', reason: 'every-render', dependencies: [] });
+    return () => {
+      record({ effect: 'useLayoutEffect', type: 'cleanup', reason: 'before-rerun', dependencies: [] });
+    };
+  });
+
+  useEffect(() => {
+    record({ effect: 'useEffect', type: 'setup', reason: 'every-render', dependencies: [] });
+    return () => {
+      record({ effect: 'useEffect', type: 'cleanup', reason: 'before-rerun', dependencies: [] });
+    };
+  });
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="order-probe-swatch w-8 h-8 rounded-lg border border-gray-200 dark:border-dark-border" />
+      <span className="text-sm text-gray-600 dark:text-dark-muted">Render #{renderId}</span>
+    </div>
+  );
+}
+
+function OrderTimeline({ timeline }: { timeline: EffectTimelineStore }): JSX.Element {
+  const events = useSyncExternalStore(timeline.subscribe, timeline.getEvents);
+
+  return <EffectTimeline events={events} effects={ORDER_EFFECTS} onClear={timeline.clear} />;
+}
+
+/**
+ * useLayoutEffect and useInsertionEffect playground component
+ */
+export function UseLayoutEffectPlayground(): JSX.Element {
+  const [timeline] = useState(createEffectTimeline);
+  const [renderId, setRenderId] = useState(1);
+  const pendingRef = useRef<Omit<EffectEvent, 'id' | 'timestamp'>[]>([]);
+
+  // Insertion effects must not schedule updates, so events are queued and flushed after the commit
+  const record = useCallback(
+    (event: Omit<EffectEvent, 'id' | 'timestamp'>) => {
+      pendingRef.current.push(event);
+      if (pendingRef.current.length === 1) {
+        queueMicrotask(() => {
+          const pending = pendingRef.current;
+          pendingRef.current = [];
+          pending.forEach(timeline.record);
+        });
+      }
+    },
+    [timeline]
+  );
+
+  return (
+    <HookCard hookId="useLayoutEffect">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <TooltipDemo />
+
+        {/* Execution order */}
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🔢 Execution Order
+          </h3>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <OrderProbe record={record} renderId={renderId} />
+            <button
+              type="button"
+              onClick={() => setRenderId((prev) => prev + 1)}
+              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              Re-render probe
+            </button>
+          </div>
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Each commit runs insertion effects first, then layout cleanups and setups before paint,
+            and passive useEffect cleanups and setups after paint.
+          </p>
+        </div>
+
+        <OrderTimeline timeline={timeline} />
+      </div>
+    </HookCard>
+  );
+}
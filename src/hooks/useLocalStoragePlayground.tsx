@@ -0,0 +1,130 @@
+import { HookCard } from '../components/HookCard';
+import { InlineRenderCounter, RenderCounter } from '../components/RenderCounter';
+import { useLocalStorage } from '../customHooks/useLocalStorage';
+
+const COUNT_KEY = 'reacthookstudio-demo-count';
+const SETTINGS_KEY = 'reacthookstudio-demo-settings';
+
+interface DemoSettings {
+  nickname: string;
+  compact: boolean;
+}
+
+const defaultSettings: DemoSettings = { nickname: '', compact: false };
+
+function SharedCounter({ label }: { label: string }): JSX.Element {
+  const [count, setCount, removeCount] = useLocalStorage(COUNT_KEY, 0);
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-3 py-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+      <span className="text-sm text-gray-700 dark:text-dark-text">
+        {label}: <strong className="font-mono">{count}</strong>
+      </span>
+      <div className="flex items-center gap-2">
+        <InlineRenderCounter />
+        <button
+          type="button"
+          onClick={() => setCount((prev) => prev + 1)}
+          className="px-3 py-1.5 bg-primary-500 text-white rounded-lg text-sm hover:bg-primary-600 transition-colors"
+        >
+          +1
+        </button>
+        <button
+          type="button"
+          onClick={removeCount}
+          className="px-3 py-1.5 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg text-sm hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Write a value the way another tab (or another library) would, bypassing the hook
+ */
+function writeExternally(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    return;
+  }
+  // Other tabs receive this event from the browser; dispatch it here to simulate one
+  window.dispatchEvent(new StorageEvent('storage', { key, newValue: value }));
+}
+
+/**
+ * useLocalStorage playground component
+ */
+export function UseLocalStoragePlayground(): JSX.Element {
+  const [settings, setSettings] = useLocalStorage(SETTINGS_KEY, defaultSettings);
+
+  return (
+    <HookCard hookId="useLocalStorage">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🔁 Shared Key
+          </h3>
+          <div className="space-y-2 mb-3">
+            <SharedCounter label="Counter A" />
+            <SharedCounter label="Counter B" />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => writeExternally(COUNT_KEY, '42')}
+              className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+            >
+              Simulate write from another tab
+            </button>
+            <button
+              type="button"
+              onClick={() => writeExternally(COUNT_KEY, '{not json')}
+              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+            >
+              Write corrupted value
+            </button>
+          </div>
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Both counters use the key <code className="font-mono">{COUNT_KEY}</code>. Open this page in
+            a second tab to see real cross-tab sync; a corrupted value falls back to the initial 0.
+          </p>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            ⚙️ Object Value
+          </h3>
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={settings.nickname}
+              onChange={(e) => setSettings((prev) => ({ ...prev, nickname: e.target.value }))}
+              placeholder="Nickname"
+              aria-label="Nickname"
+              className="w-full px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-dark-text">
+              <input
+                type="checkbox"
+                checked={settings.compact}
+                onChange={(e) => setSettings((prev) => ({ ...prev, compact: e.target.checked }))}
+              />
+              Compact mode
+            </label>
+            <pre className="p-3 bg-gray-900 rounded-lg text-xs text-green-400 font-mono overflow-x-auto">
+              {`localStorage["${SETTINGS_KEY}"] = ${JSON.stringify(settings)}`}
+            </pre>
+          </div>
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Reload the page: the settings are read back from storage.
+          </p>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
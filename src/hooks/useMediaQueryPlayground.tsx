@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import { useMediaQuery } from '../customHooks/useMediaQuery';
+
+const presetQueries = [
+  '(min-width: 640px)',
+  '(min-width: 1024px)',
+  '(orientation: portrait)',
+  '(prefers-color-scheme: dark)',
+  '(prefers-reduced-motion: reduce)',
+  '(hover: hover)',
+];
+
+function QueryRow({ query }: { query: string }): JSX.Element {
+  const matches = useMediaQuery(query);
+
+  return (
+    <li className="flex items-center justify-between gap-3 px-3 py-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+      <code className="font-mono text-sm text-gray-700 dark:text-dark-text">{query}</code>
+      <span
+        className={`px-2 py-0.5 rounded-full text-xs font-mono ${
+          matches
+            ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+            : 'bg-gray-200 dark:bg-dark-border text-gray-600 dark:text-dark-muted'
+        }`}
+      >
+        {String(matches)}
+      </span>
+    </li>
+  );
+}
+
+/**
+ * useMediaQuery playground component
+ */
+export function UseMediaQueryPlayground(): JSX.Element {
+  const [customQuery, setCustomQuery] = useState('(max-width: 800px)');
+  const isWide = useMediaQuery('(min-width: 1024px)');
+
+  return (
+    <HookCard hookId="useMediaQuery">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            📱 Live Queries
+          </h3>
+          <ul className="space-y-2">
+            {presetQueries.map((query) => (
+              <QueryRow key={query} query={query} />
+            ))}
+          </ul>
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Resize the window, rotate your device or change your OS theme; each row updates on its own.
+          </p>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🧪 Try a Query
+          </h3>
+          <input
+            type="text"
+            value={customQuery}
+            onChange={(e) => setCustomQuery(e.target.value)}
+            aria-label="Media query"
+            className="w-full px-4 py-2 mb-3 font-mono border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <ul>
+            <QueryRow query={customQuery} />
+          </ul>
+        </div>
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🧭 Rendering Differs by Screen
+          </h3>
+          {isWide ? (
+            <div className="flex gap-2">
+              {['Overview', 'Hooks', 'Examples', 'Settings'].map((item) => (
+                <span
+                  key={item}
+                  className="px-3 py-1.5 bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300 rounded-lg text-sm"
+                >
+                  {item}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg"
+            >
+              ☰ Menu
+            </button>
+          )}
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Above 1024px this renders a full navigation bar, below it a menu button. The components
+            are different, not just styled differently.
+          </p>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
@@ -1,37 +1,7 @@
 import { useState, useMemo } from 'react';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter, InlineRenderCounter } from '../components/RenderCounter';
-
-const codeExample = `import { useMemo, useState } from 'react';
-
-function ExpensiveComponent({ items, filter }: Props) {
-  // Memoize expensive computation
-  const filteredItems = useMemo(() => {
-    console.log('Computing filtered items...');
-    return items.filter(item =>
-      item.name.toLowerCase().includes(filter.toLowerCase())
-    );
-  }, [items, filter]); // Only recompute when items or filter changes
-
-  // Memoize object to maintain referential equality
-  const config = useMemo(() => ({
-    theme: 'dark',
-    language: 'en',
-  }), []); // Never changes
-
-  // Memoize derived values
-  const statistics = useMemo(() => ({
-    total: filteredItems.length,
-    average: filteredItems.reduce((a, b) => a + b.value, 0) / filteredItems.length,
-  }), [filteredItems]);
-
-  return (
-    <div>
-      <p>Found {filteredItems.length} items</p>
-      {filteredItems.map(item => <Item key={item.id} item={item} />)}
-    </div>
-  );
-}`;
+import { useRenderTrace } from '../instrumentation/renderTrace';
 
 /**
  * Simulates an expensive computation
@@ -64,11 +34,13 @@ const sampleItems = [
  * Child component that receives memoized value
  */
 function ChildWithMemo({ data }: { data: { value: number } }): JSX.Element {
+  const trace = useRenderTrace('ChildWithMemo', { data });
+
   return (
     <div className="p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
       <div className="flex items-center justify-between">
         <span className="text-green-800 dark:text-green-300">Child with memoized data</span>
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </div>
       <p className="text-sm text-green-600 dark:text-green-400">
         Value: {data.value}
@@ -81,11 +53,13 @@ function ChildWithMemo({ data }: { data: { value: number } }): JSX.Element {
  * Child component that receives non-memoized value
  */
 function ChildWithoutMemo({ data }: { data: { value: number } }): JSX.Element {
+  const trace = useRenderTrace('ChildWithoutMemo', { data });
+
   return (
     <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
       <div className="flex items-center justify-between">
         <span className="text-red-800 dark:text-red-300">Child with new object each render</span>
-        <InlineRenderCounter />
+        <InlineRenderCounter trace={trace} />
       </div>
       <p className="text-sm text-red-600 dark:text-red-400">
         Value: {data.value}
@@ -121,26 +95,7 @@ export function UseMemoPlayground(): JSX.Element {
   const nonMemoizedData = { value: count };
 
   return (
-    <HookCard
-      title="useMemo"
-      description="useMemo memoizes expensive computations so they only recalculate when dependencies change, optimizing performance."
-      whatItDoes="useMemo caches the result of a calculation between re-renders. It only recalculates when one of its dependencies changes. This is useful for expensive computations and maintaining referential equality for objects/arrays passed to child components."
-      commonMistakes={[
-        'Using useMemo for simple calculations (adds overhead)',
-        'Forgetting dependencies in the dependency array',
-        'Assuming useMemo prevents renders (it doesn\'t, use React.memo)',
-        'Memoizing everything "just in case" (premature optimization)',
-        'Not understanding that useMemo runs during render',
-      ]}
-      performanceConsiderations={[
-        'Only use for truly expensive computations',
-        'Useful for maintaining referential equality',
-        'The memoization itself has a cost - benchmark first',
-        'Dependencies should be primitives or stable references',
-        'Consider if the computation is actually expensive',
-      ]}
-      codeExample={codeExample}
-    >
+    <HookCard hookId="useMemo">
       <div className="space-y-6">
         <RenderCounter label="Component renders" showTimestamp />
 
@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+import { usePrevious } from '../customHooks/usePrevious';
+
+/**
+ * The common ref-based version, for comparison: it returns the value from the previous render
+ */
+function usePreviousRender<T>(value: T): T | undefined {
+  const ref = useRef<T>();
+  const previous = ref.current;
+  // Writing a ref during render is what the hook version avoids; it is only safe outside concurrent rendering
+  ref.current = value;
+  return previous;
+}
+
+/**
+ * usePrevious playground component
+ */
+export function UsePreviousPlayground(): JSX.Element {
+  const [count, setCount] = useState(0);
+  const [, setRenderTick] = useState(0);
+  const previousCount = usePrevious(count);
+  const previousRender = usePreviousRender(count);
+
+  return (
+    <HookCard hookId="usePrevious">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            ⏮️ Previous Value
+          </h3>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button
+              type="button"
+              onClick={() => setCount((prev) => prev + 1)}
+              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              Increment
+            </button>
+            <button
+              type="button"
+              onClick={() => setCount((prev) => prev - 1)}
+              className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              Decrement
+            </button>
+            <button
+              type="button"
+              onClick={() => setRenderTick((prev) => prev + 1)}
+              className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              Re-render with the same value
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">count</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">{count}</p>
+            </div>
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">usePrevious(count)</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">
+                {String(previousCount)}
+              </p>
+            </div>
+            <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+              <p className="text-xs text-gray-500 dark:text-dark-muted">ref from last render</p>
+              <p className="font-mono font-bold text-gray-900 dark:text-dark-text">
+                {String(previousRender)}
+              </p>
+            </div>
+          </div>
+          <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+            Change the count, then re-render with the same value: usePrevious keeps the last
+            different value, while the ref version reports whatever the previous render saw. With
+            Strict Mode on, the ref even shows the current value: the discarded extra render already
+            overwrote it.
+          </p>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
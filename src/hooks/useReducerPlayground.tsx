@@ -1,63 +1,11 @@
 import { useReducer, useState } from 'react';
+import { ActionConsole } from '../components/ActionConsole';
+import { ActionLog } from '../components/ActionLog';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter } from '../components/RenderCounter';
-import type { CounterState, CounterAction } from '../types';
-
-const codeExample = `import { useReducer } from 'react';
-
-// Define state type
-interface State {
-  count: number;
-  history: number[];
-}
-
-// Define action types
-type Action =
-  | { type: 'INCREMENT' }
-  | { type: 'DECREMENT' }
-  | { type: 'RESET' }
-  | { type: 'SET'; payload: number };
-
-// Reducer function - pure function!
-function reducer(state: State, action: Action): State {
-  switch (action.type) {
-    case 'INCREMENT':
-      return {
-        count: state.count + 1,
-        history: [...state.history, state.count + 1],
-      };
-    case 'DECREMENT':
-      return {
-        count: state.count - 1,
-        history: [...state.history, state.count - 1],
-      };
-    case 'RESET':
-      return { count: 0, history: [] };
-    case 'SET':
-      return {
-        count: action.payload,
-        history: [...state.history, action.payload],
-      };
-    default:
-      return state;
-  }
-}
-
-// Initial state
-const initialState: State = { count: 0, history: [] };
-
-function Counter() {
-  const [state, dispatch] = useReducer(reducer, initialState);
-
-  return (
-    <div>
-      <p>Count: {state.count}</p>
-      <button onClick={() => dispatch({ type: 'INCREMENT' })}>+</button>
-      <button onClick={() => dispatch({ type: 'DECREMENT' })}>-</button>
-      <button onClick={() => dispatch({ type: 'RESET' })}>Reset</button>
-    </div>
-  );
-}`;
+import { guardReducer, useGuardedReducer } from '../instrumentation/immutabilityGuard';
+import { useTimeTravelReducer } from '../instrumentation/timeTravel';
+import type { ActionConsoleTarget, ActionSchema, CounterState, CounterAction } from '../types';
 
 const initialState: CounterState = {
   count: 0,
@@ -145,13 +93,117 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
   }
 }
 
+// ❌ Mutates the state it was given and returns the same object
+function buggyCounterReducer(state: CounterState, action: CounterAction): CounterState {
+  switch (action.type) {
+    case 'INCREMENT':
+      state.count += 1;
+      state.history.push(state.count);
+      return state;
+    case 'DECREMENT':
+      state.count -= 1;
+      state.history.push(state.count);
+      return state;
+    case 'RESET':
+      state.count = 0;
+      state.history.length = 0;
+      return state;
+    default:
+      return state;
+  }
+}
+
+function createCounterState(): CounterState {
+  return { count: 0, history: [] };
+}
+
+// Reducers see guarded state, so any mutation is reported with its path
+const guardedCounterReducer = guardReducer(counterReducer, 'counterReducer');
+const guardedTodoReducer = guardReducer(todoReducer, 'todoReducer');
+
+/**
+ * Counter that runs either the correct or the mutating reducer.
+ * Remounted when the reducer changes, so each run starts from fresh state.
+ */
+function ReducerMutationDemo({ isBuggy }: { isBuggy: boolean }): JSX.Element {
+  const [state, dispatch] = useGuardedReducer(
+    isBuggy ? buggyCounterReducer : counterReducer,
+    undefined,
+    createCounterState,
+    isBuggy ? 'buggyCounterReducer' : 'counterReducer'
+  );
+  const [, forceRender] = useReducer((n: number) => n + 1, 0);
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-3">
+        <span className="text-3xl font-bold text-gray-900 dark:text-dark-text">{state.count}</span>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'INCREMENT' })}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onClick={() => dispatch({ type: 'RESET' })}
+            className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            onClick={forceRender}
+            className="px-4 py-2 bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Force re-render
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-dark-muted">
+        History: <span className="font-mono">[{state.history.join(', ')}]</span>
+      </p>
+    </div>
+  );
+}
+
+// Payload per action type for the action console; `satisfies` keeps them in sync with the action unions
+const counterActionSchema = {
+  INCREMENT: 'none',
+  DECREMENT: 'none',
+  RESET: 'none',
+  SET: 'number',
+} satisfies Record<CounterAction['type'], ActionSchema[string]>;
+
+const todoActionSchema = {
+  ADD: 'string',
+  TOGGLE: 'number',
+  DELETE: 'number',
+  CLEAR_COMPLETED: 'none',
+} satisfies Record<TodoAction['type'], ActionSchema[string]>;
+
+function describeCounterState(state: CounterState): string {
+  return `count ${state.count}, ${state.history.length} in history`;
+}
+
+function describeTodoState(state: TodoState): string {
+  const completed = state.todos.filter((todo) => todo.completed).length;
+  return `${state.todos.length} todos (${completed} done), nextId ${state.nextId}`;
+}
+
 /**
  * useReducer playground component
  */
 export function UseReducerPlayground(): JSX.Element {
-  const [state, dispatch] = useReducer(counterReducer, initialState);
-  const [todoState, todoDispatch] = useReducer(todoReducer, todoInitialState);
+  // Same as useReducer, plus an action log for time travel
+  const counter = useTimeTravelReducer(guardedCounterReducer, initialState);
+  const todos = useTimeTravelReducer(guardedTodoReducer, todoInitialState);
+  const { state, dispatch } = counter;
+  const { state: todoState, dispatch: todoDispatch } = todos;
   const [newTodo, setNewTodo] = useState('');
+  const [isBuggyReducer, setIsBuggyReducer] = useState(false);
 
   const handleAddTodo = (): void => {
     if (newTodo.trim()) {
@@ -162,27 +214,28 @@ export function UseReducerPlayground(): JSX.Element {
 
   const completedCount = todoState.todos.filter((t) => t.completed).length;
 
+  // The console validates before dispatching; unknown types get through only on purpose
+  const consoleTargets: ActionConsoleTarget[] = [
+    {
+      id: 'counter',
+      label: 'counterReducer',
+      schema: counterActionSchema,
+      actions: counter.entries.map((entry) => entry.action),
+      dispatch: (action) => dispatch(action as CounterAction),
+      reset: counter.clear,
+    },
+    {
+      id: 'todos',
+      label: 'todoReducer',
+      schema: todoActionSchema,
+      actions: todos.entries.map((entry) => entry.action),
+      dispatch: (action) => todoDispatch(action as TodoAction),
+      reset: todos.clear,
+    },
+  ];
+
   return (
-    <HookCard
-      title="useReducer"
-      description="useReducer is an alternative to useState for managing complex state logic. It's inspired by Redux and follows the reducer pattern."
-      whatItDoes="useReducer accepts a reducer function and initial state, returning the current state and a dispatch function. When you dispatch an action, the reducer determines how to update the state based on the action type."
-      commonMistakes={[
-        'Mutating state inside the reducer instead of returning a new object',
-        'Not handling all action types (missing default case)',
-        'Putting side effects inside the reducer (reducers must be pure)',
-        'Overcomplicating simple state that could use useState',
-        'Not typing actions properly in TypeScript',
-      ]}
-      performanceConsiderations={[
-        'useReducer can be more efficient for complex state updates',
-        'Dispatch is stable and doesn\'t change between renders',
-        'Consider useReducer when state logic involves multiple sub-values',
-        'Reducers are easy to test since they\'re pure functions',
-        'Can be combined with useContext for state management',
-      ]}
-      codeExample={codeExample}
-    >
+    <HookCard hookId="useReducer">
       <div className="space-y-6">
         <RenderCounter label="Component renders" showTimestamp />
 
@@ -331,6 +384,43 @@ export function UseReducerPlayground(): JSX.Element {
           )}
         </div>
 
+        <ActionConsole targets={consoleTargets} />
+
+        {/* Mutation detection */}
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+              🐛 Mutating State in a Reducer
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-dark-text cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isBuggyReducer}
+                onChange={(e) => setIsBuggyReducer(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+              />
+              Use buggy reducer
+            </label>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-dark-muted mb-4">
+            {isBuggyReducer
+              ? 'The buggy reducer changes state.count and pushes into state.history, then returns the same object. React sees an unchanged reference and skips the re-render, so the screen goes stale until something else renders. Each write is reported in a toast.'
+              : 'The correct reducer returns a new object for every change. Turn on the buggy reducer to see a mutation caught.'}
+          </p>
+          <ReducerMutationDemo key={isBuggyReducer ? 'buggy' : 'fixed'} isBuggy={isBuggyReducer} />
+        </div>
+
+        {/* Time travel */}
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-dark-muted">
+            Every action above is logged with the state before and after it. Jumping back just
+            shows an earlier state, and replaying runs the reducer again: because the reducers are
+            pure, the same actions from the same state always produce the same result.
+          </p>
+          <ActionLog title="Counter Action Log" timeTravel={counter} describeState={describeCounterState} />
+          <ActionLog title="Todo Action Log" timeTravel={todos} describeState={describeTodoState} />
+        </div>
+
         {/* Dispatch Actions */}
         <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
           <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-300 mb-2">
@@ -2,42 +2,6 @@ import { useState, useRef, useEffect } from 'react';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter } from '../components/RenderCounter';
 
-const codeExample = `import { useRef, useEffect } from 'react';
-
-function TextInputWithFocus() {
-  // Create a ref to store DOM element
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  // Create a ref to store mutable value (doesn't cause re-render)
-  const renderCount = useRef(0);
-
-  // Focus input on mount
-  useEffect(() => {
-    inputRef.current?.focus();
-  }, []);
-
-  // Increment without re-render
-  renderCount.current += 1;
-
-  return (
-    <div>
-      <input ref={inputRef} type="text" />
-      <p>Render count: {renderCount.current}</p>
-    </div>
-  );
-}
-
-// useRef for previous value
-function usePrevious<T>(value: T): T | undefined {
-  const ref = useRef<T>();
-
-  useEffect(() => {
-    ref.current = value;
-  }, [value]);
-
-  return ref.current;
-}`;
-
 /**
  * useRef playground component
  */
@@ -95,26 +59,7 @@ export function UseRefPlayground(): JSX.Element {
   }, []);
 
   return (
-    <HookCard
-      title="useRef"
-      description="useRef returns a mutable ref object that persists for the full lifetime of the component. It can hold DOM references or any mutable value."
-      whatItDoes="useRef creates a container that holds a .current property. Unlike state, changing ref.current doesn't trigger a re-render. It's commonly used for accessing DOM elements, storing previous values, and keeping mutable values that don't affect rendering."
-      commonMistakes={[
-        'Expecting ref changes to trigger re-renders (they don\'t!)',
-        'Using ref when state is needed (if UI should update, use state)',
-        'Accessing ref.current during render (it might not be set yet)',
-        'Forgetting that ref.current can be null for DOM refs',
-        'Not cleaning up refs that hold subscriptions or timers',
-      ]}
-      performanceConsiderations={[
-        'useRef is a way to opt-out of React\'s render cycle',
-        'Use refs for values that don\'t affect visual output',
-        'Perfect for storing instance variables like timers',
-        'DOM refs are set after the render, available in useEffect',
-        'Refs are synchronous unlike state updates',
-      ]}
-      codeExample={codeExample}
-    >
+    <HookCard hookId="useRef">
       <div className="space-y-6">
         <RenderCounter label="Component renders" showTimestamp />
 
@@ -1,43 +1,24 @@
 import { useState } from 'react';
 import { HookCard } from '../components/HookCard';
 import { RenderCounter } from '../components/RenderCounter';
+import { StateDiff } from '../components/StateDiff';
+import { useGuardedState } from '../instrumentation/immutabilityGuard';
+import { useStateChange } from '../instrumentation/stateDiff';
 
-const codeExample = `import { useState } from 'react';
-
-function Counter() {
-  // Declare a state variable called "count"
-  const [count, setCount] = useState(0);
-
-  // State with object
-  const [user, setUser] = useState({
-    name: 'John',
-    age: 25
-  });
-
-  // State with function initializer (lazy initialization)
-  const [expensiveValue] = useState(() => {
-    // This only runs once on mount
-    return computeExpensiveValue();
-  });
-
-  // Update state
-  const increment = () => setCount(count + 1);
-
-  // Update state using previous value
-  const incrementSafe = () => setCount(prev => prev + 1);
-
-  // Update object state (must spread to create new object)
-  const updateName = (newName: string) => {
-    setUser(prev => ({ ...prev, name: newName }));
+interface Profile {
+  name: string;
+  preferences: {
+    theme: 'light' | 'dark';
+    notifications: boolean;
   };
+  tags: string[];
+}
 
-  return (
-    <div>
-      <p>Count: {count}</p>
-      <button onClick={incrementSafe}>Increment</button>
-    </div>
-  );
-}`;
+const initialProfile: Profile = {
+  name: 'Ada',
+  preferences: { theme: 'light', notifications: true },
+  tags: ['admin'],
+};
 
 /**
  * useState playground component
@@ -45,8 +26,12 @@ function Counter() {
 export function UseStatePlayground(): JSX.Element {
   const [count, setCount] = useState(0);
   const [text, setText] = useState('');
-  const [items, setItems] = useState<string[]>(['Apple', 'Banana']);
+  // Object and array state is guarded: mutating it instead of copying shows a toast
+  const [items, setItems] = useGuardedState<string[]>(['Apple', 'Banana'], 'items');
   const [newItem, setNewItem] = useState('');
+  const [profile, setProfile] = useGuardedState(initialProfile, 'profile');
+  const itemsChange = useStateChange(items);
+  const profileChange = useStateChange(profile);
 
   const handleAddItem = (): void => {
     if (newItem.trim()) {
@@ -60,26 +45,7 @@ export function UseStatePlayground(): JSX.Element {
   };
 
   return (
-    <HookCard
-      title="useState"
-      description="The useState hook lets you add state to functional components. It returns a stateful value and a function to update it."
-      whatItDoes="useState declares a state variable that persists across re-renders. When you call the setter function, React re-renders the component with the new value. State updates are asynchronous and batched for performance."
-      commonMistakes={[
-        'Mutating state directly instead of using the setter function',
-        'Forgetting that state updates are asynchronous',
-        'Not using the functional update form when new state depends on previous state',
-        'Creating new object/array references unnecessarily, causing extra renders',
-        'Using useState for values that don\'t need to trigger re-renders (use useRef instead)',
-      ]}
-      performanceConsiderations={[
-        'Use lazy initialization for expensive initial values: useState(() => computeExpensive())',
-        'Batch multiple setState calls when possible',
-        'Split state into multiple useState calls for independent values',
-        'Consider useReducer for complex state logic',
-        'Memoize objects/arrays passed as initial state to avoid recreating on each render',
-      ]}
-      codeExample={codeExample}
-    >
+    <HookCard hookId="useState">
       <div className="space-y-6">
         <RenderCounter label="Component renders" showTimestamp />
 
@@ -174,6 +140,63 @@ export function UseStatePlayground(): JSX.Element {
               </li>
             ))}
           </ul>
+          <div className="mt-4">
+            <p className="text-xs font-semibold text-gray-500 dark:text-dark-muted mb-2">
+              Last update
+            </p>
+            <StateDiff before={itemsChange.before} after={itemsChange.after} rootLabel="items" />
+          </div>
+        </div>
+
+        {/* Object State Example */}
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            Object State Example
+          </h3>
+          <pre className="mb-3 px-3 py-2 bg-gray-100 dark:bg-dark-bg rounded-lg text-xs font-mono text-gray-800 dark:text-dark-text overflow-x-auto">
+            {JSON.stringify(profile)}
+          </pre>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button
+              type="button"
+              onClick={() =>
+                setProfile((prev) => ({ ...prev, name: prev.name === 'Ada' ? 'Grace' : 'Ada' }))
+              }
+              className="px-3 py-1.5 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              Rename
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                setProfile((prev) => ({
+                  ...prev,
+                  preferences: { ...prev.preferences, notifications: !prev.preferences.notifications },
+                }))
+              }
+              className="px-3 py-1.5 text-sm bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              Toggle notifications
+            </button>
+            <button
+              type="button"
+              onClick={() => setProfile((prev) => ({ ...prev }))}
+              className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              Spread without changes
+            </button>
+            <button
+              type="button"
+              onClick={() => setProfile(initialProfile)}
+              className="px-3 py-1.5 text-sm bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+          <p className="text-xs font-semibold text-gray-500 dark:text-dark-muted mb-2">
+            Last update
+          </p>
+          <StateDiff before={profileChange.before} after={profileChange.after} rootLabel="profile" />
         </div>
       </div>
     </HookCard>
@@ -0,0 +1,335 @@
+import { useEffect, useRef, useState, useSyncExternalStore, useTransition } from 'react';
+import { HookCard } from '../components/HookCard';
+import { InlineRenderCounter, RenderCounter } from '../components/RenderCounter';
+
+/**
+ * External store compatible with useSyncExternalStore
+ */
+interface Store<T> {
+  getSnapshot: () => T;
+  subscribe: (listener: () => void) => () => void;
+  setState: (update: (prev: T) => T) => void;
+}
+
+function createStore<T>(initialState: T): Store<T> {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getSnapshot: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setState: (update) => {
+      state = update(state);
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+// Cells per approach in the tearing demo, and busy work per cell so the transition gets time-sliced
+const CELL_COUNT = 12;
+const CELL_RENDER_MS = 10;
+// The store ticks while the transition renders
+const TICK_INTERVAL_MS = 15;
+
+const tickerStore = createStore(0);
+
+function blockFor(ms: number): void {
+  const start = performance.now();
+  while (performance.now() - start < ms) {
+    // Artificially slow render
+  }
+}
+
+// ❌ Naive subscription: each component copies the store into its own state
+function useNaiveStore<T>(store: Store<T>): T {
+  const [value, setValue] = useState(store.getSnapshot);
+
+  useEffect(() => {
+    return store.subscribe(() => setValue(store.getSnapshot()));
+  }, [store]);
+
+  return value;
+}
+
+function NaiveCell(): JSX.Element {
+  const value = useNaiveStore(tickerStore);
+  blockFor(CELL_RENDER_MS);
+
+  return <TickerCell value={value} />;
+}
+
+function SyncCell(): JSX.Element {
+  const value = useSyncExternalStore(tickerStore.subscribe, tickerStore.getSnapshot);
+  blockFor(CELL_RENDER_MS);
+
+  return <TickerCell value={value} />;
+}
+
+function TickerCell({ value }: { value: number }): JSX.Element {
+  return (
+    <span className="w-10 h-10 flex items-center justify-center rounded-lg bg-gray-100 dark:bg-dark-bg font-mono text-sm text-gray-800 dark:text-dark-text">
+      {value}
+    </span>
+  );
+}
+
+interface CellRowProps {
+  title: string;
+  runId: number;
+  Cell: () => JSX.Element;
+}
+
+/**
+ * A row of cells reading the ticker store; reports whether they agree after each commit
+ */
+function CellRow({ title, runId, Cell }: CellRowProps): JSX.Element {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const [distinctValues, setDistinctValues] = useState(1);
+
+  useEffect(() => {
+    const values = Array.from(rowRef.current?.children ?? [], (cell) => cell.textContent);
+    setDistinctValues(new Set(values).size);
+  }, [runId]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-mono text-gray-700 dark:text-dark-text">{title}</p>
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs ${
+            distinctValues > 1
+              ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+              : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+          }`}
+        >
+          {distinctValues > 1 ? `Torn: ${distinctValues} different values` : 'Consistent'}
+        </span>
+      </div>
+      <div ref={rowRef} className="flex flex-wrap gap-2">
+        {Array.from({ length: CELL_COUNT }, (_, index) => (
+          <Cell key={`${runId}-${index}`} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Mounts both rows in a transition while the store keeps changing
+ */
+function TearingDemo(): JSX.Element {
+  const [runId, setRunId] = useState(0);
+  const [isPending, startTransition] = useTransition();
+  const tickerRef = useRef<number | null>(null);
+
+  const stopTicker = (): void => {
+    if (tickerRef.current !== null) {
+      window.clearInterval(tickerRef.current);
+      tickerRef.current = null;
+    }
+  };
+
+  // The transition has committed: stop changing the store so any tearing stays visible
+  useEffect(() => {
+    stopTicker();
+  }, [runId]);
+
+  useEffect(() => stopTicker, []);
+
+  const run = (): void => {
+    stopTicker();
+    tickerRef.current = window.setInterval(() => {
+      tickerStore.setState((value) => value + 1);
+    }, TICK_INTERVAL_MS);
+    startTransition(() => {
+      setRunId((prev) => prev + 1);
+    });
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text">
+          🧵 Tearing Under Concurrent Rendering
+        </h3>
+        <button
+          type="button"
+          onClick={run}
+          disabled={isPending}
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 transition-colors"
+        >
+          {isPending ? 'Rendering...' : 'Re-mount cells in a transition'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-dark-muted mb-4">
+        Each cell takes {CELL_RENDER_MS}ms to render, so React splits the transition into slices.
+        The store ticks every {TICK_INTERVAL_MS}ms in between. Naive cells read whatever value the
+        store had when they rendered; useSyncExternalStore notices the store changed during the
+        render and re-renders so every cell shows the same snapshot.
+      </p>
+      <div className="space-y-4">
+        <CellRow title="useEffect + useState" runId={runId} Cell={NaiveCell} />
+        <CellRow title="useSyncExternalStore" runId={runId} Cell={SyncCell} />
+      </div>
+    </div>
+  );
+}
+
+function subscribeToOnlineStatus(callback: () => void): () => void {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+}
+
+function getOnlineStatus(): boolean {
+  return navigator.onLine;
+}
+
+/**
+ * Subscribe to a media query; the same API ThemeContext listens to for the system theme
+ */
+function useMediaQueryStore(query: string): boolean {
+  const [store] = useState(() => {
+    const mediaQuery = window.matchMedia(query);
+    return {
+      subscribe: (callback: () => void) => {
+        mediaQuery.addEventListener('change', callback);
+        return () => mediaQuery.removeEventListener('change', callback);
+      },
+      getSnapshot: () => mediaQuery.matches,
+    };
+  });
+
+  return useSyncExternalStore(store.subscribe, store.getSnapshot);
+}
+
+function BrowserStores(): JSX.Element {
+  const isOnline = useSyncExternalStore(subscribeToOnlineStatus, getOnlineStatus, () => true);
+  const prefersDark = useMediaQueryStore('(prefers-color-scheme: dark)');
+  const isWide = useMediaQueryStore('(min-width: 1024px)');
+
+  const rows = [
+    { label: 'navigator.onLine', value: isOnline ? '🟢 online' : '🔴 offline', hint: 'Toggle offline mode in DevTools' },
+    { label: '(prefers-color-scheme: dark)', value: String(prefersDark), hint: 'Change your OS theme' },
+    { label: '(min-width: 1024px)', value: String(isWide), hint: 'Resize the window' },
+  ];
+
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+        🌍 Browser APIs as External Stores
+      </h3>
+      <ul className="space-y-2">
+        {rows.map((row) => (
+          <li
+            key={row.label}
+            className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-dark-bg rounded-lg"
+          >
+            <span className="font-mono text-sm text-gray-700 dark:text-dark-text">{row.label}</span>
+            <span className="text-xs text-gray-500 dark:text-dark-muted">{row.hint}</span>
+            <strong className="font-mono text-sm text-gray-900 dark:text-dark-text">{row.value}</strong>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface ProfileState {
+  clicks: number;
+  name: string;
+}
+
+const profileStore = createStore<ProfileState>({ clicks: 0, name: 'Ada' });
+
+// Selector variant: components re-render only when their slice changes
+function useProfileStore<S>(selector: (state: ProfileState) => S): S {
+  return useSyncExternalStore(profileStore.subscribe, () => selector(profileStore.getSnapshot()));
+}
+
+function ClicksView(): JSX.Element {
+  const clicks = useProfileStore((state) => state.clicks);
+
+  return (
+    <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+      <span className="text-sm text-gray-700 dark:text-dark-text">
+        Selects <code className="font-mono">clicks</code>: <strong>{clicks}</strong>
+      </span>
+      <InlineRenderCounter />
+    </div>
+  );
+}
+
+function NameView(): JSX.Element {
+  const name = useProfileStore((state) => state.name);
+
+  return (
+    <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+      <span className="text-sm text-gray-700 dark:text-dark-text">
+        Selects <code className="font-mono">name</code>: <strong>{name}</strong>
+      </span>
+      <InlineRenderCounter />
+    </div>
+  );
+}
+
+function SelectorDemo(): JSX.Element {
+  return (
+    <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+        🎯 Selectors
+      </h3>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button
+          type="button"
+          onClick={() => profileStore.setState((state) => ({ ...state, clicks: state.clicks + 1 }))}
+          className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+        >
+          Click
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            profileStore.setState((state) => ({ ...state, name: state.name === 'Ada' ? 'Grace' : 'Ada' }))
+          }
+          className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+        >
+          Rename
+        </button>
+      </div>
+      <div className="space-y-2">
+        <ClicksView />
+        <NameView />
+      </div>
+      <p className="mt-3 text-sm text-gray-600 dark:text-dark-muted">
+        Both components subscribe to the same store, but each only re-renders when the value
+        its selector returns changes. Selectors must return primitives or stable references: a new
+        object on every call would never compare equal.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * useSyncExternalStore playground component
+ */
+export function UseSyncExternalStorePlayground(): JSX.Element {
+  return (
+    <HookCard hookId="useSyncExternalStore">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+        <TearingDemo />
+        <SelectorDemo />
+        <BrowserStores />
+      </div>
+    </HookCard>
+  );
+}
@@ -0,0 +1,231 @@
+import {
+  memo,
+  useDeferredValue,
+  useLayoutEffect,
+  useRef,
+  useState,
+  useTransition,
+} from 'react';
+import { HookCard } from '../components/HookCard';
+import { RenderCounter } from '../components/RenderCounter';
+
+type UpdateMode = 'urgent' | 'transition' | 'deferred';
+
+// Busy work per rendered item, so a full list takes a few hundred milliseconds
+const ITEM_RENDER_MS = 1;
+// Keystroke latencies kept for the average
+const MAX_LATENCIES = 20;
+
+const modeLabels: Record<UpdateMode, { title: string; description: string }> = {
+  urgent: {
+    title: 'Urgent update',
+    description: 'The input and the list update in the same render. Every keystroke waits for the whole list.',
+  },
+  transition: {
+    title: 'useTransition',
+    description: 'The input updates urgently; the list update is marked as a transition that React can interrupt when you type again.',
+  },
+  deferred: {
+    title: 'useDeferredValue',
+    description: 'The list receives a deferred copy of the query that lags behind while React keeps the input responsive.',
+  },
+};
+
+const adjectives = ['quick', 'lazy', 'bright', 'calm', 'eager', 'fuzzy', 'gentle', 'happy', 'jolly', 'kind'];
+const nouns = ['fox', 'otter', 'falcon', 'panda', 'lynx', 'heron', 'koala', 'moose', 'tiger', 'whale'];
+const allItems = adjectives.flatMap((adjective) =>
+  nouns.flatMap((noun) => [1, 2].map((n) => `${adjective} ${noun} ${n}`))
+);
+
+function filterItems(items: string[], query: string): string[] {
+  return items.filter((item) => item.toLowerCase().includes(query.toLowerCase()));
+}
+
+function SlowItem({ text }: { text: string }): JSX.Element {
+  const start = performance.now();
+  while (performance.now() - start < ITEM_RENDER_MS) {
+    // Artificially slow render
+  }
+
+  return (
+    <li className="px-3 py-1 bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-300 rounded-full text-sm">
+      {text}
+    </li>
+  );
+}
+
+const SlowList = memo(function SlowList({ query }: { query: string }): JSX.Element {
+  const items = filterItems(allItems, query);
+
+  return (
+    <div>
+      <p className="mb-2 text-sm text-gray-600 dark:text-dark-muted">
+        {items.length} of {allItems.length} items, about {items.length * ITEM_RENDER_MS}ms to render
+      </p>
+      <ul className="flex flex-wrap gap-2 max-h-56 overflow-y-auto">
+        {items.map((item) => (
+          <SlowItem key={item} text={item} />
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+/**
+ * Time from a keystroke to the commit that shows it in the input
+ */
+function useInputLatency(value: string): { onKeystroke: (timeStamp: number) => void; latencies: number[] } {
+  const keystrokeRef = useRef<number | null>(null);
+  const [latencies, setLatencies] = useState<number[]>([]);
+
+  // Runs when the input's new value is committed, before paint
+  useLayoutEffect(() => {
+    const keystroke = keystrokeRef.current;
+    if (keystroke === null) return;
+    keystrokeRef.current = null;
+    const latency = performance.now() - keystroke;
+    setLatencies((prev) => [...prev.slice(-(MAX_LATENCIES - 1)), latency]);
+  }, [value]);
+
+  return {
+    onKeystroke: (timeStamp) => {
+      // Keep the first keystroke of a burst; the browser may batch several into one commit
+      keystrokeRef.current ??= timeStamp;
+    },
+    latencies,
+  };
+}
+
+/**
+ * Filter input whose list update is urgent, a transition or deferred
+ */
+function ConcurrentSearch({ mode }: { mode: UpdateMode }): JSX.Element {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [isPending, startTransition] = useTransition();
+  const deferredQuery = useDeferredValue(query);
+  const { onKeystroke, latencies } = useInputLatency(input);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    onKeystroke(event.timeStamp);
+    const value = event.target.value;
+    setInput(value);
+    if (mode === 'transition') {
+      startTransition(() => {
+        setQuery(value);
+      });
+    } else {
+      setQuery(value);
+    }
+  };
+
+  const listQuery = mode === 'deferred' ? deferredQuery : query;
+  const isStale = mode === 'transition' ? isPending : mode === 'deferred' && query !== deferredQuery;
+  const lastLatency = latencies[latencies.length - 1];
+  const averageLatency = latencies.length
+    ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+    : 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <input
+          type="text"
+          value={input}
+          onChange={handleChange}
+          placeholder="Type quickly, e.g. happy otter..."
+          className="flex-1 min-w-[12rem] px-4 py-2 border border-gray-300 dark:border-dark-border rounded-lg bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        {mode !== 'urgent' && (
+          <span
+            className={`px-3 py-1 rounded-full text-xs font-mono ${
+              isStale
+                ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300'
+                : 'bg-gray-100 dark:bg-dark-bg text-gray-500 dark:text-dark-muted'
+            }`}
+          >
+            {mode === 'transition' ? `isPending: ${String(isPending)}` : `stale: ${String(isStale)}`}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+        <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+          <p className="text-xs text-gray-500 dark:text-dark-muted">Last keystroke</p>
+          <p className="font-mono font-bold text-gray-900 dark:text-dark-text">
+            {lastLatency === undefined ? '-' : `${lastLatency.toFixed(0)}ms`}
+          </p>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+          <p className="text-xs text-gray-500 dark:text-dark-muted">Average input latency</p>
+          <p className="font-mono font-bold text-gray-900 dark:text-dark-text">
+            {latencies.length ? `${averageLatency.toFixed(0)}ms` : '-'}
+          </p>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-dark-bg rounded-lg">
+          <p className="text-xs text-gray-500 dark:text-dark-muted">List shows</p>
+          <p className="font-mono font-bold text-gray-900 dark:text-dark-text truncate">
+            &quot;{listQuery}&quot;
+          </p>
+        </div>
+      </div>
+
+      <div className={`transition-opacity ${isStale ? 'opacity-50' : 'opacity-100'}`}>
+        <SlowList query={listQuery} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * useTransition and useDeferredValue playground component
+ */
+export function UseTransitionPlayground(): JSX.Element {
+  const [mode, setMode] = useState<UpdateMode>('urgent');
+
+  return (
+    <HookCard hookId="useTransition">
+      <div className="space-y-6">
+        <RenderCounter label="Component renders" showTimestamp />
+
+        <div className="p-4 bg-white dark:bg-dark-card rounded-lg border border-gray-200 dark:border-dark-border">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-dark-text mb-3">
+            🚦 Urgent vs Non-urgent Updates
+          </h3>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {(Object.keys(modeLabels) as UpdateMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  mode === option
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-gray-200 dark:bg-dark-border text-gray-800 dark:text-dark-text hover:bg-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {modeLabels[option].title}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 dark:text-dark-muted mb-4">
+            {modeLabels[mode].description}
+          </p>
+          {/* Remounted per mode so each comparison starts from an empty query */}
+          <ConcurrentSearch key={mode} mode={mode} />
+        </div>
+
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+          <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-300 mb-2">
+            💡 Transition or deferred value?
+          </h3>
+          <ul className="text-sm text-blue-700 dark:text-blue-400 space-y-1">
+            <li>• useTransition when you own the state update and can wrap it</li>
+            <li>• useDeferredValue when the value comes from props or a library</li>
+            <li>• Both need the slow part to be memoized so urgent renders skip it</li>
+          </ul>
+        </div>
+      </div>
+    </HookCard>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useLayoutEffect, useRef, useState, type DependencyList, type EffectCallback } from 'react';
+import type { DependencyItem, EffectEvent } from '../types';
+
+// Oldest events are dropped past this point (a running timer adds one skip per effect per second)
+const MAX_EVENTS = 300;
+
+/**
+ * Store of effect lifecycle events, compatible with useSyncExternalStore
+ */
+export interface EffectTimeline {
+  record: (event: Omit<EffectEvent, 'id' | 'timestamp'>) => void;
+  subscribe: (listener: () => void) => () => void;
+  getEvents: () => EffectEvent[];
+  clear: () => void;
+}
+
+/**
+ * Create an empty effect timeline
+ */
+export function createEffectTimeline(): EffectTimeline {
+  let events: EffectEvent[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const emitChange = (): void => {
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    record(event) {
+      events = [...events.slice(-(MAX_EVENTS - 1)), { ...event, id: nextId++, timestamp: Date.now() }];
+      emitChange();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getEvents() {
+      return events;
+    },
+    clear() {
+      events = [];
+      emitChange();
+    },
+  };
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Describe dependencies as they were (before) and are now (after)
+ */
+function toDependencyItems(
+  names: readonly string[],
+  before: DependencyList | null,
+  after: DependencyList
+): DependencyItem[] {
+  return after.map((value, index) => ({
+    name: names[index] ?? `deps[${index}]`,
+    value: formatValue(value),
+    previousValue: before ? formatValue(before[index]) : undefined,
+    hasChanged: !before || !Object.is(before[index], value),
+  }));
+}
+
+function haveSameValues(a: DependencyList, b: DependencyList): boolean {
+  return a.length === b.length && b.every((value, index) => Object.is(a[index], value));
+}
+
+/**
+ * useEffect that reports setup, cleanup and skipped runs to a timeline.
+ * `dependencies` works like useEffect's array; `dependencyNames` labels each
+ * entry, in the same order, so the timeline can show them.
+ */
+export function useTrackedEffect(
+  timeline: EffectTimeline,
+  name: string,
+  effect: EffectCallback,
+  dependencies: DependencyList,
+  dependencyNames: readonly string[]
+): void {
+  const savedEffect = useRef(effect);
+  const lastSetupDepsRef = useRef<DependencyList | null>(null);
+  const unmountingRef = useRef(false);
+
+  // Snapshot of the dependencies, replaced only when one of them changes;
+  // adjusted during render (React re-runs it immediately) so the effect below can depend on it
+  const [tracked, setTracked] = useState({ dependencies, dependencyNames });
+  if (!haveSameValues(tracked.dependencies, dependencies)) {
+    setTracked({ dependencies, dependencyNames });
+  }
+
+  // Layout effect so the setup below always runs the effect from the latest commit
+  useLayoutEffect(() => {
+    savedEffect.current = effect;
+  }, [effect]);
+
+  // Declared first so its cleanup runs before the tracked effect's cleanup on unmount
+  useEffect(() => {
+    unmountingRef.current = false;
+    return () => {
+      unmountingRef.current = true;
+    };
+  }, []);
+
+  // Runs after every commit; logs a skip when the tracked effect didn't need to re-run
+  useEffect(() => {
+    const lastSetupDeps = lastSetupDepsRef.current;
+    if (lastSetupDeps && haveSameValues(lastSetupDeps, dependencies)) {
+      timeline.record({
+        effect: name,
+        type: 'skip',
+        reason: 'deps-unchanged',
+        dependencies: toDependencyItems(dependencyNames, lastSetupDeps, dependencies),
+      });
+    }
+  });
+
+  useEffect(() => {
+    const previousDeps = lastSetupDepsRef.current;
+    lastSetupDepsRef.current = tracked.dependencies;
+    timeline.record({
+      effect: name,
+      type: 'setup',
+      reason: previousDeps ? 'deps-changed' : 'mount',
+      dependencies: toDependencyItems(tracked.dependencyNames, previousDeps, tracked.dependencies),
+    });
+
+    const cleanup = savedEffect.current();
+
+    return () => {
+      const isUnmount = unmountingRef.current;
+      if (isUnmount) {
+        lastSetupDepsRef.current = null;
+      }
+      // `tracked` is this run's closure: cleanup always sees the values from its own setup
+      timeline.record({
+        effect: name,
+        type: 'cleanup',
+        reason: isUnmount ? 'unmount' : 'before-rerun',
+        dependencies: toDependencyItems(tracked.dependencyNames, null, tracked.dependencies),
+      });
+      cleanup?.();
+    };
+  }, [timeline, name, tracked]);
+}
@@ -0,0 +1,222 @@
+import {
+  useCallback,
+  useMemo,
+  useReducer,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from 'react';
+import type { StateMutation } from '../types';
+
+// Only the newest mutations are kept for the toasts
+const MAX_MUTATIONS = 20;
+// StrictMode runs reducers and updaters twice; the same write within this window is reported once
+const DUPLICATE_WINDOW_MS = 100;
+
+let mutations: StateMutation[] = [];
+let nextMutationId = 1;
+const listeners = new Set<() => void>();
+
+// Guarded proxy per raw object, and the raw object behind each proxy
+const proxies = new WeakMap<object, object>();
+const proxyTargets = new WeakMap<object, object>();
+
+function emitChange(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Only plain objects and arrays are guarded; Maps, Dates, DOM nodes and
+ * class instances have internal slots a proxy can't stand in for. Frozen
+ * objects can't be written to anyway, and React elements are frozen in
+ * development and read internally by React.
+ */
+function isGuardable(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) return false;
+  if (Object.isFrozen(value) || '$$typeof' in value) return false;
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * A proxy must return the exact value of a non-writable, non-configurable
+ * property, so those children can't be swapped for their guarded proxies
+ */
+function isFixedProperty(target: object, key: string | symbol): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(target, key);
+  return descriptor !== undefined && !descriptor.configurable && descriptor.writable === false;
+}
+
+function formatValue(value: unknown): string {
+  const raw = unwrapState(value);
+  if (typeof raw === 'function') return 'function';
+  try {
+    return JSON.stringify(raw) ?? String(raw);
+  } catch {
+    return String(raw);
+  }
+}
+
+function childPath(target: object, path: string, key: string | symbol): string {
+  if (typeof key === 'symbol') return `${path}[${key.toString()}]`;
+  return Array.isArray(target) && /^\d+$/.test(key) ? `${path}[${key}]` : `${path}.${key}`;
+}
+
+function reportMutation(mutation: Omit<StateMutation, 'id' | 'timestamp'>): void {
+  const now = Date.now();
+  const isDuplicate = mutations.some(
+    (m) =>
+      now - m.timestamp < DUPLICATE_WINDOW_MS &&
+      m.source === mutation.source &&
+      m.path === mutation.path &&
+      m.operation === mutation.operation
+  );
+  if (isDuplicate) return;
+
+  mutations = [...mutations.slice(-(MAX_MUTATIONS - 1)), { ...mutation, id: nextMutationId++, timestamp: now }];
+  // Reducers run during render, where updating the toast subscribers isn't allowed
+  queueMicrotask(emitChange);
+}
+
+/**
+ * Wrap state in a proxy that reports every write with its full path.
+ * Writes still go through, so the bug behaves exactly as it would unguarded.
+ * The same raw object always gets the same proxy, keeping reference checks meaningful.
+ */
+export function guardState<T>(value: T, source: string, path = 'state'): T {
+  if (!isGuardable(value) || proxyTargets.has(value)) return value;
+
+  const existing = proxies.get(value);
+  if (existing) return existing as T;
+
+  const proxy = new Proxy(value, {
+    get(target, key, receiver) {
+      const child: unknown = Reflect.get(target, key, receiver);
+      // Leave functions (array methods) alone so `push` etc. run against the proxy and hit `set`
+      if (typeof child === 'function' || isFixedProperty(target, key)) return child;
+      return guardState(child, source, childPath(target, path, key));
+    },
+    set(target, key, newValue, receiver) {
+      // `push` also sets length after writing the new index; only report truncation
+      const isLengthGrowth =
+        Array.isArray(target) && key === 'length' && Number(newValue) >= target.length;
+      if (!isLengthGrowth) {
+        reportMutation({
+          source,
+          path: childPath(target, path, key),
+          operation: 'set',
+          value: formatValue(newValue),
+        });
+      }
+      return Reflect.set(target, key, unwrapState(newValue), receiver);
+    },
+    deleteProperty(target, key) {
+      reportMutation({ source, path: childPath(target, path, key), operation: 'delete' });
+      return Reflect.deleteProperty(target, key);
+    },
+  });
+
+  proxies.set(value, proxy);
+  proxyTargets.set(proxy, value);
+  return proxy as T;
+}
+
+/**
+ * Replace guard proxies with the raw objects behind them.
+ * New objects built from guarded state (`{ ...state }`) contain proxies of the
+ * old children; swapping them back keeps the stored state free of proxies.
+ */
+export function unwrapState<T>(value: T, seen = new WeakSet<object>()): T {
+  if (!isGuardable(value)) return value;
+
+  const target = proxyTargets.get(value);
+  // Raw state behind a proxy never contains proxies itself
+  if (target) return target as T;
+  if (seen.has(value)) return value;
+  seen.add(value);
+
+  Object.keys(value).forEach((key) => {
+    const child = (value as Record<string, unknown>)[key];
+    const raw = unwrapState(child, seen);
+    if (raw !== child) {
+      (value as Record<string, unknown>)[key] = raw;
+    }
+  });
+  return value;
+}
+
+/**
+ * Reducer that receives guarded state, so mutating it is reported
+ */
+export function guardReducer<S, A>(
+  reducer: (state: S, action: A) => S,
+  source: string
+): (state: S, action: A) => S {
+  return (state, action) => unwrapState(reducer(guardState(state, source), action));
+}
+
+/**
+ * useState whose state and updater arguments are guarded against mutation
+ */
+export function useGuardedState<S>(
+  initialState: S | (() => S),
+  source = 'useState'
+): [S, Dispatch<SetStateAction<S>>] {
+  const [state, setState] = useState(initialState);
+
+  const setGuardedState = useCallback<Dispatch<SetStateAction<S>>>(
+    (action) => {
+      setState(
+        typeof action === 'function'
+          ? (prev) => unwrapState((action as (prev: S) => S)(guardState(prev, source)))
+          : unwrapState(action)
+      );
+    },
+    [source]
+  );
+
+  return [guardState(state, source), setGuardedState];
+}
+
+/**
+ * useReducer whose reducer and returned state are guarded against mutation
+ */
+export function useGuardedReducer<S, A, I = S>(
+  reducer: (state: S, action: A) => S,
+  initialArg: I,
+  init?: (arg: I) => S,
+  source = 'useReducer'
+): [S, Dispatch<A>] {
+  const guardedReducer = useMemo(() => guardReducer(reducer, source), [reducer, source]);
+  const [state, dispatch] = useReducer(
+    guardedReducer,
+    initialArg,
+    init ?? ((arg: I) => arg as unknown as S)
+  );
+  return [guardState(state, source), dispatch];
+}
+
+/**
+ * Subscribe to detected mutations (useSyncExternalStore compatible)
+ */
+export function subscribeToMutations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Snapshot of detected mutations, newest last
+ */
+export function getMutations(): StateMutation[] {
+  return mutations;
+}
+
+/**
+ * Remove a reported mutation once its toast is dismissed
+ */
+export function dismissMutation(id: number): void {
+  mutations = mutations.filter((mutation) => mutation.id !== id);
+  emitChange();
+}
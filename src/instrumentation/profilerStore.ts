@@ -0,0 +1,108 @@
+import type { ProfilerOnRenderCallback } from 'react';
+import type { ProfilerCommit } from '../types';
+
+// Oldest commits are dropped past this point so long sessions don't grow unbounded
+const MAX_COMMITS = 500;
+
+let commits: ProfilerCommit[] = [];
+let nextCommitId = 1;
+const listeners = new Set<() => void>();
+
+// Commit count per render counter Profiler, kept while its counter is subscribed
+const counterCommits = new Map<string, number>();
+const counterListeners = new Map<string, Set<() => void>>();
+
+function emitChange(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * React.Profiler onRender callback that records every commit of a profiled tree
+ */
+export const recordCommit: ProfilerOnRenderCallback = (
+  component,
+  phase,
+  actualDuration,
+  baseDuration,
+  startTime,
+  commitTime
+) => {
+  const commit: ProfilerCommit = {
+    id: nextCommitId++,
+    component,
+    phase,
+    actualDuration,
+    baseDuration,
+    startTime,
+    commitTime,
+    timestamp: Date.now(),
+  };
+  commits = [...commits.slice(-(MAX_COMMITS - 1)), commit];
+  emitChange();
+};
+
+/**
+ * Subscribe to commit changes (useSyncExternalStore compatible)
+ */
+export function subscribeToCommits(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Snapshot of recorded commits; a new array is returned only when commits change
+ */
+export function getCommits(): ProfilerCommit[] {
+  return commits;
+}
+
+/**
+ * Drop recorded commits for one profiled tree, or all of them
+ */
+export function clearCommits(component?: string): void {
+  commits = component ? commits.filter((commit) => commit.component !== component) : [];
+  emitChange();
+}
+
+/**
+ * React.Profiler onRender callback for render counters: counts the commits of
+ * each counter's Profiler without adding them to the timeline
+ */
+export const recordCounterCommit: ProfilerOnRenderCallback = (counterId) => {
+  counterCommits.set(counterId, (counterCommits.get(counterId) ?? 0) + 1);
+  counterListeners.get(counterId)?.forEach((listener) => listener());
+};
+
+/**
+ * Subscribe to one render counter's commit count (useSyncExternalStore compatible).
+ * The count is forgotten once its counter unmounts.
+ */
+export function subscribeToCounterCommits(counterId: string, listener: () => void): () => void {
+  let counterSet = counterListeners.get(counterId);
+  if (!counterSet) {
+    counterSet = new Set();
+    counterListeners.set(counterId, counterSet);
+  }
+  const subscribed = counterSet;
+  subscribed.add(listener);
+
+  return () => {
+    subscribed.delete(listener);
+    // StrictMode unsubscribes and immediately resubscribes; only forget counters that stay gone
+    queueMicrotask(() => {
+      if (subscribed.size === 0 && counterListeners.get(counterId) === subscribed) {
+        counterListeners.delete(counterId);
+        counterCommits.delete(counterId);
+      }
+    });
+  };
+}
+
+/**
+ * Number of commits recorded for a render counter's Profiler
+ */
+export function getCounterCommits(counterId: string): number {
+  return counterCommits.get(counterId) ?? 0;
+}
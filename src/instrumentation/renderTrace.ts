@@ -0,0 +1,117 @@
+import { useLayoutEffect, useRef } from 'react';
+import type { RenderReason, RenderTrace } from '../types';
+
+// Previous committed renders kept for the popover
+const MAX_HISTORY = 4;
+
+type TracedValues = Record<string, unknown>;
+
+interface CommittedTrace {
+  props: TracedValues;
+  contexts: TracedValues;
+  history: RenderReason[][];
+}
+
+/**
+ * Structural equality for plain data; functions compare by source text
+ */
+function isStructurallyEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a === 'function' && typeof b === 'function') {
+    return a.toString() === b.toString();
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isStructurallyEqual((a as TracedValues)[key], (b as TracedValues)[key])
+    )
+  );
+}
+
+/**
+ * Compare two sets of named values, classifying each change as a new
+ * reference to equal data or an actual value change
+ */
+function diffValues(
+  kind: 'prop' | 'context',
+  previous: TracedValues,
+  next: TracedValues
+): RenderReason[] {
+  const names = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const reasons: RenderReason[] = [];
+  names.forEach((name) => {
+    if (!Object.is(previous[name], next[name])) {
+      const change = isStructurallyEqual(previous[name], next[name]) ? 'reference' : 'value';
+      reasons.push({ kind, name, change });
+    }
+  });
+  return reasons;
+}
+
+/**
+ * Record why a component rendered: which props or contexts changed (by
+ * reference or by value), or that nothing did and its parent re-rendered.
+ * Pass the result to <InlineRenderCounter trace={...} />.
+ */
+export function useRenderTrace(
+  component: string,
+  props: TracedValues,
+  contexts: TracedValues = {}
+): RenderTrace {
+  const committedRef = useRef<CommittedTrace | null>(null);
+  const committed = committedRef.current;
+
+  let reasons: RenderReason[];
+  if (!committed) {
+    reasons = [{ kind: 'mount' }];
+  } else {
+    reasons = [
+      ...diffValues('prop', committed.props, props),
+      ...diffValues('context', committed.contexts, contexts),
+    ];
+    if (reasons.length === 0) {
+      reasons = [{ kind: 'parent' }];
+    }
+  }
+  const history = committed?.history ?? [];
+
+  // Only committed renders become the baseline for the next comparison
+  useLayoutEffect(() => {
+    committedRef.current = {
+      props,
+      contexts,
+      history: [reasons, ...history].slice(0, MAX_HISTORY),
+    };
+  });
+
+  return { component, reasons, history };
+}
+
+/**
+ * Human readable description of a render reason
+ */
+export function describeRenderReason(reason: RenderReason): string {
+  switch (reason.kind) {
+    case 'mount':
+      return 'First render (mount)';
+    case 'prop':
+      return reason.change === 'reference'
+        ? `Prop "${reason.name}" is a new reference with equal content`
+        : `Prop "${reason.name}" changed value`;
+    case 'context':
+      return reason.change === 'reference'
+        ? `Context ${reason.name} provided a new reference with equal content`
+        : `Context ${reason.name} changed value`;
+    case 'parent':
+      return 'Parent re-rendered (props and context unchanged)';
+    default:
+      return 'Unknown reason';
+  }
+}
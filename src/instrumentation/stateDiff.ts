@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { StateDiffEntry } from '../types';
+
+// Long values are cut so a diff row stays on one line
+const MAX_VALUE_LENGTH = 40;
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function formatValue(value: unknown): string {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Arrays of objects with unique ids are matched by id, so removing an item
+ * doesn't show every later index as changed
+ */
+function getItemIds(items: unknown[]): unknown[] | null {
+  const ids = items.map((item) =>
+    isContainer(item) && !Array.isArray(item) && 'id' in item ? item.id : undefined
+  );
+  return ids.every((id) => id !== undefined) && new Set(ids).size === ids.length ? ids : null;
+}
+
+function diffArray(path: string, before: unknown[], after: unknown[], entries: StateDiffEntry[]): boolean {
+  const beforeIds = getItemIds(before);
+  const afterIds = getItemIds(after);
+  let contentChanged = false;
+
+  if (beforeIds && afterIds) {
+    beforeIds.forEach((id, index) => {
+      const itemPath = `${path}[id=${String(id)}]`;
+      const afterIndex = afterIds.indexOf(id);
+      if (afterIndex === -1) {
+        entries.push({ kind: 'removed', path: itemPath, value: formatValue(before[index]) });
+        contentChanged = true;
+      } else if (diffValue(itemPath, before[index], after[afterIndex], entries)) {
+        contentChanged = true;
+      }
+    });
+    afterIds.forEach((id, index) => {
+      if (!beforeIds.includes(id)) {
+        entries.push({ kind: 'added', path: `${path}[id=${String(id)}]`, value: formatValue(after[index]) });
+        contentChanged = true;
+      }
+    });
+    // Same items in a different order is still a content change
+    return contentChanged || beforeIds.some((id, index) => afterIds[index] !== id);
+  }
+
+  const length = Math.max(before.length, after.length);
+  for (let index = 0; index < length; index++) {
+    const itemPath = `${path}[${index}]`;
+    if (index >= after.length) {
+      entries.push({ kind: 'removed', path: itemPath, value: formatValue(before[index]) });
+      contentChanged = true;
+    } else if (index >= before.length) {
+      entries.push({ kind: 'added', path: itemPath, value: formatValue(after[index]) });
+      contentChanged = true;
+    } else if (diffValue(itemPath, before[index], after[index], entries)) {
+      contentChanged = true;
+    }
+  }
+  return contentChanged;
+}
+
+function diffObject(
+  path: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  entries: StateDiffEntry[]
+): boolean {
+  let contentChanged = false;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach((key) => {
+    const keyPath = `${path}.${key}`;
+    if (!(key in after)) {
+      entries.push({ kind: 'removed', path: keyPath, value: formatValue(before[key]) });
+      contentChanged = true;
+    } else if (!(key in before)) {
+      entries.push({ kind: 'added', path: keyPath, value: formatValue(after[key]) });
+      contentChanged = true;
+    } else if (diffValue(keyPath, before[key], after[key], entries)) {
+      contentChanged = true;
+    }
+  });
+  return contentChanged;
+}
+
+/**
+ * Append the differences at `path` and return whether its content changed.
+ * Objects and arrays that kept their reference are reported once and not descended into.
+ */
+function diffValue(path: string, before: unknown, after: unknown, entries: StateDiffEntry[]): boolean {
+  if (Object.is(before, after)) {
+    if (isContainer(before)) {
+      entries.push({ kind: 'reused', path });
+    }
+    return false;
+  }
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const index = entries.length;
+    entries.push({ kind: 'recreated', path, contentChanged: false });
+    const contentChanged = Array.isArray(before)
+      ? diffArray(path, before, after as unknown[], entries)
+      : diffObject(path, before, after as Record<string, unknown>, entries);
+    entries[index] = { kind: 'recreated', path, contentChanged };
+    return contentChanged;
+  }
+
+  entries.push({ kind: 'changed', path, before: formatValue(before), after: formatValue(after) });
+  return true;
+}
+
+/**
+ * Structural diff of two states: added, removed and changed paths, plus
+ * which objects and arrays were recreated or kept their reference
+ */
+export function diffState(before: unknown, after: unknown, rootLabel = 'state'): StateDiffEntry[] {
+  const entries: StateDiffEntry[] = [];
+  diffValue(rootLabel, before, after, entries);
+  return entries;
+}
+
+/**
+ * The previous and current value of a piece of state, for showing what the
+ * last update changed. Works with any setter style, including updater functions.
+ */
+export function useStateChange<T>(value: T): { before: T; after: T } {
+  const [change, setChange] = useState({ before: value, after: value });
+
+  // Adjusting state during render: React re-renders immediately with the new pair
+  if (!Object.is(change.after, value)) {
+    setChange({ before: change.after, after: value });
+  }
+
+  return change;
+}
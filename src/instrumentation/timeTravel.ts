@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useMemo, useReducer } from 'react';
+import type { ActionLogEntry, TimeTravel } from '../types';
+
+// Delay between re-run actions while replaying, slow enough to follow in the UI
+const REPLAY_INTERVAL_MS = 600;
+
+interface TimeTravelState<S, A> {
+  entries: ActionLogEntry<S, A>[];
+  cursor: number;
+  // Next entry to re-run, null when not replaying
+  replayIndex: number | null;
+  nextId: number;
+}
+
+type TimeTravelAction<A> =
+  | { type: 'DISPATCH'; action: A; timestamp: number }
+  | { type: 'JUMP'; index: number }
+  | { type: 'STEP'; delta: 1 | -1 }
+  | { type: 'REPLAY_FROM'; index: number }
+  | { type: 'REPLAY_STEP' }
+  | { type: 'CLEAR' };
+
+const emptyHistory: TimeTravelState<never, never> = {
+  entries: [],
+  cursor: -1,
+  replayIndex: null,
+  nextId: 1,
+};
+
+function clampIndex(index: number, length: number): number {
+  return Math.min(Math.max(index, -1), length - 1);
+}
+
+/**
+ * Wrap a reducer so every action is logged with the state before and after it.
+ * The wrapper is itself a reducer: time travel only works because the wrapped
+ * one is pure, so re-running a logged action always lands on the same state.
+ */
+function createTimeTravelReducer<S, A>(reducer: (state: S, action: A) => S, initialState: S) {
+  const stateAt = (entries: ActionLogEntry<S, A>[], index: number): S =>
+    index < 0 ? initialState : entries[index].nextState;
+
+  return (history: TimeTravelState<S, A>, action: TimeTravelAction<A>): TimeTravelState<S, A> => {
+    switch (action.type) {
+      case 'DISPATCH': {
+        // Dispatching from the past discards the entries after the cursor
+        const entries = history.entries.slice(0, history.cursor + 1);
+        const prevState = stateAt(entries, history.cursor);
+        const entry: ActionLogEntry<S, A> = {
+          id: history.nextId,
+          action: action.action,
+          prevState,
+          nextState: reducer(prevState, action.action),
+          timestamp: action.timestamp,
+        };
+        return {
+          entries: [...entries, entry],
+          cursor: entries.length,
+          replayIndex: null,
+          nextId: history.nextId + 1,
+        };
+      }
+      case 'JUMP':
+        return {
+          ...history,
+          cursor: clampIndex(action.index, history.entries.length),
+          replayIndex: null,
+        };
+      case 'STEP':
+        return {
+          ...history,
+          cursor: clampIndex(history.cursor + action.delta, history.entries.length),
+          replayIndex: null,
+        };
+      case 'REPLAY_FROM':
+        if (action.index < 0 || action.index >= history.entries.length) {
+          return history;
+        }
+        return { ...history, cursor: action.index - 1, replayIndex: action.index };
+      case 'REPLAY_STEP': {
+        const index = history.replayIndex;
+        if (index === null || index >= history.entries.length) {
+          return { ...history, replayIndex: null };
+        }
+        const recorded = history.entries[index];
+        const prevState = stateAt(history.entries, index - 1);
+        const nextState = reducer(prevState, recorded.action);
+        const entries = [...history.entries];
+        entries[index] = {
+          ...recorded,
+          prevState,
+          nextState,
+          replay: {
+            matchesRecording: JSON.stringify(nextState) === JSON.stringify(recorded.nextState),
+          },
+        };
+        return {
+          ...history,
+          entries,
+          cursor: index,
+          replayIndex: index + 1 < entries.length ? index + 1 : null,
+        };
+      }
+      case 'CLEAR':
+        return { ...history, entries: [], cursor: -1, replayIndex: null };
+      default:
+        return history;
+    }
+  };
+}
+
+/**
+ * useReducer with an action log: jump to any logged state, step through
+ * history, or replay the actions from a point by running the reducer again.
+ */
+export function useTimeTravelReducer<S, A>(
+  reducer: (state: S, action: A) => S,
+  initialState: S
+): TimeTravel<S, A> {
+  const timeTravelReducer = useMemo(
+    () => createTimeTravelReducer(reducer, initialState),
+    [reducer, initialState]
+  );
+  const [history, dispatchHistory] = useReducer(
+    timeTravelReducer,
+    emptyHistory as TimeTravelState<S, A>
+  );
+
+  useEffect(() => {
+    if (history.replayIndex === null) return;
+    const timeoutId = window.setTimeout(
+      () => dispatchHistory({ type: 'REPLAY_STEP' }),
+      REPLAY_INTERVAL_MS
+    );
+    return () => window.clearTimeout(timeoutId);
+  }, [history.replayIndex]);
+
+  const dispatch = useCallback(
+    (action: A) => dispatchHistory({ type: 'DISPATCH', action, timestamp: Date.now() }),
+    []
+  );
+  const jumpTo = useCallback((index: number) => dispatchHistory({ type: 'JUMP', index }), []);
+  const stepBack = useCallback(() => dispatchHistory({ type: 'STEP', delta: -1 }), []);
+  const stepForward = useCallback(() => dispatchHistory({ type: 'STEP', delta: 1 }), []);
+  const replayFrom = useCallback(
+    (index: number) => dispatchHistory({ type: 'REPLAY_FROM', index }),
+    []
+  );
+  const clear = useCallback(() => dispatchHistory({ type: 'CLEAR' }), []);
+
+  const { entries, cursor } = history;
+
+  return {
+    state: cursor < 0 ? initialState : entries[cursor].nextState,
+    dispatch,
+    entries,
+    cursor,
+    isReplaying: history.replayIndex !== null,
+    jumpTo,
+    stepBack,
+    stepForward,
+    replayFrom,
+    clear,
+  };
+}
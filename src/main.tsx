@@ -1,5 +1,5 @@
-import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { registerSW } from 'virtual:pwa-register';
 import App from './App';
 import './styles/index.css';
 
@@ -9,8 +9,8 @@ if (!rootElement) {
   throw new Error('Failed to find the root element. Make sure there is a <div id="root"></div> in your index.html');
 }
 
-createRoot(rootElement).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+// StrictMode is applied to playground previews only, see StrictModeContext
+createRoot(rootElement).render(<App />);
+
+// Precache the app shell and editor so the studio keeps working offline
+registerSW({ immediate: true });
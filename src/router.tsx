@@ -1,17 +1,24 @@
-import { createBrowserRouter, Navigate } from 'react-router-dom';
+import { Suspense } from 'react';
+import { createBrowserRouter, Link } from 'react-router-dom';
+import { ChunkErrorBoundary } from './components/ChunkErrorBoundary';
 import { Layout } from './components/Layout';
-import { UseStatePlayground } from './hooks/useStatePlayground';
-import { UseEffectPlayground } from './hooks/useEffectPlayground';
-import { UseReducerPlayground } from './hooks/useReducerPlayground';
-import { UseRefPlayground } from './hooks/useRefPlayground';
-import { UseMemoPlayground } from './hooks/useMemoPlayground';
-import { UseCallbackPlayground } from './hooks/useCallbackPlayground';
-import { UseContextPlayground } from './hooks/useContextPlayground';
+import { NotFoundPage } from './components/NotFoundPage';
+import { PlaygroundLoading } from './components/PlaygroundLoading';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { RouteErrorPage } from './components/RouteErrorPage';
+import { SearchPage } from './components/SearchPage';
+import { hookRegistry } from './data/hookRegistry';
+import { hooksList } from './data/hooksList';
+import { useProgress } from './context/ProgressContext';
+import { getHookStatus, getSuggestedHooks } from './utils/progress';
 
 /**
  * Home page component with welcome message
  */
 function HomePage(): JSX.Element {
+  const { progress, getHookProgress } = useProgress();
+  const [nextHook] = getSuggestedHooks(hooksList, progress, 1);
+
   return (
     <div className="max-w-5xl mx-auto animate-fade-in">
       {/* Hero Section */}
@@ -91,21 +98,25 @@ function HomePage(): JSX.Element {
         <div className="relative text-center">
           <h2 className="text-3xl font-bold text-white mb-4">Ready to start learning?</h2>
           <p className="text-white/80 mb-8 text-lg">
-            Select a hook from the sidebar to begin your journey
+            Pick up with the suggested hook, or choose any hook from the sidebar
           </p>
-          <div className="flex flex-wrap justify-center gap-3">
-            {['useState', 'useEffect', 'useReducer', 'useRef', 'useMemo', 'useCallback', 'useContext'].map((hook) => (
-              <span
-                key={hook}
-                className="px-5 py-2.5 bg-white/20 backdrop-blur-sm rounded-full text-sm font-semibold text-white border border-white/20 hover:bg-white/30 transition-colors cursor-default"
-              >
-                {hook}
-              </span>
-            ))}
-          </div>
+          {nextHook && (
+            <Link
+              to={nextHook.path}
+              className="inline-block px-6 py-3 bg-white/20 backdrop-blur-sm rounded-full font-semibold text-white border border-white/20 hover:bg-white/30 transition-colors"
+            >
+              {getHookStatus(getHookProgress(nextHook.id)) === 'in-progress' ? 'Continue with' : 'Start with'}{' '}
+              {nextHook.name} →
+            </Link>
+          )}
         </div>
       </div>
 
+      {/* Progress */}
+      <div className="mt-16">
+        <ProgressDashboard />
+      </div>
+
       {/* Footer note */}
       <p className="text-center text-slate-500 dark:text-dark-muted text-sm mt-12">
         Built with React 18, TypeScript, and TailwindCSS
@@ -115,48 +126,42 @@ function HomePage(): JSX.Element {
 }
 
 /**
- * Application router configuration
+ * Application router configuration, with one route per registry entry
  */
 export const router = createBrowserRouter([
   {
     path: '/',
     element: <Layout>{null}</Layout>,
+    errorElement: (
+      <Layout>
+        <RouteErrorPage />
+      </Layout>
+    ),
     children: [
       {
         index: true,
         element: <HomePage />,
       },
+      ...hooksList.map((hook) => {
+        const { Component } = hookRegistry[hook.id];
+        return {
+          path: hook.path.slice(1),
+          element: (
+            <ChunkErrorBoundary>
+              <Suspense fallback={<PlaygroundLoading />}>
+                <Component />
+              </Suspense>
+            </ChunkErrorBoundary>
+          ),
+        };
+      }),
       {
-        path: 'hooks/use-state',
-        element: <UseStatePlayground />,
-      },
-      {
-        path: 'hooks/use-effect',
-        element: <UseEffectPlayground />,
-      },
-      {
-        path: 'hooks/use-reducer',
-        element: <UseReducerPlayground />,
-      },
-      {
-        path: 'hooks/use-ref',
-        element: <UseRefPlayground />,
-      },
-      {
-        path: 'hooks/use-memo',
-        element: <UseMemoPlayground />,
-      },
-      {
-        path: 'hooks/use-callback',
-        element: <UseCallbackPlayground />,
-      },
-      {
-        path: 'hooks/use-context',
-        element: <UseContextPlayground />,
+        path: 'search',
+        element: <SearchPage />,
       },
       {
         path: '*',
-        element: <Navigate to="/" replace />,
+        element: <NotFoundPage />,
       },
     ],
   },
@@ -0,0 +1,126 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as jsxRuntime from 'react/jsx-runtime';
+import { transform } from 'sucrase';
+import { useGuardedReducer, useGuardedState } from '../instrumentation/immutabilityGuard';
+import type { ComponentType } from 'react';
+import type { SnippetResult } from '../types';
+
+/**
+ * Modules that snippets are allowed to import
+ */
+const sandboxModules: Record<string, unknown> = {
+  // State hooks are guarded so mutating state in snippets is reported
+  react: { ...React, useState: useGuardedState, useReducer: useGuardedReducer },
+  'react/jsx-runtime': jsxRuntime,
+  'react-dom': ReactDOM,
+};
+
+// Top-level (unindented) capitalized function/const declarations
+const TOP_LEVEL_COMPONENT_PATTERN =
+  /^(?:export\s+(?:default\s+)?)?(?:function\s+|const\s+|let\s+)([A-Z][A-Za-z0-9_]*)/gm;
+
+/**
+ * Resolve imports from the snippet against the sandbox module table
+ */
+function sandboxRequire(name: string): unknown {
+  if (!(name in sandboxModules)) {
+    throw new Error(`Cannot import "${name}" in the playground. Available modules: ${Object.keys(sandboxModules).join(', ')}`);
+  }
+  return sandboxModules[name];
+}
+
+/**
+ * Find component names declared at the top level of the snippet, in source order
+ */
+function findDeclaredComponents(source: string): string[] {
+  return Array.from(source.matchAll(TOP_LEVEL_COMPONENT_PATTERN), (match) => match[1]);
+}
+
+const WRAPPED_COMPONENT_TYPES = [Symbol.for('react.memo'), Symbol.for('react.forward_ref'), Symbol.for('react.lazy')];
+
+function isComponent(value: unknown): value is ComponentType {
+  if (typeof value === 'function') {
+    return true;
+  }
+  // memo/forwardRef/lazy components are objects; contexts also have $$typeof but aren't renderable
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    WRAPPED_COMPONENT_TYPES.includes((value as { $$typeof?: symbol }).$$typeof as symbol)
+  );
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Transpile a TSX snippet and pick the component to mount.
+ *
+ * Prefers the default export, then the last named export, then the last
+ * component declared at the top level (most examples export nothing).
+ * `globals` shadow browser globals of the same name inside the snippet only.
+ */
+export function compileSnippet(source: string, globals: Record<string, unknown> = {}): SnippetResult {
+  let compiled: string;
+  try {
+    compiled = transform(source, {
+      transforms: ['typescript', 'jsx', 'imports'],
+      jsxRuntime: 'automatic',
+      production: true,
+    }).code;
+  } catch (error) {
+    return { status: 'error', phase: 'compile', message: getErrorMessage(error) };
+  }
+
+  const declared = findDeclaredComponents(source);
+  const lookups = declared
+    .map((name) => `${JSON.stringify(name)}: typeof ${name} !== 'undefined' ? ${name} : undefined`)
+    .join(', ');
+
+  let moduleExports: Record<string, unknown>;
+  let declaredValues: Record<string, unknown>;
+  try {
+    const module = { exports: {} as Record<string, unknown> };
+    const globalNames = Object.keys(globals);
+    const evaluate = new Function(
+      'require',
+      'module',
+      'exports',
+      ...globalNames,
+      `${compiled}\nreturn { ${lookups} };`
+    ) as (
+      require: (name: string) => unknown,
+      module: { exports: Record<string, unknown> },
+      exports: Record<string, unknown>,
+      ...globalValues: unknown[]
+    ) => Record<string, unknown>;
+    declaredValues = evaluate(sandboxRequire, module, module.exports, ...globalNames.map((name) => globals[name]));
+    moduleExports = module.exports;
+  } catch (error) {
+    return { status: 'error', phase: 'runtime', message: getErrorMessage(error) };
+  }
+
+  if (isComponent(moduleExports.default)) {
+    return { status: 'success', component: moduleExports.default, componentName: 'default export' };
+  }
+
+  const exportedName = Object.keys(moduleExports)
+    .filter((name) => name !== 'default' && name !== '__esModule' && isComponent(moduleExports[name]))
+    .pop();
+  if (exportedName) {
+    return { status: 'success', component: moduleExports[exportedName] as ComponentType, componentName: exportedName };
+  }
+
+  const declaredName = declared.filter((name) => isComponent(declaredValues[name])).pop();
+  if (declaredName) {
+    return { status: 'success', component: declaredValues[declaredName] as ComponentType, componentName: declaredName };
+  }
+
+  return {
+    status: 'error',
+    phase: 'runtime',
+    message: 'No component found. Export a component or declare one at the top level (e.g. function App() { ... }).',
+  };
+}
@@ -0,0 +1,383 @@
+import { Component, createElement, type ReactNode } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot, type Root } from 'react-dom/client';
+import { compileSnippet } from './compileSnippet';
+import { getMutations } from '../instrumentation/immutabilityGuard';
+import type {
+  ExerciseRunResult,
+  ExerciseTest,
+  ExerciseTestContext,
+  ExerciseTestResult,
+  MockMediaQuery,
+} from '../types';
+
+const TEST_TIMEOUT_MS = 5000;
+const WAIT_FOR_TIMEOUT_MS = 1000;
+const POLL_INTERVAL_MS = 20;
+
+type TextMatcher = string | RegExp;
+type FormField = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+interface TrackedListener {
+  type: string;
+  listener: EventListenerOrEventListenerObject;
+  capture: boolean;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer = 0;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => window.clearTimeout(timer));
+}
+
+function normalizeText(text: string | null): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function matchesText(text: string | null, matcher: TextMatcher): boolean {
+  const normalized = normalizeText(text);
+  return typeof matcher === 'string' ? normalized === matcher : matcher.test(normalized);
+}
+
+function describeMatcher(matcher: TextMatcher): string {
+  return typeof matcher === 'string' ? `"${matcher}"` : matcher.toString();
+}
+
+function getCapture(options?: boolean | AddEventListenerOptions | EventListenerOptions): boolean {
+  return typeof options === 'boolean' ? options : Boolean(options?.capture);
+}
+
+/**
+ * Set a form control's value the way the browser does, so React's change
+ * tracking notices it
+ */
+function setNativeValue(field: FormField, value: string): void {
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), 'value')?.set;
+  if (setter) {
+    setter.call(field, value);
+  } else {
+    field.value = value;
+  }
+}
+
+interface ExerciseErrorBoundaryProps {
+  onError: (error: Error) => void;
+  children?: ReactNode;
+}
+
+class ExerciseErrorBoundary extends Component<ExerciseErrorBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError(): { failed: boolean } {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error): void {
+    this.props.onError(error);
+  }
+
+  render(): ReactNode {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+/**
+ * Globals handed to the learner's module in place of the browser's own.
+ * Only intervals and window listeners created through them are tracked, so
+ * the app's own timers and listeners are never counted or removed, and
+ * matchMedia can be faked without touching the real window. Everything the
+ * component leaked is cleared by restore, after which the module can't
+ * start new intervals or listeners.
+ */
+function createEnvironment() {
+  const intervals = new Set<number>();
+  const listeners: TrackedListener[] = [];
+  let matchMedia: (query: string) => MediaQueryList = (query) => window.matchMedia(query);
+  let disposed = false;
+
+  const setInterval = (handler: TimerHandler, timeout?: number, ...args: unknown[]): number => {
+    if (disposed) return 0;
+    const id = window.setInterval(handler, timeout, ...args);
+    intervals.add(id);
+    return id;
+  };
+  const clearInterval = (id?: number): void => {
+    if (id !== undefined) intervals.delete(id);
+    window.clearInterval(id);
+  };
+
+  const addEventListener = (
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions
+  ): void => {
+    if (!listener || disposed) return;
+    listeners.push({ type, listener, capture: getCapture(options) });
+    window.addEventListener(type, listener, options);
+  };
+  const removeEventListener = (
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions
+  ): void => {
+    if (!listener) return;
+    const capture = getCapture(options);
+    const index = listeners.findIndex(
+      (entry) => entry.type === type && entry.listener === listener && entry.capture === capture
+    );
+    if (index !== -1) listeners.splice(index, 1);
+    window.removeEventListener(type, listener, options);
+  };
+
+  const overrides: Record<PropertyKey, unknown> = {
+    setInterval,
+    clearInterval,
+    addEventListener,
+    removeEventListener,
+    matchMedia: (query: string) => matchMedia(query),
+  };
+
+  // `window.setInterval(...)` in the learner's code resolves to the tracked versions too
+  const scopedWindow = new Proxy(window, {
+    get(target, key) {
+      if (key in overrides) return overrides[key];
+      const value: unknown = Reflect.get(target, key);
+      // Native methods throw "Illegal invocation" unless called on the real window
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set(target, key, value) {
+      return Reflect.set(target, key, value);
+    },
+  });
+
+  const mockMediaQuery = (initialMatches: boolean): MockMediaQuery => {
+    let matches = initialMatches;
+    const changeListeners = new Set<(event: MediaQueryListEvent) => void>();
+
+    matchMedia = (query: string) => {
+      const list = {
+        get matches() {
+          return matches;
+        },
+        media: query,
+        onchange: null as ((event: MediaQueryListEvent) => void) | null,
+        addEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => {
+          changeListeners.add(listener);
+        },
+        removeEventListener: (_type: string, listener: (event: MediaQueryListEvent) => void) => {
+          changeListeners.delete(listener);
+        },
+        addListener: (listener: (event: MediaQueryListEvent) => void) => {
+          changeListeners.add(listener);
+        },
+        removeListener: (listener: (event: MediaQueryListEvent) => void) => {
+          changeListeners.delete(listener);
+        },
+        dispatchEvent: () => true,
+      };
+      return list as unknown as MediaQueryList;
+    };
+
+    return {
+      setMatches: (next) => {
+        matches = next;
+        const event = { matches: next, media: '' } as MediaQueryListEvent;
+        changeListeners.forEach((listener) => listener(event));
+      },
+      listenerCount: () => changeListeners.size,
+    };
+  };
+
+  const restore = (): void => {
+    disposed = true;
+    intervals.forEach((id) => window.clearInterval(id));
+    intervals.clear();
+    listeners.forEach(({ type, listener, capture }) => window.removeEventListener(type, listener, capture));
+    listeners.length = 0;
+  };
+
+  return {
+    globals: { ...overrides, window: scopedWindow },
+    activeIntervals: () => intervals.size,
+    activeListeners: (type: string) => listeners.filter((entry) => entry.type === type).length,
+    isDisposed: () => disposed,
+    mockMediaQuery,
+    restore,
+  };
+}
+
+/**
+ * Compile a fresh copy of the learner's module and run one test against it
+ */
+async function runTest(source: string, test: ExerciseTest): Promise<ExerciseTestResult> {
+  const environment = createEnvironment();
+  const compiled = compileSnippet(source, environment.globals);
+  if (compiled.status === 'error') {
+    environment.restore();
+    return { name: test.name, status: 'failed', message: compiled.message };
+  }
+  const component = compiled.component;
+
+  const startedAt = Date.now();
+  const host = document.createElement('div');
+  host.setAttribute('aria-hidden', 'true');
+  host.style.cssText = 'position: fixed; top: 0; left: -10000px; width: 800px;';
+  document.body.appendChild(host);
+
+  let root: Root | null = null;
+  let firstFrame = '';
+  let failure: Error | null = null;
+
+  const handleUncaughtError = (event: ErrorEvent): void => {
+    failure ??= event.error instanceof Error ? event.error : new Error(event.message);
+  };
+  window.addEventListener('error', handleUncaughtError);
+
+  const handleRenderError = (error: Error): void => {
+    failure ??= error;
+  };
+
+  const throwIfFailed = (): void => {
+    if (failure) throw new Error(`The component threw: ${failure.message}`);
+    // A test that timed out keeps running; stop it at its next query or wait
+    if (environment.isDisposed()) throw new Error('The test has already finished');
+  };
+
+  const queryByText = (matcher: TextMatcher): HTMLElement | null => {
+    throwIfFailed();
+    const matching = Array.from(host.querySelectorAll<HTMLElement>('*')).filter((element) =>
+      matchesText(element.textContent, matcher)
+    );
+    // The innermost match, not every ancestor that contains it
+    return matching.find((element) => !matching.some((other) => other !== element && element.contains(other))) ?? null;
+  };
+
+  const waitFor = async (check: () => void, timeoutMs = WAIT_FOR_TIMEOUT_MS): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      throwIfFailed();
+      try {
+        check();
+        return;
+      } catch (error) {
+        if (Date.now() >= deadline) throw error;
+      }
+      await delay(POLL_INTERVAL_MS);
+    }
+  };
+
+  const t: ExerciseTestContext = {
+    render: async () => {
+      throwIfFailed();
+      const mountedRoot = createRoot(host);
+      root = mountedRoot;
+      // A synchronous first render applies layout-effect updates before returning but leaves
+      // updates from passive effects pending, matching what the first painted frame shows
+      flushSync(() => {
+        mountedRoot.render(
+          createElement(ExerciseErrorBoundary, { onError: handleRenderError }, createElement(component))
+        );
+      });
+      firstFrame = normalizeText(host.textContent);
+      throwIfFailed();
+    },
+    unmount: () => {
+      root?.unmount();
+      root = null;
+    },
+    getByText: (matcher) => {
+      const element = queryByText(matcher);
+      if (!element) throw new Error(`Expected to find text ${describeMatcher(matcher)}, but the component shows "${t.text()}"`);
+      return element;
+    },
+    queryByText,
+    getButton: (name) => {
+      throwIfFailed();
+      const button = Array.from(host.querySelectorAll('button')).find(
+        (candidate) => matchesText(candidate.textContent, name) || matchesText(candidate.getAttribute('aria-label'), name)
+      );
+      if (!button) throw new Error(`Expected a button named ${describeMatcher(name)}`);
+      return button;
+    },
+    getField: <T extends FormField = HTMLInputElement>(label: TextMatcher): T => {
+      throwIfFailed();
+      const field = Array.from(host.querySelectorAll<FormField>('input, select, textarea')).find(
+        (candidate) =>
+          matchesText(candidate.getAttribute('aria-label'), label) ||
+          matchesText(candidate.getAttribute('placeholder'), label) ||
+          Array.from(candidate.labels ?? []).some((element) => matchesText(element.textContent, label))
+      );
+      if (!field) throw new Error(`Expected a form field labelled ${describeMatcher(label)}`);
+      return field as T;
+    },
+    queryAll: (selector) => Array.from(host.querySelectorAll<HTMLElement>(selector)),
+    text: () => normalizeText(host.textContent),
+    firstFrameText: () => firstFrame,
+    click: (element) => element.click(),
+    type: (field, value) => {
+      setNativeValue(field, value);
+      field.dispatchEvent(new Event('input', { bubbles: true }));
+    },
+    select: (field, value) => {
+      setNativeValue(field, value);
+      field.dispatchEvent(new Event('change', { bubbles: true }));
+    },
+    pressKey: (key) => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+    },
+    wait: delay,
+    waitFor,
+    assert: (condition, message) => {
+      if (!condition) throw new Error(message);
+    },
+    activeIntervals: environment.activeIntervals,
+    activeListeners: environment.activeListeners,
+    mutations: () => getMutations().filter((mutation) => mutation.timestamp >= startedAt),
+    mockMediaQuery: environment.mockMediaQuery,
+  };
+
+  try {
+    await withTimeout(test.run(t), TEST_TIMEOUT_MS, `Timed out after ${TEST_TIMEOUT_MS / 1000}s`);
+    throwIfFailed();
+    return { name: test.name, status: 'passed' };
+  } catch (error) {
+    return { name: test.name, status: 'failed', message: getErrorMessage(error) };
+  } finally {
+    t.unmount();
+    host.remove();
+    environment.restore();
+    window.removeEventListener('error', handleUncaughtError);
+  }
+}
+
+/**
+ * Compile the learner's code and run an exercise's hidden tests in order.
+ *
+ * Each test compiles its own copy of the module, so module-level variables
+ * start fresh, and mounts it in a detached root without StrictMode.
+ */
+export async function runExercise(source: string, tests: ExerciseTest[]): Promise<ExerciseRunResult> {
+  // Top-level code runs on compile; keep anything it starts out of the app
+  const environment = createEnvironment();
+  const compiled = compileSnippet(source, environment.globals);
+  environment.restore();
+  if (compiled.status === 'error') {
+    return compiled;
+  }
+
+  const results: ExerciseTestResult[] = [];
+  for (const test of tests) {
+    results.push(await runTest(source, test));
+  }
+  return { status: 'done', results };
+}
@@ -0,0 +1,26 @@
+import { loader } from '@monaco-editor/react';
+import * as editorApi from 'monaco-editor/esm/vs/editor/editor.api.js';
+import 'monaco-editor/esm/vs/editor/edcore.main.js';
+import * as typescript from 'monaco-editor/esm/vs/language/typescript/monaco.contribution.js';
+import 'monaco-editor/esm/vs/basic-languages/typescript/typescript.contribution.js';
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
+import TypeScriptWorker from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker';
+
+/**
+ * Serve Monaco from the app bundle instead of the CDN @monaco-editor/react
+ * uses by default, so the editor works offline. Only the editor core and the
+ * TypeScript language are bundled; snippets are always TSX.
+ *
+ * Imported for its side effects by the editor components, which keeps Monaco
+ * in their lazy chunk.
+ */
+self.MonacoEnvironment = {
+  getWorker(_workerId, label) {
+    if (label === 'typescript' || label === 'javascript') {
+      return new TypeScriptWorker();
+    }
+    return new EditorWorker();
+  },
+};
+
+loader.config({ monaco: { ...editorApi, typescript } });
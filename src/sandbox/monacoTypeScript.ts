@@ -0,0 +1,59 @@
+import type { Monaco } from '@monaco-editor/react';
+import reactTypes from '/node_modules/@types/react/index.d.ts?raw';
+import reactGlobalTypes from '/node_modules/@types/react/global.d.ts?raw';
+import reactJsxRuntimeTypes from '/node_modules/@types/react/jsx-runtime.d.ts?raw';
+import reactDomTypes from '/node_modules/@types/react-dom/index.d.ts?raw';
+import propTypesTypes from '/node_modules/@types/prop-types/index.d.ts?raw';
+import cssTypes from '/node_modules/csstype/index.d.ts?raw';
+
+/**
+ * Declaration files for every module the sandbox lets snippets import,
+ * laid out the way TypeScript's node resolution expects to find them
+ */
+const extraLibs = [
+  { filePath: 'file:///node_modules/@types/react/index.d.ts', content: reactTypes },
+  { filePath: 'file:///node_modules/@types/react/global.d.ts', content: reactGlobalTypes },
+  { filePath: 'file:///node_modules/@types/react/jsx-runtime.d.ts', content: reactJsxRuntimeTypes },
+  { filePath: 'file:///node_modules/@types/react-dom/index.d.ts', content: reactDomTypes },
+  { filePath: 'file:///node_modules/@types/prop-types/index.d.ts', content: propTypesTypes },
+  { filePath: 'file:///node_modules/csstype/index.d.ts', content: cssTypes },
+];
+
+let configured = false;
+
+/**
+ * Point Monaco's TypeScript worker at the React typings and mirror the
+ * compiler options from tsconfig.app.json. Safe to call on every mount.
+ *
+ * noUnusedLocals/noUnusedParameters are left off: examples intentionally
+ * declare values they never use, and Monaco already greys those out.
+ */
+export function configureMonacoTypeScript(monaco: Monaco): void {
+  if (configured) return;
+  configured = true;
+
+  const { typescriptDefaults, JsxEmit, ModuleKind, ModuleResolutionKind, ScriptTarget } = monaco.typescript;
+
+  typescriptDefaults.setCompilerOptions({
+    target: ScriptTarget.ESNext,
+    lib: ['es2022', 'dom', 'dom.iterable'],
+    module: ModuleKind.ESNext,
+    moduleResolution: ModuleResolutionKind.NodeJs,
+    jsx: JsxEmit.ReactJSX,
+    strict: true,
+    noImplicitAny: true,
+    noFallthroughCasesInSwitch: true,
+    esModuleInterop: true,
+    allowSyntheticDefaultImports: true,
+    forceConsistentCasingInFileNames: true,
+    isolatedModules: true,
+    skipLibCheck: true,
+  });
+
+  typescriptDefaults.setDiagnosticsOptions({
+    noSemanticValidation: false,
+    noSyntaxValidation: false,
+  });
+
+  typescriptDefaults.setExtraLibs(extraLibs);
+}
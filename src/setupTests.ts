@@ -0,0 +1,7 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// Unmount rendered hooks between tests so listeners and timers don't leak across them
+afterEach(() => {
+  cleanup();
+});
@@ -1,19 +1,76 @@
+/**
+ * Every hook with a page. The registry is a Record over this union, so adding
+ * an id without an entry (or an entry without an id) fails type-checking.
+ */
+export type HookId =
+  | 'useState'
+  | 'useEffect'
+  | 'useLayoutEffect'
+  | 'useReducer'
+  | 'useSyncExternalStore'
+  | 'useRef'
+  | 'useImperativeHandle'
+  | 'useMemo'
+  | 'useCallback'
+  | 'useContext'
+  | 'useTransition'
+  | 'useId'
+  | 'useDebugValue'
+  | 'usePrevious'
+  | 'useDebounce'
+  | 'useLocalStorage'
+  | 'useInterval'
+  | 'useEventListener'
+  | 'useMediaQuery';
+
+/**
+ * Route of a hook page
+ */
+export type HookPath = `/hooks/${string}`;
+
 /**
  * Hook information type for sidebar and navigation
  */
 export interface HookInfo {
-  id: string;
+  id: HookId;
   name: string;
   description: string;
   category: HookCategory;
-  path: string;
+  path: HookPath;
   icon: string;
 }
 
+/**
+ * Text and code example shown on a hook page
+ */
+export interface HookContent {
+  title: string;
+  description: string;
+  whatItDoes: string;
+  commonMistakes: string[];
+  performanceConsiderations: string[];
+  codeExample: string;
+}
+
+/**
+ * Registry entry coupling a hook's navigation info, page content and playground
+ */
+export interface HookRegistryEntry {
+  info: Omit<HookInfo, 'id' | 'name'>;
+  content: HookContent;
+  /** Number of exercises, known without loading them (progress rings use it) */
+  exerciseCount: number;
+  /** Loads the exercises, which are only needed once the Exercises tab opens */
+  loadExercises: () => Promise<Exercise[]>;
+  /** Loads the playground module; calling it early prefetches the page */
+  load: () => Promise<{ default: React.ComponentType }>;
+  Component: React.ComponentType;
+}
+
 /**
  * Categories for organizing hooks
  */
-export type HookCategory = 'state' | 'effect' | 'ref' | 'memoization' | 'context';
+export type HookCategory = 'state' | 'effect' | 'ref' | 'memoization' | 'context' | 'concurrency' | 'utility' | 'custom';
 
 /**
  * Theme type for the application
@@ -45,6 +102,28 @@ export interface DependencyItem {
   name: string;
   value: string;
   hasChanged: boolean;
+  previousValue?: string;
+}
+
+/**
+ * A lifecycle event recorded for a tracked effect
+ */
+export interface EffectEvent {
+  id: number;
+  effect: string;
+  type: 'setup' | 'cleanup' | 'skip';
+  reason: 'mount' | 'deps-changed' | 'deps-unchanged' | 'every-render' | 'before-rerun' | 'unmount';
+  dependencies: DependencyItem[];
+  timestamp: number;
+}
+
+/**
+ * Props for EffectTimeline component
+ */
+export interface EffectTimelineProps {
+  events: EffectEvent[];
+  effects: string[];
+  onClear?: () => void;
 }
 
 /**
@@ -63,6 +142,150 @@ export interface CounterState {
   history: number[];
 }
 
+/**
+ * A dispatched action recorded by the time-travel debugger
+ */
+export interface ActionLogEntry<S, A> {
+  id: number;
+  action: A;
+  prevState: S;
+  nextState: S;
+  timestamp: number;
+  // Set once the entry has been re-run by a replay
+  replay?: { matchesRecording: boolean };
+}
+
+/**
+ * State and controls returned by useTimeTravelReducer
+ */
+export interface TimeTravel<S, A> {
+  state: S;
+  dispatch: (action: A) => void;
+  entries: ActionLogEntry<S, A>[];
+  // Index of the entry whose next state is shown, -1 for the initial state
+  cursor: number;
+  isReplaying: boolean;
+  jumpTo: (index: number) => void;
+  stepBack: () => void;
+  stepForward: () => void;
+  replayFrom: (index: number) => void;
+  clear: () => void;
+}
+
+/**
+ * One path in a structural diff between two states
+ */
+export type StateDiffEntry =
+  | { kind: 'added'; path: string; value: string }
+  | { kind: 'removed'; path: string; value: string }
+  | { kind: 'changed'; path: string; before: string; after: string }
+  | { kind: 'recreated'; path: string; contentChanged: boolean }
+  | { kind: 'reused'; path: string };
+
+/**
+ * Props for StateDiff component
+ */
+export interface StateDiffProps {
+  before: unknown;
+  after: unknown;
+  rootLabel?: string;
+}
+
+/**
+ * Payload each action type expects, keyed by action type
+ */
+export type ActionSchema = Record<string, 'none' | 'number' | 'string'>;
+
+/**
+ * Result of checking a console action against an ActionSchema
+ */
+export type ActionValidation =
+  | { status: 'valid'; action: { type: string; payload?: unknown } }
+  | { status: 'unknown-type'; action: { type: string; payload?: unknown }; knownTypes: string[] }
+  | { status: 'invalid'; message: string };
+
+/**
+ * A reducer the action console can dispatch to
+ */
+export interface ActionConsoleTarget {
+  id: string;
+  label: string;
+  schema: ActionSchema;
+  // Actions currently in the target's log, used for export
+  actions: unknown[];
+  dispatch: (action: { type: string; payload?: unknown }) => void;
+  // Clear the log and return to the initial state before an import
+  reset: () => void;
+}
+
+/**
+ * Props for ActionConsole component
+ */
+export interface ActionConsoleProps {
+  targets: ActionConsoleTarget[];
+}
+
+/**
+ * Props for ActionLog component
+ */
+export interface ActionLogProps<S, A> {
+  title: string;
+  timeTravel: TimeTravel<S, A>;
+  describeState: (state: S) => string;
+}
+
+/**
+ * A write to guarded state detected by the immutability guard
+ */
+export interface StateMutation {
+  id: number;
+  // Reducer or state hook that owns the state
+  source: string;
+  path: string;
+  operation: 'set' | 'delete';
+  value?: string;
+  timestamp: number;
+}
+
+/**
+ * A single commit recorded by React.Profiler for the render timeline
+ */
+export interface ProfilerCommit {
+  id: number;
+  component: string;
+  phase: 'mount' | 'update' | 'nested-update';
+  actualDuration: number;
+  baseDuration: number;
+  startTime: number;
+  commitTime: number;
+  timestamp: number;
+}
+
+/**
+ * Props for RenderTimeline component
+ */
+export interface RenderTimelineProps {
+  component: string;
+}
+
+/**
+ * Why a traced component rendered
+ */
+export type RenderReason =
+  | { kind: 'mount' }
+  | { kind: 'prop'; name: string; change: 'reference' | 'value' }
+  | { kind: 'context'; name: string; change: 'reference' | 'value' }
+  | { kind: 'parent' };
+
+/**
+ * Render reasons for the current render plus a few previous committed renders
+ */
+export interface RenderTrace {
+  component: string;
+  reasons: RenderReason[];
+  history: RenderReason[][];
+}
+
 /**
  * Props for RenderCounter component
  */
@@ -71,6 +294,13 @@ export interface RenderCounterProps {
   showTimestamp?: boolean;
 }
 
+/**
+ * Props for InlineRenderCounter component
+ */
+export interface InlineRenderCounterProps {
+  trace?: RenderTrace;
+}
+
 /**
  * Props for CodeEditor component
  */
@@ -80,6 +310,36 @@ export interface CodeEditorProps {
   language?: string;
   readOnly?: boolean;
   height?: string;
+  path?: string;
+}
+
+/**
+ * Props for CodeDiffView component
+ */
+export interface CodeDiffViewProps {
+  original: string;
+  modified: string;
+  language?: string;
+  height?: string;
+}
+
+/**
+ * A TypeScript diagnostic reported by the editor
+ */
+export interface EditorProblem {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  line: number;
+  column: number;
+  code?: string;
+}
+
+/**
+ * Props for ProblemsPanel component
+ */
+export interface ProblemsPanelProps {
+  problems: EditorProblem[];
+  onSelect?: (problem: EditorProblem) => void;
 }
 
 /**
@@ -88,19 +348,30 @@ export interface CodeEditorProps {
 export interface PreviewProps {
   children: React.ReactNode;
   title?: string;
+  profilerId?: string;
+}
+
+/**
+ * Result of compiling an editor snippet for the live preview
+ */
+export type SnippetResult =
+  | { status: 'success'; component: React.ComponentType; componentName: string }
+  | { status: 'error'; phase: 'compile' | 'runtime'; message: string };
+
+/**
+ * Props for SnippetPreview component
+ */
+export interface SnippetPreviewProps {
+  result: SnippetResult | null;
+  runId: number;
 }
 
 /**
  * Props for HookCard component
  */
 export interface HookCardProps {
-  title: string;
-  description: string;
-  whatItDoes: string;
-  commonMistakes: string[];
-  performanceConsiderations: string[];
+  hookId: HookId;
   children: React.ReactNode;
-  codeExample: string;
 }
 
 /**
@@ -117,3 +388,216 @@ export interface StrictModeContextValue {
   isStrictMode: boolean;
   toggleStrictMode: () => void;
 }
+
+/**
+ * Half-open character range [start, end) within a string
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of fuzzy matching a query against one or more text fields
+ */
+export interface FuzzyMatch {
+  score: number;
+  /** Matched ranges per field, in the order the fields were passed */
+  ranges: TextRange[][];
+}
+
+/**
+ * What a command palette entry points at
+ */
+export type CommandKind = 'action' | 'hook' | 'mistake' | 'consideration';
+
+/**
+ * Command palette entry: either a link or an action to run
+ */
+export type CommandItem = {
+  id: string;
+  kind: CommandKind;
+  icon: string;
+  title: string;
+  subtitle: string;
+} & ({ to: string } | { perform: () => void });
+
+/**
+ * Props for HighlightedText component
+ */
+export interface HighlightedTextProps {
+  text: string;
+  ranges: TextRange[];
+}
+
+/**
+ * Part of a hook page that a search entry was taken from
+ */
+export type SearchSection = 'description' | 'whatItDoes' | 'mistake' | 'consideration' | 'code';
+
+/**
+ * One searchable piece of hook content
+ */
+export interface SearchEntry {
+  id: string;
+  hookId: HookId;
+  section: SearchSection;
+  /** 1-based position within the mistakes or considerations list */
+  position?: number;
+  text: string;
+  /** Deep link to the section on the hook page */
+  to: string;
+}
+
+/**
+ * Excerpt of a longer text with match ranges relative to the excerpt
+ */
+export interface TextSnippet {
+  text: string;
+  ranges: TextRange[];
+  /** 1-based line number of the first snippet line, for code snippets */
+  startLine?: number;
+}
+
+/**
+ * Search entry that matched a query
+ */
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+  snippet: TextSnippet;
+}
+
+/**
+ * Learning progress for one hook
+ */
+export interface HookProgress {
+  visited: boolean;
+  codeOpened: boolean;
+  /** Ids of the exercises whose checks all passed */
+  completedExercises: string[];
+  understood: boolean;
+}
+
+/**
+ * Progress of every hook that has been touched, keyed by hook id
+ */
+export type ProgressState = Partial<Record<HookId, HookProgress>>;
+
+/**
+ * Where a hook stands, derived from its progress
+ */
+export type HookStatus = 'not-started' | 'in-progress' | 'understood';
+
+/**
+ * Progress context value
+ */
+export interface ProgressContextValue {
+  progress: ProgressState;
+  getHookProgress: (hookId: HookId) => HookProgress;
+  markVisited: (hookId: HookId) => void;
+  markCodeOpened: (hookId: HookId) => void;
+  completeExercise: (hookId: HookId, exerciseId: string) => void;
+  setUnderstood: (hookId: HookId, understood: boolean) => void;
+  resetProgress: () => void;
+}
+
+/**
+ * Props for ProgressRing component
+ */
+export interface ProgressRingProps {
+  /** Completion between 0 and 1 */
+  value: number;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Fake media query list handed to exercise tests
+ */
+export interface MockMediaQuery {
+  setMatches: (matches: boolean) => void;
+  listenerCount: () => number;
+}
+
+/**
+ * Helpers available to hidden exercise tests. Every test gets a fresh copy
+ * of the learner's module, mounted in its own detached root; updates are
+ * asynchronous, so expectations after an interaction go through waitFor.
+ */
+export interface ExerciseTestContext {
+  /** Mount the learner's component; the first render is synchronous */
+  render: () => Promise<void>;
+  unmount: () => void;
+  getByText: (text: string | RegExp) => HTMLElement;
+  queryByText: (text: string | RegExp) => HTMLElement | null;
+  getButton: (name: string | RegExp) => HTMLButtonElement;
+  /** Form control by aria-label, placeholder or <label> text */
+  getField: <T extends HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement = HTMLInputElement>(
+    label: string | RegExp
+  ) => T;
+  queryAll: (selector: string) => HTMLElement[];
+  /** Text content of the mounted component */
+  text: () => string;
+  /** Text content after the first render, without updates from passive effects: what the first painted frame shows */
+  firstFrameText: () => string;
+  click: (element: HTMLElement) => void;
+  type: (field: HTMLInputElement | HTMLTextAreaElement, value: string) => void;
+  select: (field: HTMLSelectElement, value: string) => void;
+  /** Dispatch a keydown on window */
+  pressKey: (key: string) => void;
+  wait: (ms: number) => Promise<void>;
+  /** Retry the check until it stops throwing or the timeout passes */
+  waitFor: (check: () => void, timeoutMs?: number) => Promise<void>;
+  assert: (condition: boolean, message: string) => void;
+  /** Intervals started by the component and not cleared yet */
+  activeIntervals: () => number;
+  /** Window listeners of this event type added by the component and not removed yet */
+  activeListeners: (type: string) => number;
+  /** State mutations reported by the immutability guard during this test */
+  mutations: () => StateMutation[];
+  /** Fake the component's matchMedia for this test */
+  mockMediaQuery: (matches: boolean) => MockMediaQuery;
+}
+
+/**
+ * Hidden check run against the learner's code
+ */
+export interface ExerciseTest {
+  name: string;
+  run: (t: ExerciseTestContext) => Promise<void>;
+}
+
+/**
+ * Broken starter code derived from one of a hook's common mistakes
+ */
+export interface Exercise {
+  id: string;
+  title: string;
+  /** 1-based index into the hook's commonMistakes */
+  mistake: number;
+  instructions: string;
+  starterCode: string;
+  tests: ExerciseTest[];
+}
+
+/**
+ * Outcome of one exercise test
+ */
+export type ExerciseTestResult =
+  | { name: string; status: 'passed' }
+  | { name: string; status: 'failed'; message: string };
+
+/**
+ * Outcome of checking an exercise: a compile error, or one result per test
+ */
+export type ExerciseRunResult =
+  | { status: 'error'; phase: 'compile' | 'runtime'; message: string }
+  | { status: 'done'; results: ExerciseTestResult[] };
+
+/**
+ * Props for ExercisePanel component
+ */
+export interface ExercisePanelProps {
+  hookId: HookId;
+}
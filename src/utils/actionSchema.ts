@@ -0,0 +1,121 @@
+import type { ActionSchema, ActionValidation } from '../types';
+
+const ACTION_LOG_FORMAT = 'reacthookstudio-action-log';
+const ACTION_LOG_VERSION = 1;
+
+/**
+ * Exported action logs, keyed by console target id
+ */
+export interface ActionLogFile {
+  format: typeof ACTION_LOG_FORMAT;
+  version: typeof ACTION_LOG_VERSION;
+  logs: Record<string, unknown[]>;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  const type = typeof value;
+  return type === 'object' || type === 'undefined' ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Check an already parsed value against the action shapes a reducer accepts.
+ * Unknown types are reported separately: they are well-formed actions that
+ * the reducer's switch sends to `default`.
+ */
+export function validateAction(value: unknown, schema: ActionSchema): ActionValidation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { status: 'invalid', message: `An action must be an object, got ${describeType(value)}` };
+  }
+  if (!('type' in value) || typeof value.type !== 'string') {
+    return { status: 'invalid', message: 'An action needs a string "type" property' };
+  }
+
+  const action = value as { type: string; payload?: unknown };
+  const extraKeys = Object.keys(action).filter((key) => key !== 'type' && key !== 'payload');
+  if (extraKeys.length > 0) {
+    return { status: 'invalid', message: `Unexpected properties: ${extraKeys.join(', ')}` };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(schema, action.type)) {
+    return { status: 'unknown-type', action, knownTypes: Object.keys(schema) };
+  }
+
+  const expected = schema[action.type];
+  if (expected === 'none') {
+    return 'payload' in action
+      ? { status: 'invalid', message: `${action.type} does not take a payload` }
+      : { status: 'valid', action };
+  }
+  if (typeof action.payload !== expected) {
+    return {
+      status: 'invalid',
+      message: `${action.type} expects a ${expected} payload, got ${
+        'payload' in action ? describeType(action.payload) : 'no payload'
+      }`,
+    };
+  }
+  return { status: 'valid', action };
+}
+
+/**
+ * Parse console input as JSON and validate it as an action
+ */
+export function parseAction(input: string, schema: ActionSchema): ActionValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(input);
+  } catch (error) {
+    return {
+      status: 'invalid',
+      message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+  return validateAction(value, schema);
+}
+
+/**
+ * Serialize action logs for download
+ */
+export function serializeActionLogs(logs: Record<string, unknown[]>): string {
+  const file: ActionLogFile = { format: ACTION_LOG_FORMAT, version: ACTION_LOG_VERSION, logs };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read an exported action log file
+ * @throws Error if the file is not an action log or contains malformed actions
+ */
+export function parseActionLogFile(
+  text: string,
+  schemas: Record<string, ActionSchema>
+): Record<string, { type: string; payload?: unknown }[]> {
+  const file = JSON.parse(text) as Partial<ActionLogFile> | null;
+  if (file?.format !== ACTION_LOG_FORMAT || file.version !== ACTION_LOG_VERSION) {
+    throw new Error('Not a React Hook Studio action log');
+  }
+  if (typeof file.logs !== 'object' || file.logs === null) {
+    throw new Error('Action log file has no logs');
+  }
+
+  const logs: Record<string, { type: string; payload?: unknown }[]> = {};
+  Object.entries(file.logs).forEach(([targetId, actions]) => {
+    const schema = schemas[targetId];
+    if (!schema) {
+      throw new Error(`Unknown reducer "${targetId}" in action log`);
+    }
+    if (!Array.isArray(actions)) {
+      throw new Error(`Actions for "${targetId}" must be an array`);
+    }
+    logs[targetId] = actions.map((action, index) => {
+      const result = validateAction(action, schema);
+      // Unknown types are kept: they were dispatched on purpose and replay as no-ops
+      if (result.status === 'invalid') {
+        throw new Error(`${targetId} action #${index + 1}: ${result.message}`);
+      }
+      return result.action;
+    });
+  });
+  return logs;
+}
@@ -0,0 +1,11 @@
+/**
+ * Save a JSON string as a file through a temporary download link
+ */
+export function downloadFile(fileName: string, contents: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,38 @@
+const DRAFT_STORAGE_PREFIX = 'reacthookstudio-draft-';
+
+function getDraftKey(hookId: string): string {
+  return `${DRAFT_STORAGE_PREFIX}${hookId}`;
+}
+
+/**
+ * Get the saved editor draft for a hook, if any
+ */
+export function loadDraft(hookId: string): string | null {
+  try {
+    return localStorage.getItem(getDraftKey(hookId));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the editor draft for a hook
+ */
+export function saveDraft(hookId: string, code: string): void {
+  try {
+    localStorage.setItem(getDraftKey(hookId), code);
+  } catch {
+    // Storage full or unavailable (private mode) - drafts are best effort
+  }
+}
+
+/**
+ * Remove the saved editor draft for a hook
+ */
+export function clearDraft(hookId: string): void {
+  try {
+    localStorage.removeItem(getDraftKey(hookId));
+  } catch {
+    // Storage unavailable - nothing to clear
+  }
+}
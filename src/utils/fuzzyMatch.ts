@@ -0,0 +1,99 @@
+import type { FuzzyMatch, TextRange } from '../types';
+
+// A scattered match may span at most this many characters per query character
+const MAX_SPREAD_PER_CHAR = 3;
+
+// Matches in the first field (usually a title) outrank matches further down
+const PRIMARY_FIELD_WEIGHT = 2;
+
+interface TokenMatch {
+  score: number;
+  ranges: TextRange[];
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[a-z0-9]/i.test(text[index - 1]) || /[A-Z]/.test(text[index]);
+}
+
+/**
+ * Match one lowercase token against a text: a substring scores highest
+ * (more so at a word start), otherwise the token's characters in order
+ * within a short window.
+ */
+function matchToken(token: string, text: string): TokenMatch | null {
+  const lower = text.toLowerCase();
+
+  const index = lower.indexOf(token);
+  if (index !== -1) {
+    return {
+      score: 100 + (isWordStart(text, index) ? 50 : 0) + token.length * 10 - Math.min(index, 100) / 10,
+      ranges: [{ start: index, end: index + token.length }],
+    };
+  }
+
+  const first = lower.indexOf(token[0]);
+  if (first === -1) return null;
+
+  const ranges: TextRange[] = [];
+  let position = first;
+  for (const char of token) {
+    const found = lower.indexOf(char, position);
+    if (found === -1) return null;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === found) {
+      last.end = found + 1;
+    } else {
+      ranges.push({ start: found, end: found + 1 });
+    }
+    position = found + 1;
+  }
+
+  const spread = position - first;
+  if (spread > token.length * MAX_SPREAD_PER_CHAR) return null;
+
+  return { score: 50 - (spread - token.length) * 2 - ranges.length * 5, ranges };
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Fuzzy match a query against text fields ordered by importance.
+ * Every whitespace-separated word of the query has to match some field;
+ * returns null when one doesn't.
+ */
+export function fuzzyMatch(query: string, fields: string[]): FuzzyMatch | null {
+  const tokens = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const ranges: TextRange[][] = fields.map(() => []);
+  let score = 0;
+
+  for (const token of tokens) {
+    let best: { match: TokenMatch; field: number; weighted: number } | null = null;
+    for (let fieldIndex = 0; fieldIndex < fields.length; fieldIndex++) {
+      const match = matchToken(token, fields[fieldIndex]);
+      if (!match) continue;
+      const weighted = match.score * (fieldIndex === 0 ? PRIMARY_FIELD_WEIGHT : 1);
+      if (!best || weighted > best.weighted) {
+        best = { match, field: fieldIndex, weighted };
+      }
+    }
+    if (!best) return null;
+
+    const { match, field, weighted } = best;
+    score += weighted;
+    ranges[field].push(...match.ranges);
+  }
+
+  return { score, ranges: ranges.map(mergeRanges) };
+}
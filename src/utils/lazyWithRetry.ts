@@ -0,0 +1,39 @@
+import { createElement, lazy, type ComponentProps, type ComponentType } from 'react';
+
+// Resets for lazy components whose last load failed
+const failedLoads = new Set<() => void>();
+
+/**
+ * Like React.lazy, but a failed load is not cached for good: retryFailedLoads
+ * lets the next render request the chunk again.
+ */
+export function lazyWithRetry<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- same constraint as React.lazy
+  T extends ComponentType<any>,
+>(
+  load: () => Promise<{ default: T }>
+): ComponentType<ComponentProps<T>> {
+  const createLazy = () =>
+    lazy(() =>
+      load().catch((error: unknown) => {
+        failedLoads.add(reset);
+        throw error;
+      })
+    );
+  const reset = () => {
+    current = createLazy();
+  };
+  let current = createLazy();
+
+  return function LazyWithRetry(props: ComponentProps<T>) {
+    return createElement(current, props);
+  };
+}
+
+/**
+ * Let every lazy component whose load failed request its chunk again on its next render
+ */
+export function retryFailedLoads(): void {
+  failedLoads.forEach((reset) => reset());
+  failedLoads.clear();
+}
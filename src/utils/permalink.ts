@@ -0,0 +1,57 @@
+const CODE_HASH_PREFIX = '#code=';
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Base64url without padding, so the result is safe inside a URL fragment
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Compress code into a URL-safe string
+ */
+export async function encodeCode(code: string): Promise<string> {
+  const compressed = await pipeBytes(new TextEncoder().encode(code), new CompressionStream('deflate-raw'));
+  return toBase64Url(compressed);
+}
+
+/**
+ * Restore code produced by encodeCode
+ * @throws Error if the payload is not valid compressed code
+ */
+export async function decodeCode(encoded: string): Promise<string> {
+  const decompressed = await pipeBytes(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+  return new TextDecoder().decode(decompressed);
+}
+
+/**
+ * Extract the encoded code from a location hash like "#code=..."
+ */
+export function getCodeFromHash(hash: string): string | null {
+  return hash.startsWith(CODE_HASH_PREFIX) ? hash.slice(CODE_HASH_PREFIX.length) : null;
+}
+
+/**
+ * Build the hash fragment for a permalink
+ */
+export function createCodeHash(encoded: string): string {
+  return `${CODE_HASH_PREFIX}${encoded}`;
+}
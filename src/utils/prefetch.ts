@@ -0,0 +1,8 @@
+/**
+ * Start downloading a lazily loaded chunk before it is needed.
+ * Failures (offline, or a chunk gone after a deploy) are ignored here; the
+ * chunk is requested again when it is actually used, and that load reports them.
+ */
+export function prefetchChunk(load: () => Promise<unknown>): void {
+  load().catch(() => undefined);
+}
@@ -0,0 +1,39 @@
+import type { HookInfo, HookProgress, HookStatus, ProgressState } from '../types';
+
+export const emptyHookProgress: HookProgress = {
+  visited: false,
+  codeOpened: false,
+  completedExercises: [],
+  understood: false,
+};
+
+/**
+ * Share of a hook's milestones reached, from 0 to 1: visiting the page,
+ * opening the Code tab, marking it understood and, when the hook has
+ * exercises, completing them.
+ */
+export function getHookCompletion(progress: HookProgress, exerciseCount = 0): number {
+  const milestones = [progress.visited, progress.codeOpened, progress.understood].filter(Boolean).length;
+  if (exerciseCount === 0) {
+    return milestones / 3;
+  }
+  const exercises = Math.min(progress.completedExercises.length, exerciseCount) / exerciseCount;
+  return (milestones + exercises) / 4;
+}
+
+export function getHookStatus(progress: HookProgress): HookStatus {
+  if (progress.understood) return 'understood';
+  if (progress.visited) return 'in-progress';
+  return 'not-started';
+}
+
+/**
+ * Hooks to work on next: ones already started come first, then
+ * untouched ones in catalog order
+ */
+export function getSuggestedHooks(hooks: HookInfo[], progress: ProgressState, limit: number): HookInfo[] {
+  const byStatus = (status: HookStatus): HookInfo[] =>
+    hooks.filter((hook) => getHookStatus(progress[hook.id] ?? emptyHookProgress) === status);
+
+  return [...byStatus('in-progress'), ...byStatus('not-started')].slice(0, limit);
+}
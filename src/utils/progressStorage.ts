@@ -0,0 +1,49 @@
+import { hooksList } from '../data/hooksList';
+import type { HookProgress, ProgressState } from '../types';
+
+const PROGRESS_STORAGE_KEY = 'reacthookstudio-progress';
+
+function isHookProgress(value: unknown): value is HookProgress {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.visited === 'boolean' &&
+    typeof candidate.codeOpened === 'boolean' &&
+    typeof candidate.understood === 'boolean' &&
+    Array.isArray(candidate.completedExercises) &&
+    candidate.completedExercises.every((id) => typeof id === 'string')
+  );
+}
+
+/**
+ * Read saved progress, keeping only well-formed entries for hooks that still exist
+ */
+export function loadProgress(): ProgressState {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(PROGRESS_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+  if (typeof stored !== 'object' || stored === null) return {};
+
+  const progress: ProgressState = {};
+  for (const hook of hooksList) {
+    const entry = (stored as Record<string, unknown>)[hook.id];
+    if (isHookProgress(entry)) {
+      progress[hook.id] = entry;
+    }
+  }
+  return progress;
+}
+
+/**
+ * Save progress
+ */
+export function saveProgress(progress: ProgressState): void {
+  try {
+    localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage full or unavailable (private mode) - progress is best effort
+  }
+}
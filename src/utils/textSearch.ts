@@ -0,0 +1,94 @@
+import type { TextRange, TextSnippet } from '../types';
+
+// Characters of context kept on each side of the first match in prose snippets
+const SNIPPET_RADIUS = 80;
+
+// Lines of context kept above and below the first matching line in code snippets
+const CODE_CONTEXT_LINES = 2;
+
+/**
+ * Lowercase search terms of a query, without duplicates
+ */
+export function getSearchTerms(query: string): string[] {
+  return Array.from(new Set(query.trim().toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+/**
+ * Every occurrence of every term in the text, merged and sorted.
+ * Returns null unless all terms occur at least once.
+ */
+export function findTerms(text: string, terms: string[]): TextRange[] | null {
+  if (terms.length === 0) return null;
+
+  const lower = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    if (index === -1) return null;
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Keep only the ranges inside [start, end), shifted to be relative to start
+ */
+function sliceRanges(ranges: TextRange[], start: number, end: number): TextRange[] {
+  return ranges
+    .filter((range) => range.end > start && range.start < end)
+    .map((range) => ({ start: Math.max(range.start, start) - start, end: Math.min(range.end, end) - start }));
+}
+
+/**
+ * Prose excerpt around the first match, cut at word boundaries
+ */
+export function createTextSnippet(text: string, ranges: TextRange[]): TextSnippet {
+  if (text.length <= SNIPPET_RADIUS * 2 || ranges.length === 0) {
+    return { text, ranges };
+  }
+
+  let start = Math.max(0, ranges[0].start - SNIPPET_RADIUS);
+  let end = Math.min(text.length, ranges[0].end + SNIPPET_RADIUS);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > ranges[0].end ? text.lastIndexOf(' ', end) : end;
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: sliceRanges(ranges, start, end).map((range) => ({
+      start: range.start + prefix.length,
+      end: range.end + prefix.length,
+    })),
+  };
+}
+
+/**
+ * Code excerpt: the first matching line with a few lines of context
+ */
+export function createCodeSnippet(code: string, ranges: TextRange[]): TextSnippet {
+  const lines = code.split('\n');
+  const firstMatch = ranges[0]?.start ?? 0;
+  const matchLine = code.slice(0, firstMatch).split('\n').length - 1;
+
+  const firstLine = Math.max(0, matchLine - CODE_CONTEXT_LINES);
+  const lastLine = Math.min(lines.length - 1, matchLine + CODE_CONTEXT_LINES);
+  const start = lines.slice(0, firstLine).reduce((offset, line) => offset + line.length + 1, 0);
+  const text = lines.slice(firstLine, lastLine + 1).join('\n');
+
+  return { text, ranges: sliceRanges(ranges, start, start + text.length), startLine: firstLine + 1 };
+}
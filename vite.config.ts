@@ -1,8 +1,48 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ command }) => ({
+  plugins: [
+    react(),
+    VitePWA({
+      registerType: 'autoUpdate',
+      manifest: {
+        name: 'React Hook Studio',
+        short_name: 'Hook Studio',
+        description: 'A modern interactive React Hooks learning and debugging playground',
+        theme_color: '#8b5cf6',
+        background_color: '#0c0a1d',
+        display: 'standalone',
+        start_url: '/',
+        icons: [{ src: '/pwa-icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+      },
+      workbox: {
+        // Every playground and editor chunk is precached so the studio runs without network
+        globPatterns: ['**/*.{js,css,html,svg,woff,woff2,ttf}'],
+        // Monaco's main chunk and TypeScript worker are several megabytes each
+        maximumFileSizeToCacheInBytes: 16 * 1024 * 1024,
+        // Client-side routes (/hooks/..., unknown paths) are served the app shell
+        navigateFallback: '/index.html',
+        runtimeCaching: [
+          {
+            urlPattern: /^https:\/\/fonts\.(googleapis|gstatic)\.com\/.*/,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'google-fonts',
+              expiration: { maxEntries: 20, maxAgeSeconds: 60 * 60 * 24 * 365 },
+              cacheableResponse: { statuses: [0, 200] },
+            },
+          },
+        ],
+      },
+    }),
+  ],
+  resolve: {
+    // Production react-dom ignores <Profiler>; use the profiling build so the render timeline keeps working
+    alias: command === 'build' ? [{ find: /^react-dom$/, replacement: 'react-dom/profiling' }] : [],
+  },
   server: {
     port: 3000,
     open: true,
@@ -11,4 +51,8 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true,
   },
-});
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/setupTests.ts'],
+  },
+}));